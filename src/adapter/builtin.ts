@@ -0,0 +1,5 @@
+/**
+ * `browserEntry` of the built-in adapters whose browser handlers share code.
+ * The plugin resolves it to the bundled `src/bridge/handlers` module.
+ */
+export const BUILTIN_BROWSER_ENTRY = "vite-mcp/bridge/handlers";
@@ -56,9 +56,16 @@ export const componentTreeAdapterOutputSchema = z.object({
 
 export const componentTreeAdapter: AdapterDefinition = {
     name: "component-tree",
-    description: "Get the current page route and component tree structure (supports React, Vue, Svelte, and other frameworks)",
+    description: "Get the current page route and component tree structure (supports React, Vue, Svelte, and other frameworks). Pass a component name to the dom tool to inspect the DOM nodes it renders",
     inputSchema: componentTreeAdapterInputSchema,
     outputSchema: componentTreeAdapterOutputSchema,
+    resources: [
+        {
+            name: "components",
+            uri: "vite://components",
+            description: "Current route and component tree of the active browser tab",
+        },
+    ],
     handler: async function (params?: {
         includeProps?: boolean;
         includeState?: boolean;
@@ -3,21 +3,39 @@ import type { AdapterDefinition } from "./types.js";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 
 type ConsoleLevel = "log" | "warn" | "error" | "info" | "debug";
+type ConsoleEntryKind = "console" | "uncaught" | "unhandledrejection" | "resource" | "csp";
 
 interface ConsoleEntry {
   level: ConsoleLevel;
+  kind?: ConsoleEntryKind;
   args: unknown[];
   timestamp: number;
+  message?: string;
+  source?: string;
+  line?: number;
+  column?: number;
+  stack?: string;
+  errorName?: string;
 }
 
+const consoleEntryKindSchema = z.enum(["console", "uncaught", "unhandledrejection", "resource", "csp"]);
+
 export const consoleAdapterInputSchema = z.object({
-  type: z.enum(["log", "warn", "error", "info", "debug"]).optional().describe("Filter logs by level"),
+  type: z.enum(["log", "warn", "error", "info", "debug"]).optional().describe("Filter logs by level. 'error' includes uncaught errors, unhandled rejections, resource load failures and CSP violations"),
+  kind: z
+    .union([consoleEntryKindSchema, z.array(consoleEntryKindSchema)])
+    .optional()
+    .describe("Filter by where the entry came from: console calls, uncaught errors, unhandled promise rejections, failed resource loads or CSP violations"),
   tail: z
     .coerce
     .number()
     .min(1)
     .optional()
     .describe("Number (integer) of most recent console entries to return. If not specified, returns all entries."),
+  sourceMap: z
+    .boolean()
+    .optional()
+    .describe("Map stack traces and error locations back to the original source files and lines using the dev server's source maps. Off by default."),
 });
 
 export const consoleAdapterOutputSchema = z.object({
@@ -25,8 +43,15 @@ export const consoleAdapterOutputSchema = z.object({
     .array(
       z.object({
         level: z.enum(["log", "warn", "error", "info", "debug"]).describe("Console log level"),
+        kind: consoleEntryKindSchema.optional().describe("Where the entry came from (console call or captured error)"),
         args: z.array(z.unknown()).describe("Console message arguments"),
         timestamp: z.number().describe("Message timestamp"),
+        message: z.string().optional().describe("Error message (for captured errors)"),
+        source: z.string().optional().describe("Source file or resource URL (for captured errors)"),
+        line: z.number().optional().describe("Line number in the source file (for captured errors)"),
+        column: z.number().optional().describe("Column number in the source file (for captured errors)"),
+        stack: z.string().optional().describe("Stack trace (for captured errors)"),
+        errorName: z.string().optional().describe("Error name, e.g. TypeError (for captured errors)"),
       })
     )
     .describe("Array of console log entries"),
@@ -37,7 +62,18 @@ export const consoleAdapter: AdapterDefinition = {
   description: "Read the console log",
   inputSchema: consoleAdapterInputSchema,
   outputSchema: consoleAdapterOutputSchema,
-  handler: async function (params?: { type?: ConsoleLevel; tail?: number }): Promise<CallToolResult> {
+  resources: [
+    {
+      name: "console",
+      uri: "vite://console",
+      description: "Console messages and captured errors of the active browser tab",
+    },
+  ],
+  handler: async function (params?: {
+    type?: ConsoleLevel;
+    kind?: ConsoleEntryKind | ConsoleEntryKind[];
+    tail?: number;
+  }): Promise<CallToolResult> {
     if (typeof window === "undefined") {
       return {
         structuredContent: { logs: [] },
@@ -59,6 +95,12 @@ export const consoleAdapter: AdapterDefinition = {
         logs = logs.filter(entry => entry.level === filterType);
       }
 
+      const filterKind = params?.kind;
+      if (filterKind !== undefined) {
+        const kinds = Array.isArray(filterKind) ? filterKind : [filterKind];
+        logs = logs.filter(entry => kinds.includes(entry.kind ?? "console"));
+      }
+
       const tail = params?.tail;
       if (tail !== undefined) {
         logs = logs.slice(-tail);
@@ -89,18 +131,37 @@ export const consoleAdapter: AdapterDefinition = {
           })
           .join(' ');
 
-        return `[${timestamp}] [${entry.level.toUpperCase()}] ${argsString}`;
+        const kind = entry.kind ?? "console";
+        if (kind === "console") {
+          return `[${timestamp}] [${entry.level.toUpperCase()}] ${argsString}`;
+        }
+
+        const location = entry.source
+          ? ` (${entry.source}${entry.line !== undefined ? `:${entry.line}` : ""}${entry.column !== undefined ? `:${entry.column}` : ""})`
+          : "";
+        const name = entry.errorName ? `${entry.errorName}: ` : "";
+        const stack = entry.stack ? `\n${entry.stack}` : "";
+        return `[${timestamp}] [${entry.level.toUpperCase()}] [${kind}] ${name}${entry.message ?? argsString}${location}${stack}`;
       };
 
       const logText = logs.length > 0
         ? logs.map(formatConsoleEntry).join('\n')
         : 'No console logs found.';
 
-      const structuredLogs = logs.map(entry => ({
-        level: entry.level,
-        args: entry.args,
-        timestamp: entry.timestamp,
-      }));
+      const structuredLogs = logs.map(entry => {
+        const structured: Record<string, unknown> = {
+          level: entry.level,
+          kind: entry.kind ?? "console",
+          args: entry.args,
+          timestamp: entry.timestamp,
+        };
+        for (const field of ["message", "source", "line", "column", "stack", "errorName"] as const) {
+          if (entry[field] !== undefined) {
+            structured[field] = entry[field];
+          }
+        }
+        return structured;
+      });
 
       return {
         structuredContent: { logs: structuredLogs },
@@ -0,0 +1,553 @@
+import { z } from "zod";
+import type { AdapterDefinition } from "./types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+interface DomAccessibility {
+  role: string;
+  name: string;
+  description?: string;
+  states: string[];
+  focusable: boolean;
+  hidden: boolean;
+}
+
+interface DomElementInfo {
+  index: number;
+  selector: string;
+  tagName: string;
+  id?: string;
+  classes: string[];
+  attributes: Record<string, string>;
+  text: string;
+  textTruncated?: boolean;
+  html?: string;
+  htmlSize?: number;
+  htmlTruncated?: boolean;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  visible: boolean;
+  inViewport: boolean;
+  styles?: Record<string, string>;
+  accessibility: DomAccessibility;
+  components?: string[];
+}
+
+export const domAdapterInputSchema = z.object({
+  selector: z.string().optional().describe("CSS selector of the elements to inspect"),
+  xpath: z.string().optional().describe("XPath expression of the elements to inspect (alternative to selector)"),
+  component: z
+    .string()
+    .optional()
+    .describe("Component name from the component-tree tool; matches the top-level DOM nodes it renders (React and Vue)"),
+  limit: z.coerce.number().min(1).optional().describe("Maximum number of elements to return (default: 20)"),
+  includeHtml: z.boolean().optional().describe("Include the outer HTML of each element (default: true)"),
+  maxHtmlLength: z.coerce.number().min(0).optional().describe("Maximum outer HTML length per element in characters (default: 2000)"),
+  maxTextLength: z.coerce.number().min(0).optional().describe("Maximum text content length per element in characters (default: 500)"),
+  includeStyles: z.boolean().optional().describe("Include computed styles (default: true)"),
+  styles: z
+    .array(z.string())
+    .optional()
+    .describe("Computed style properties to return (default: common layout and visibility properties)"),
+});
+
+export const domAdapterOutputSchema = z.object({
+  total: z.number().describe("Number of elements matched"),
+  count: z.number().describe("Number of elements returned"),
+  elements: z
+    .array(
+      z.object({
+        index: z.number().describe("Position among the matched elements"),
+        selector: z.string().describe("Unique CSS selector for the element, usable in later calls"),
+        tagName: z.string(),
+        id: z.string().optional(),
+        classes: z.array(z.string()),
+        attributes: z.record(z.string(), z.string()),
+        text: z.string().describe("Whitespace-collapsed text content"),
+        textTruncated: z.boolean().optional(),
+        html: z.string().optional().describe("Outer HTML"),
+        htmlSize: z.number().optional().describe("Full outer HTML length in characters"),
+        htmlTruncated: z.boolean().optional(),
+        boundingBox: z.object({
+          x: z.number(),
+          y: z.number(),
+          width: z.number(),
+          height: z.number(),
+        }),
+        visible: z.boolean().describe("Whether the element is rendered and not hidden by CSS"),
+        inViewport: z.boolean().describe("Whether the element intersects the viewport"),
+        styles: z.record(z.string(), z.string()).optional().describe("Computed styles"),
+        accessibility: z.object({
+          role: z.string().describe("Explicit or implicit ARIA role"),
+          name: z.string().describe("Accessible name"),
+          description: z.string().optional(),
+          states: z.array(z.string()).describe("ARIA states such as disabled, checked or expanded"),
+          focusable: z.boolean(),
+          hidden: z.boolean().describe("Whether the element is hidden from assistive technology"),
+        }),
+        components: z
+          .array(z.string())
+          .optional()
+          .describe("Owning components, nearest first (React and Vue)"),
+      })
+    )
+    .describe("Matched elements"),
+});
+
+export const domAdapter: AdapterDefinition = {
+  name: "dom",
+  description:
+    "Query DOM elements by CSS selector, XPath or component name and return their HTML, text, attributes, computed styles, bounding boxes, visibility, accessibility summary and owning components",
+  inputSchema: domAdapterInputSchema,
+  outputSchema: domAdapterOutputSchema,
+  handler: async function (params?: {
+    selector?: string;
+    xpath?: string;
+    component?: string;
+    limit?: number;
+    includeHtml?: boolean;
+    maxHtmlLength?: number;
+    maxTextLength?: number;
+    includeStyles?: boolean;
+    styles?: string[];
+  }): Promise<CallToolResult> {
+    if (typeof window === "undefined" || typeof document === "undefined") {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ error: "Not available in server environment" }),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const defaultStyles = [
+      "display",
+      "visibility",
+      "opacity",
+      "position",
+      "z-index",
+      "width",
+      "height",
+      "margin",
+      "padding",
+      "color",
+      "background-color",
+      "font-size",
+      "font-weight",
+      "overflow",
+      "pointer-events",
+    ];
+
+    const collapse = (text: string | null | undefined): string =>
+      (text || "").replace(/\s+/g, " ").trim();
+
+    // Component instances that own an element, nearest first
+    const getOwners = (element: Element): Array<{ name: string; instance: unknown }> => {
+      const owners: Array<{ name: string; instance: unknown }> = [];
+      const el = element as any;
+
+      const fiberKey = Object.keys(el).find(
+        (key) => key.startsWith("__reactFiber$") || key.startsWith("__reactInternalInstance$")
+      );
+      if (fiberKey) {
+        let fiber = el[fiberKey]?.return;
+        while (fiber && owners.length < 20) {
+          if (typeof fiber.type === "function" || (fiber.type && typeof fiber.type === "object")) {
+            const type = fiber.type.render || fiber.type.type || fiber.type;
+            const name = type.displayName || type.name;
+            if (name) owners.push({ name, instance: fiber });
+          }
+          fiber = fiber.return;
+        }
+        return owners;
+      }
+
+      let vue3 = el.__vueParentComponent;
+      if (!vue3) {
+        let parent = element.parentElement as any;
+        while (parent && !parent.__vueParentComponent && !parent.__vue__) {
+          parent = parent.parentElement;
+        }
+        vue3 = parent?.__vueParentComponent;
+      }
+      if (vue3) {
+        let instance = vue3;
+        while (instance && owners.length < 20) {
+          const name = instance.type?.name || instance.type?.__name;
+          if (name) owners.push({ name, instance });
+          instance = instance.parent;
+        }
+        return owners;
+      }
+
+      let node: any = element;
+      while (node && !node.__vue__) {
+        node = node.parentElement;
+      }
+      let vue2 = node?.__vue__;
+      while (vue2 && owners.length < 20) {
+        const name = vue2.$options?.name || vue2.$options?._componentTag;
+        if (name) owners.push({ name, instance: vue2 });
+        vue2 = vue2.$parent;
+      }
+      return owners;
+    };
+
+    // React keeps two fibers per component instance (current and alternate)
+    const isSameInstance = (a: any, b: any): boolean => a === b || (!!a && a.alternate === b);
+
+    const findComponentElements = (componentName: string): Element[] => {
+      const matches: Element[] = [];
+      for (const element of Array.from(document.body.querySelectorAll("*"))) {
+        const owner = getOwners(element).find(({ name }) => name === componentName);
+        if (!owner) continue;
+
+        // Keep only the top-level nodes rendered by this component instance
+        const parent = element.parentElement;
+        const parentOwner = parent
+          ? getOwners(parent).find(({ instance }) => isSameInstance(instance, owner.instance))
+          : undefined;
+        if (!parentOwner) {
+          matches.push(element);
+        }
+      }
+      return matches;
+    };
+
+    const getUniqueSelector = (element: Element): string => {
+      const parts: string[] = [];
+      let current: Element | null = element;
+      while (current && current !== document.documentElement) {
+        if (current.id && document.querySelectorAll(`#${CSS.escape(current.id)}`).length === 1) {
+          parts.unshift(`#${CSS.escape(current.id)}`);
+          break;
+        }
+        const tag = current.tagName.toLowerCase();
+        const parent: Element | null = current.parentElement;
+        if (!parent) {
+          parts.unshift(tag);
+          break;
+        }
+        const sameTag = Array.from(parent.children).filter((child) => child.tagName === current!.tagName);
+        parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+        current = parent;
+      }
+      return parts.join(" > ");
+    };
+
+    const getImplicitRole = (element: Element): string => {
+      const tag = element.tagName.toLowerCase();
+      const type = (element.getAttribute("type") || "text").toLowerCase();
+      switch (tag) {
+        case "a":
+        case "area":
+          return element.hasAttribute("href") ? "link" : "generic";
+        case "button":
+          return "button";
+        case "input":
+          if (["button", "submit", "reset", "image"].includes(type)) return "button";
+          if (type === "checkbox") return "checkbox";
+          if (type === "radio") return "radio";
+          if (type === "range") return "slider";
+          if (type === "number") return "spinbutton";
+          if (type === "search") return "searchbox";
+          if (type === "hidden") return "none";
+          return "textbox";
+        case "textarea":
+          return "textbox";
+        case "select":
+          return element.hasAttribute("multiple") ? "listbox" : "combobox";
+        case "option":
+          return "option";
+        case "img":
+          return element.getAttribute("alt") === "" ? "presentation" : "img";
+        case "h1":
+        case "h2":
+        case "h3":
+        case "h4":
+        case "h5":
+        case "h6":
+          return "heading";
+        case "ul":
+        case "ol":
+          return "list";
+        case "li":
+          return "listitem";
+        case "nav":
+          return "navigation";
+        case "main":
+          return "main";
+        case "header":
+          return "banner";
+        case "footer":
+          return "contentinfo";
+        case "aside":
+          return "complementary";
+        case "form":
+          return "form";
+        case "table":
+          return "table";
+        case "tr":
+          return "row";
+        case "td":
+          return "cell";
+        case "th":
+          return "columnheader";
+        case "dialog":
+          return "dialog";
+        case "progress":
+          return "progressbar";
+        case "article":
+          return "article";
+        case "section":
+          return element.hasAttribute("aria-label") || element.hasAttribute("aria-labelledby") ? "region" : "generic";
+        default:
+          return "generic";
+      }
+    };
+
+    const getAccessibleName = (element: Element, role: string): string => {
+      const labelledBy = element.getAttribute("aria-labelledby");
+      if (labelledBy) {
+        const text = labelledBy
+          .split(/\s+/)
+          .map((id) => collapse(document.getElementById(id)?.textContent))
+          .filter(Boolean)
+          .join(" ");
+        if (text) return text;
+      }
+
+      const ariaLabel = element.getAttribute("aria-label");
+      if (ariaLabel && ariaLabel.trim()) return ariaLabel.trim();
+
+      const labels = (element as HTMLInputElement).labels;
+      if (labels && labels.length > 0) {
+        return Array.from(labels).map((label) => collapse(label.textContent)).join(" ");
+      }
+
+      const tag = element.tagName.toLowerCase();
+      if (tag === "img" || (tag === "input" && element.getAttribute("type") === "image")) {
+        const alt = element.getAttribute("alt");
+        if (alt) return alt;
+      }
+      if (tag === "input" && ["button", "submit", "reset"].includes((element.getAttribute("type") || "").toLowerCase())) {
+        const value = (element as HTMLInputElement).value;
+        if (value) return value;
+      }
+
+      const nameFromContent = ["button", "link", "heading", "option", "cell", "columnheader", "listitem", "checkbox", "radio"];
+      if (nameFromContent.includes(role)) {
+        const text = collapse(element.textContent);
+        if (text) return text;
+      }
+
+      const placeholder = element.getAttribute("placeholder");
+      if (placeholder) return placeholder;
+
+      return element.getAttribute("title") || "";
+    };
+
+    const getAccessibility = (element: Element, visible: boolean): DomAccessibility => {
+      const role = element.getAttribute("role")?.trim().split(/\s+/)[0] || getImplicitRole(element);
+      const states: string[] = [];
+      const input = element as HTMLInputElement;
+
+      if (input.disabled || element.getAttribute("aria-disabled") === "true") states.push("disabled");
+      if (input.required || element.getAttribute("aria-required") === "true") states.push("required");
+      if (input.readOnly || element.getAttribute("aria-readonly") === "true") states.push("readonly");
+      if ((role === "checkbox" || role === "radio") && input.checked) states.push("checked");
+      if (element.getAttribute("aria-checked") === "true") states.push("checked");
+      if ((element as HTMLOptionElement).selected || element.getAttribute("aria-selected") === "true") states.push("selected");
+      if (element.getAttribute("aria-expanded") === "true") states.push("expanded");
+      if (element.getAttribute("aria-expanded") === "false") states.push("collapsed");
+      if (element.getAttribute("aria-pressed") === "true") states.push("pressed");
+      if (element.getAttribute("aria-invalid") === "true") states.push("invalid");
+      if (element.getAttribute("aria-current") && element.getAttribute("aria-current") !== "false") states.push("current");
+      if (role === "heading") {
+        const level = element.getAttribute("aria-level") || element.tagName.match(/^H(\d)$/)?.[1];
+        if (level) states.push(`level ${level}`);
+      }
+
+      const tabIndex = element.getAttribute("tabindex");
+      const focusable =
+        !states.includes("disabled") &&
+        (tabIndex !== null
+          ? Number(tabIndex) >= 0
+          : element.matches("a[href], button, input:not([type=hidden]), select, textarea, summary, [contenteditable]"));
+
+      const hidden = !visible || element.closest("[aria-hidden='true'], [hidden], [inert]") !== null;
+
+      const accessibility: DomAccessibility = {
+        role,
+        name: getAccessibleName(element, role),
+        states,
+        focusable,
+        hidden,
+      };
+
+      const describedBy = element.getAttribute("aria-describedby");
+      const description = describedBy
+        ? describedBy
+          .split(/\s+/)
+          .map((id) => collapse(document.getElementById(id)?.textContent))
+          .filter(Boolean)
+          .join(" ")
+        : element.getAttribute("aria-description") || "";
+      if (description) accessibility.description = description;
+
+      return accessibility;
+    };
+
+    const isVisible = (element: Element, rect: DOMRect, style: CSSStyleDeclaration): boolean => {
+      if (typeof (element as any).checkVisibility === "function") {
+        if (!(element as any).checkVisibility({ checkOpacity: true, checkVisibilityCSS: true })) {
+          return false;
+        }
+      } else if (style.display === "none" || style.visibility === "hidden" || style.opacity === "0") {
+        return false;
+      }
+      return rect.width > 0 || rect.height > 0 || style.display === "contents";
+    };
+
+    const describeElement = (element: Element, index: number): DomElementInfo => {
+      const rect = element.getBoundingClientRect();
+      const style = window.getComputedStyle(element);
+      const visible = isVisible(element, rect, style);
+
+      const attributes: Record<string, string> = {};
+      for (const attribute of Array.from(element.attributes)) {
+        attributes[attribute.name] = attribute.value;
+      }
+
+      const maxText = params?.maxTextLength ?? 500;
+      const fullText = collapse(element.textContent);
+
+      const info: DomElementInfo = {
+        index,
+        selector: getUniqueSelector(element),
+        tagName: element.tagName.toLowerCase(),
+        classes: Array.from(element.classList),
+        attributes,
+        text: fullText.length > maxText ? fullText.slice(0, maxText) : fullText,
+        boundingBox: {
+          x: Math.round(rect.x),
+          y: Math.round(rect.y),
+          width: Math.round(rect.width),
+          height: Math.round(rect.height),
+        },
+        visible,
+        inViewport:
+          visible &&
+          rect.bottom > 0 &&
+          rect.right > 0 &&
+          rect.top < window.innerHeight &&
+          rect.left < window.innerWidth,
+        accessibility: getAccessibility(element, visible),
+      };
+
+      if (element.id) info.id = element.id;
+      if (fullText.length > maxText) info.textTruncated = true;
+
+      if (params?.includeHtml !== false) {
+        const maxHtml = params?.maxHtmlLength ?? 2000;
+        const html = element.outerHTML;
+        info.htmlSize = html.length;
+        if (html.length > maxHtml) {
+          info.html = html.slice(0, maxHtml);
+          info.htmlTruncated = true;
+        } else {
+          info.html = html;
+        }
+      }
+
+      if (params?.includeStyles !== false) {
+        const styles: Record<string, string> = {};
+        for (const property of params?.styles ?? defaultStyles) {
+          styles[property] = style.getPropertyValue(property);
+        }
+        info.styles = styles;
+      }
+
+      const owners = getOwners(element).map(({ name }) => name);
+      if (owners.length > 0) info.components = owners;
+
+      return info;
+    };
+
+    try {
+      let matched: Element[];
+
+      if (params?.selector) {
+        matched = Array.from(document.querySelectorAll(params.selector));
+      } else if (params?.xpath) {
+        const snapshot = document.evaluate(
+          params.xpath,
+          document,
+          null,
+          XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+          null
+        );
+        matched = [];
+        for (let i = 0; i < snapshot.snapshotLength; i++) {
+          const node = snapshot.snapshotItem(i);
+          if (node && node.nodeType === Node.ELEMENT_NODE) {
+            matched.push(node as Element);
+          }
+        }
+      } else if (params?.component) {
+        matched = findComponentElements(params.component);
+      } else {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ error: "Provide a selector, xpath or component to query" }),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const limit = params?.limit ?? 20;
+      const elements = matched.slice(0, limit).map((element, index) => describeElement(element, index));
+      const result = { total: matched.length, count: elements.length, elements };
+
+      const summary = elements.map((element) => {
+        const { role, name, states, hidden } = element.accessibility;
+        const flags = [...states, hidden ? "hidden" : element.inViewport ? "in viewport" : "offscreen"];
+        const owner = element.components?.[0] ? ` <${element.components[0]}>` : "";
+        return `${element.index + 1}. ${role}${name ? ` "${name}"` : ""} ${element.selector}${owner} [${flags.join(", ")}]`;
+      });
+
+      return {
+        structuredContent: result,
+        content: [
+          {
+            type: "text" as const,
+            text:
+              elements.length === 0
+                ? "No elements matched"
+                : `Matched ${matched.length} element(s), showing ${elements.length}:\n${summary.join("\n")}`,
+          },
+          {
+            type: "text" as const,
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({
+              error: `Error querying DOM: ${error instanceof Error ? error.message : String(error)}`,
+            }),
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+};
@@ -7,4 +7,10 @@ export { indexedDBAdapter } from "./indexed-db.js";
 export { testSimpleAdapter } from "./test-simple.js";
 export { performanceAdapter } from "./performance.js";
 export { componentTreeAdapter } from "./component-tree.js";
-export type { AdapterDefinition } from "./types.js"; 
\ No newline at end of file
+export { networkAdapter } from "./network.js";
+export { domAdapter } from "./dom.js";
+export { interactAdapter } from "./interact.js";
+export { screenshotAdapter } from "./screenshot.js";
+export { serviceWorkerAdapter } from "./service-worker.js";
+export { storageSnapshotAdapter } from "./storage-snapshot.js";
+export type { AdapterDefinition, AdapterResource, BrowserHandlers } from "./types.js"; 
\ No newline at end of file
@@ -1,14 +1,42 @@
 import { z } from "zod";
 import type { AdapterDefinition } from "./types.js";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { BUILTIN_BROWSER_ENTRY } from "./builtin.js";
+
+const databaseExportSchema = z.object({
+  name: z.string().describe("Database name"),
+  version: z.number().describe("Database version"),
+  objectStores: z.array(
+    z.object({
+      name: z.string().describe("Object store name"),
+      keyPath: z.union([z.string(), z.array(z.string())]).nullable().describe("Key path, or null for out-of-line keys"),
+      autoIncrement: z.boolean().describe("Whether auto-increment is enabled"),
+      indexes: z.array(
+        z.object({
+          name: z.string().describe("Index name"),
+          keyPath: z.union([z.string(), z.array(z.string())]).describe("Key path of the index"),
+          unique: z.boolean().describe("Whether index keys must be unique"),
+          multiEntry: z.boolean().describe("Whether array values add one index entry per element"),
+        })
+      ),
+      records: z
+        .array(z.object({ key: z.any().describe("Primary key"), value: z.any().describe("Stored value") }))
+        .optional()
+        .describe("Records in primary key order; missing when exported with schemaOnly"),
+    })
+  ),
+});
 
 const indexedDBAdapterInputSchema = z.object({
   action: z.union([
     z.literal("list_databases"),
     z.literal("get_database_info"),
     z.literal("get_keys"),
+    z.literal("query"),
     z.literal("get_entry"),
+    z.literal("export_database"),
     z.literal("set_entry"),
+    z.literal("batch"),
+    z.literal("import_database"),
     z.literal("delete_entry"),
     z.literal("clear_object_store"),
     z.literal("delete_database"),
@@ -17,10 +45,46 @@ const indexedDBAdapterInputSchema = z.object({
   objectStoreName: z.string().optional().describe("Name of the object store (required for many actions)"),
   key: z.any().optional().describe("Key (required for get_entry, set_entry, delete_entry)"),
   value: z.any().optional().describe("Value to store (required for set_entry)"),
+  indexName: z.string().optional().describe("Index to query instead of the object store's primary key (for query)"),
+  range: z
+    .object({
+      only: z.any().optional().describe("Match exactly this key"),
+      lower: z.any().optional().describe("Lower bound"),
+      upper: z.any().optional().describe("Upper bound"),
+      lowerOpen: z.boolean().optional().describe("Exclude the lower bound itself"),
+      upperOpen: z.boolean().optional().describe("Exclude the upper bound itself"),
+    })
+    .optional()
+    .describe("Key range to read (for query); omit to read every record"),
+  direction: z.enum(["next", "prev", "nextunique", "prevunique"]).optional().describe("Cursor direction (for query, default: next)"),
+  offset: z.coerce.number().int().min(0).optional().describe("Records to skip before the first returned one (for query)"),
+  limit: z.coerce.number().int().min(1).max(1000).optional().describe("Maximum records to return (for query, default: 50)"),
+  fields: z.array(z.string()).optional().describe("Dot-separated paths to keep from each value (for query); omit to return whole values"),
+  cursor: z
+    .object({
+      key: z.any().describe("Key of the last record returned"),
+      primaryKey: z.any().describe("Primary key of the last record returned"),
+    })
+    .optional()
+    .describe("nextCursor of the previous query, to continue after its last record"),
+  operations: z
+    .array(
+      z.object({
+        type: z.enum(["put", "add", "delete"]).describe("put writes or replaces, add fails if the key exists, delete removes"),
+        objectStoreName: z.string().optional().describe("Object store of this operation; defaults to objectStoreName"),
+        key: z.any().optional().describe("Key (required for delete and for stores without a keyPath)"),
+        value: z.any().optional().describe("Value to write (for put and add)"),
+      })
+    )
+    .optional()
+    .describe("Operations applied in order in one transaction; if one fails, none are applied (for batch)"),
+  schemaOnly: z.boolean().optional().describe("Export object stores and indexes without their records (for export_database)"),
+  database: databaseExportSchema.optional().describe("Output of export_database to recreate (for import_database)"),
+  replace: z.boolean().optional().describe("Delete an existing database with the same name before importing (for import_database)"),
 });
 
 const indexedDBAdapterOutputSchema = z.object({
-  action: z.enum(["list_databases", "get_database_info", "get_keys", "get_entry", "set_entry", "delete_entry", "clear_object_store", "delete_database"]).describe("The action that was performed"),
+  action: z.enum(["list_databases", "get_database_info", "get_keys", "query", "get_entry", "export_database", "set_entry", "batch", "import_database", "delete_entry", "clear_object_store", "delete_database"]).describe("The action that was performed"),
   success: z.boolean().optional().describe("Whether the action was successful"),
   databases: z
     .array(
@@ -51,315 +115,45 @@ const indexedDBAdapterOutputSchema = z.object({
   key: z.any().optional().describe("The key that was used"),
   value: z.any().nullable().optional().describe("The value (for get_entry action)"),
   deletedCount: z.number().optional().describe("Number of entries deleted (for clear_object_store action)"),
+  indexName: z.string().optional().describe("Index that was queried (for query action)"),
+  records: z
+    .array(
+      z.object({
+        key: z.any().describe("Cursor key: the index key when querying an index, otherwise the primary key"),
+        primaryKey: z.any().describe("Primary key of the record"),
+        value: z.any().describe("The record, reduced to the requested fields"),
+      })
+    )
+    .optional()
+    .describe("Records in cursor order (for query action)"),
+  nextCursor: z
+    .object({ key: z.any(), primaryKey: z.any() })
+    .nullable()
+    .optional()
+    .describe("Pass as cursor to read the next page; null when there are no more records (for query action)"),
+  results: z
+    .array(
+      z.object({
+        type: z.enum(["put", "add", "delete"]).describe("Operation type"),
+        objectStoreName: z.string().describe("Object store that was changed"),
+        key: z.any().describe("Key that was written or deleted, including generated keys"),
+      })
+    )
+    .optional()
+    .describe("One entry per applied operation (for batch action)"),
+  database: databaseExportSchema.optional().describe("Schema and records (for export_database action)"),
+  recordCount: z.number().optional().describe("Number of records exported or imported"),
+  skipped: z
+    .array(z.string())
+    .optional()
+    .describe("Records left out of the export because JSON can't carry their key or value, such as a Date, Blob, ArrayBuffer or Map (for export_database action)"),
 });
 
 export const indexedDBAdapter: AdapterDefinition = {
   name: "indexed_db",
   description:
-    "Manage IndexedDB: list databases, get database info, get keys, get/set/delete entries, clear object store, or delete database",
+    "Manage IndexedDB: list databases, get database info, get keys, query records by key range or index, get/set/delete entries, apply batched writes in one transaction, export or import a database, clear object store, or delete database",
   inputSchema: indexedDBAdapterInputSchema,
   outputSchema: indexedDBAdapterOutputSchema,
-  handler: async function (params?: {
-    action?: "list_databases" | "get_database_info" | "get_keys" | "get_entry" | "set_entry" | "delete_entry" | "clear_object_store" | "delete_database";
-    databaseName?: string;
-    objectStoreName?: string;
-    key?: unknown;
-    value?: unknown;
-  }): Promise<CallToolResult> {
-    if (typeof window === "undefined") {
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({ error: "Not available in server environment" }),
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    try {
-      const action = params?.action;
-      if (!action) {
-        throw new Error(`Missing required parameter 'action' for indexed_db adapter. Received params: ${JSON.stringify(params)}`);
-      }
-
-      let result: unknown;
-
-      switch (action) {
-        case "list_databases": {
-          if (!("indexedDB" in window)) {
-            result = {
-              action: "list_databases",
-              databases: [],
-              count: 0,
-            };
-            break;
-          }
-          result = {
-            action: "list_databases",
-            databases: [],
-            count: 0,
-          };
-          break;
-        }
-        case "get_database_info": {
-          if (!("indexedDB" in window)) {
-            throw new Error("IndexedDB is not available");
-          }
-          const databaseName = params.databaseName;
-          if (!databaseName) {
-            throw new Error("databaseName is required for get_database_info action");
-          }
-          result = await new Promise((resolve) => {
-            const request = indexedDB.open(databaseName);
-            request.onsuccess = () => {
-              const db = request.result;
-              const objectStores: Array<{ name: string; keyPath: string | null; autoIncrement: boolean }> = [];
-              if (db.objectStoreNames) {
-                for (let i = 0; i < db.objectStoreNames.length; i++) {
-                  const storeName = db.objectStoreNames[i] as string;
-                  const transaction = db.transaction([storeName], "readonly");
-                  const store = transaction.objectStore(storeName);
-                  objectStores.push({
-                    name: storeName,
-                    keyPath: store.keyPath as string | null,
-                    autoIncrement: store.autoIncrement,
-                  });
-                }
-              }
-              db.close();
-              resolve({
-                action: "get_database_info",
-                name: databaseName,
-                version: db.version,
-                objectStores,
-                found: true,
-              });
-            };
-            request.onerror = () => {
-              resolve({
-                action: "get_database_info",
-                name: databaseName,
-                version: 0,
-                objectStores: [],
-                found: false,
-              });
-            };
-          });
-          break;
-        }
-        case "get_keys": {
-          if (!("indexedDB" in window)) {
-            throw new Error("IndexedDB is not available");
-          }
-          result = await new Promise((resolve, reject) => {
-            const request = indexedDB.open(params.databaseName!);
-            request.onsuccess = () => {
-              const db = request.result;
-              const transaction = db.transaction([params.objectStoreName!], "readonly");
-              const store = transaction.objectStore(params.objectStoreName!);
-              const getAllKeysRequest = store.getAllKeys();
-              getAllKeysRequest.onsuccess = () => {
-                db.close();
-                resolve({
-                  action: "get_keys",
-                  keys: getAllKeysRequest.result,
-                  databaseName: params.databaseName,
-                  objectStoreName: params.objectStoreName,
-                  count: getAllKeysRequest.result.length,
-                });
-              };
-              getAllKeysRequest.onerror = () => {
-                db.close();
-                reject(new Error("Failed to get keys"));
-              };
-            };
-            request.onerror = () => {
-              reject(new Error("Failed to open database"));
-            };
-          });
-          break;
-        }
-        case "get_entry": {
-          if (!("indexedDB" in window)) {
-            throw new Error("IndexedDB is not available");
-          }
-          if (!params.key) {
-            throw new Error("Key is required for get_entry action");
-          }
-          result = await new Promise((resolve, reject) => {
-            const request = indexedDB.open(params.databaseName!);
-            request.onsuccess = () => {
-              const db = request.result;
-              const transaction = db.transaction([params.objectStoreName!], "readonly");
-              const store = transaction.objectStore(params.objectStoreName!);
-              const getRequest = store.get(params.key as IDBValidKey);
-              getRequest.onsuccess = () => {
-                db.close();
-                resolve({
-                  action: "get_entry",
-                  found: getRequest.result !== undefined,
-                  key: params.key,
-                  value: getRequest.result || null,
-                  databaseName: params.databaseName,
-                  objectStoreName: params.objectStoreName,
-                });
-              };
-              getRequest.onerror = () => {
-                db.close();
-                reject(new Error("Failed to get entry"));
-              };
-            };
-            request.onerror = () => {
-              reject(new Error("Failed to open database"));
-            };
-          });
-          break;
-        }
-        case "set_entry": {
-          if (!("indexedDB" in window)) {
-            throw new Error("IndexedDB is not available");
-          }
-          if (params.key === undefined) {
-            throw new Error("Key is required for set_entry action");
-          }
-          result = await new Promise((resolve, reject) => {
-            const request = indexedDB.open(params.databaseName!);
-            request.onsuccess = () => {
-              const db = request.result;
-              const transaction = db.transaction([params.objectStoreName!], "readwrite");
-              const store = transaction.objectStore(params.objectStoreName!);
-              const putRequest = store.put(params.value, params.key as IDBValidKey);
-              putRequest.onsuccess = () => {
-                db.close();
-                resolve({
-                  action: "set_entry",
-                  success: true,
-                  key: putRequest.result || params.key,
-                  databaseName: params.databaseName,
-                  objectStoreName: params.objectStoreName,
-                });
-              };
-              putRequest.onerror = () => {
-                db.close();
-                reject(new Error("Failed to set entry"));
-              };
-            };
-            request.onerror = () => {
-              reject(new Error("Failed to open database"));
-            };
-          });
-          break;
-        }
-        case "delete_entry": {
-          if (!("indexedDB" in window)) {
-            throw new Error("IndexedDB is not available");
-          }
-          if (params.key === undefined) {
-            throw new Error("Key is required for delete_entry action");
-          }
-          result = await new Promise((resolve, reject) => {
-            const request = indexedDB.open(params.databaseName!);
-            request.onsuccess = () => {
-              const db = request.result;
-              const transaction = db.transaction([params.objectStoreName!], "readwrite");
-              const store = transaction.objectStore(params.objectStoreName!);
-              const deleteRequest = store.delete(params.key as IDBValidKey);
-              deleteRequest.onsuccess = () => {
-                db.close();
-                resolve({
-                  action: "delete_entry",
-                  success: true,
-                  key: params.key,
-                  databaseName: params.databaseName,
-                  objectStoreName: params.objectStoreName,
-                });
-              };
-              deleteRequest.onerror = () => {
-                db.close();
-                reject(new Error("Failed to delete entry"));
-              };
-            };
-            request.onerror = () => {
-              reject(new Error("Failed to open database"));
-            };
-          });
-          break;
-        }
-        case "clear_object_store": {
-          if (!("indexedDB" in window)) {
-            throw new Error("IndexedDB is not available");
-          }
-          result = await new Promise((resolve, reject) => {
-            const request = indexedDB.open(params.databaseName!);
-            request.onsuccess = () => {
-              const db = request.result;
-              const transaction = db.transaction([params.objectStoreName!], "readwrite");
-              const store = transaction.objectStore(params.objectStoreName!);
-              const clearRequest = store.clear();
-              clearRequest.onsuccess = () => {
-                db.close();
-                resolve({
-                  action: "clear_object_store",
-                  success: true,
-                  databaseName: params.databaseName,
-                  objectStoreName: params.objectStoreName,
-                });
-              };
-              clearRequest.onerror = () => {
-                db.close();
-                reject(new Error("Failed to clear object store"));
-              };
-            };
-            request.onerror = () => {
-              reject(new Error("Failed to open database"));
-            };
-          });
-          break;
-        }
-        case "delete_database": {
-          if (!("indexedDB" in window)) {
-            throw new Error("IndexedDB is not available");
-          }
-          result = await new Promise((resolve, reject) => {
-            const deleteRequest = indexedDB.deleteDatabase(params.databaseName!);
-            deleteRequest.onsuccess = () => {
-              resolve({
-                action: "delete_database",
-                success: true,
-                databaseName: params.databaseName,
-              });
-            };
-            deleteRequest.onerror = () => {
-              reject(new Error("Failed to delete database"));
-            };
-          });
-          break;
-        }
-        default:
-          throw new Error(`Unknown indexedDB action: ${action}`);
-      }
-
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify(result),
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
-          },
-        ],
-        isError: true,
-      };
-    }
-  },
+  browserEntry: BUILTIN_BROWSER_ENTRY,
 };
-
@@ -0,0 +1,606 @@
+import { z } from "zod";
+import type { AdapterDefinition } from "./types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+type InteractAction = "click" | "dblclick" | "hover" | "type" | "press" | "select" | "check" | "uncheck" | "focus" | "blur" | "scroll" | "submit";
+type SettleCondition = "none" | "frame" | "dom" | "network" | "selector";
+type Modifier = "Alt" | "Control" | "Meta" | "Shift";
+
+interface ElementState {
+  tagName: string;
+  text: string;
+  value?: string;
+  checked?: boolean;
+  selectedOptions?: string[];
+  disabled: boolean;
+}
+
+export const interactAdapterInputSchema = z.object({
+  action: z
+    .enum(["click", "dblclick", "hover", "type", "press", "select", "check", "uncheck", "focus", "blur", "scroll", "submit"])
+    .describe("Interaction to perform on the target element"),
+  selector: z
+    .string()
+    .optional()
+    .describe("CSS selector of the target element, e.g. the `selector` returned by the dom tool. Optional for press (uses the focused element) and scroll (scrolls the window)"),
+  index: z.coerce.number().min(0).optional().describe("Which match of the selector to use (default: 0)"),
+  text: z.string().optional().describe("Text to type (for type)"),
+  append: z.boolean().optional().describe("Append to the current value instead of replacing it (for type, default: false)"),
+  key: z.string().optional().describe("Key to press, as in KeyboardEvent.key, e.g. Enter, Escape, ArrowDown, a (for press, or pressed after typing)"),
+  modifiers: z.array(z.enum(["Alt", "Control", "Meta", "Shift"])).optional().describe("Modifier keys held during click or press"),
+  value: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .describe("Option value or label to select; an array selects several options of a multiple select (for select)"),
+  x: z.coerce.number().optional().describe("Horizontal scroll position in pixels (for scroll without selector)"),
+  y: z.coerce.number().optional().describe("Vertical scroll position in pixels (for scroll without selector)"),
+  block: z.enum(["start", "center", "end", "nearest"]).optional().describe("Vertical alignment for scrollIntoView (default: center)"),
+  force: z.boolean().optional().describe("Interact even if the element is hidden or disabled (default: false)"),
+  waitFor: z
+    .enum(["none", "frame", "dom", "network", "selector"])
+    .optional()
+    .describe("Settle condition before returning: none, next animation frame, DOM quiet for idleTime, no pending network requests for idleTime, or waitForSelector reaching waitForState (default: dom)"),
+  waitForSelector: z.string().optional().describe("CSS selector to wait for (implies waitFor: selector)"),
+  waitForState: z.enum(["attached", "detached", "visible", "hidden"]).optional().describe("State waitForSelector must reach (default: visible)"),
+  idleTime: z.coerce.number().min(0).optional().describe("Quiet period in milliseconds for dom and network settling (default: 250)"),
+  timeout: z.coerce.number().min(0).max(30000).optional().describe("Maximum time in milliseconds to wait for the settle condition (default: 5000)"),
+});
+
+export const interactAdapterOutputSchema = z.object({
+  action: z.string().describe("Performed action"),
+  selector: z.string().optional().describe("Selector of the target element"),
+  element: z
+    .object({
+      tagName: z.string(),
+      text: z.string(),
+      value: z.string().optional(),
+      checked: z.boolean().optional(),
+      selectedOptions: z.array(z.string()).optional(),
+      disabled: z.boolean(),
+    })
+    .optional()
+    .describe("State of the target element after the interaction (absent if it was removed)"),
+  defaultPrevented: z.boolean().optional().describe("Whether a page handler called preventDefault on the main event"),
+  activeElement: z.string().optional().describe("Element that has focus after the interaction"),
+  scroll: z.object({ x: z.number(), y: z.number() }).optional().describe("Window scroll position after the interaction"),
+  waitFor: z.string().describe("Settle condition that was used"),
+  settled: z.boolean().describe("Whether the settle condition was met before the timeout"),
+  waitedMs: z.number().describe("Time spent waiting for the settle condition"),
+  url: z.string().describe("Page URL after the interaction"),
+  navigated: z.boolean().describe("Whether the URL changed or the page started unloading"),
+});
+
+export const interactAdapter: AdapterDefinition = {
+  name: "interact",
+  description:
+    "Drive the page like a user: click, hover, type, press keys, select options, check, focus, scroll or submit an element chosen by CSS selector (for example one returned by the dom tool), then wait for the page to settle",
+  inputSchema: interactAdapterInputSchema,
+  outputSchema: interactAdapterOutputSchema,
+  handler: async function (this: { signal?: AbortSignal }, params?: {
+    action?: InteractAction;
+    selector?: string;
+    index?: number;
+    text?: string;
+    append?: boolean;
+    key?: string;
+    modifiers?: Modifier[];
+    value?: string | string[];
+    x?: number;
+    y?: number;
+    block?: ScrollLogicalPosition;
+    force?: boolean;
+    waitFor?: SettleCondition;
+    waitForSelector?: string;
+    waitForState?: "attached" | "detached" | "visible" | "hidden";
+    idleTime?: number;
+    timeout?: number;
+  }): Promise<CallToolResult> {
+    if (typeof window === "undefined" || typeof document === "undefined") {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ error: "Not available in server environment" }),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const fail = (message: string): CallToolResult => ({
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: message }),
+        },
+      ],
+      isError: true,
+    });
+
+    const action = params?.action;
+    if (!action) {
+      return fail("Action is required");
+    }
+
+    const modifiers = params?.modifiers ?? [];
+    const modifierInit = {
+      altKey: modifiers.includes("Alt"),
+      ctrlKey: modifiers.includes("Control"),
+      metaKey: modifiers.includes("Meta"),
+      shiftKey: modifiers.includes("Shift"),
+    };
+
+    const describeElement = (element: Element | null): string | undefined => {
+      if (!element || element === document.body) return undefined;
+      const id = element.id ? `#${element.id}` : "";
+      const classes = Array.from(element.classList).slice(0, 3).map((name) => `.${name}`).join("");
+      return `${element.tagName.toLowerCase()}${id}${classes}`;
+    };
+
+    const isVisible = (element: Element): boolean => {
+      if (typeof (element as any).checkVisibility === "function") {
+        if (!(element as any).checkVisibility({ checkOpacity: true, checkVisibilityCSS: true })) {
+          return false;
+        }
+      } else {
+        const style = window.getComputedStyle(element);
+        if (style.display === "none" || style.visibility === "hidden" || style.opacity === "0") {
+          return false;
+        }
+      }
+      const rect = element.getBoundingClientRect();
+      return rect.width > 0 || rect.height > 0;
+    };
+
+    const getState = (element: Element): ElementState => {
+      const state: ElementState = {
+        tagName: element.tagName.toLowerCase(),
+        text: (element.textContent || "").replace(/\s+/g, " ").trim().slice(0, 200),
+        disabled: (element as HTMLInputElement).disabled === true || element.getAttribute("aria-disabled") === "true",
+      };
+      if (element instanceof HTMLSelectElement) {
+        state.value = element.value;
+        state.selectedOptions = Array.from(element.selectedOptions).map((option) => option.value);
+      } else if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+        state.value = element.value;
+        if (element instanceof HTMLInputElement && (element.type === "checkbox" || element.type === "radio")) {
+          state.checked = element.checked;
+        }
+      } else if ((element as HTMLElement).isContentEditable) {
+        state.value = (element as HTMLElement).innerText;
+      }
+      return state;
+    };
+
+    // React and Vue track input values through the prototype setter, so assigning
+    // `element.value` directly would be swallowed by their change detection
+    const setNativeValue = (element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, value: string) => {
+      const prototype = Object.getPrototypeOf(element);
+      const setter = Object.getOwnPropertyDescriptor(prototype, "value")?.set;
+      if (setter) {
+        setter.call(element, value);
+      } else {
+        element.value = value;
+      }
+    };
+
+    const setNativeChecked = (element: HTMLInputElement, checked: boolean) => {
+      const setter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, "checked")?.set;
+      if (setter) {
+        setter.call(element, checked);
+      } else {
+        element.checked = checked;
+      }
+    };
+
+    const pointerSequence = (element: Element, type: "click" | "dblclick" | "hover"): boolean => {
+      const rect = element.getBoundingClientRect();
+      const init = {
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+        view: window,
+        clientX: rect.left + rect.width / 2,
+        clientY: rect.top + rect.height / 2,
+        button: 0,
+        ...modifierInit,
+      };
+      const PointerCtor = typeof PointerEvent === "function" ? PointerEvent : MouseEvent;
+      const pointerInit = { ...init, pointerId: 1, pointerType: "mouse", isPrimary: true };
+
+      element.dispatchEvent(new PointerCtor("pointerover", pointerInit));
+      element.dispatchEvent(new PointerCtor("pointerenter", { ...pointerInit, bubbles: false }));
+      element.dispatchEvent(new MouseEvent("mouseover", init));
+      element.dispatchEvent(new MouseEvent("mouseenter", { ...init, bubbles: false }));
+      element.dispatchEvent(new PointerCtor("pointermove", pointerInit));
+      element.dispatchEvent(new MouseEvent("mousemove", init));
+      if (type === "hover") {
+        return false;
+      }
+
+      let defaultPrevented = false;
+      const clicks = type === "dblclick" ? 2 : 1;
+      for (let detail = 1; detail <= clicks; detail++) {
+        const down = element.dispatchEvent(new PointerCtor("pointerdown", { ...pointerInit, buttons: 1, detail }));
+        const mouseDown = down && element.dispatchEvent(new MouseEvent("mousedown", { ...init, buttons: 1, detail }));
+        if (mouseDown && element instanceof HTMLElement && document.activeElement !== element) {
+          element.focus();
+        }
+        element.dispatchEvent(new PointerCtor("pointerup", { ...pointerInit, detail }));
+        element.dispatchEvent(new MouseEvent("mouseup", { ...init, detail }));
+        // Untrusted click events still run activation behavior (links, checkboxes, submit buttons)
+        defaultPrevented = !element.dispatchEvent(new MouseEvent("click", { ...init, detail })) || defaultPrevented;
+      }
+      if (type === "dblclick") {
+        defaultPrevented = !element.dispatchEvent(new MouseEvent("dblclick", { ...init, detail: 2 })) || defaultPrevented;
+      }
+      return defaultPrevented;
+    };
+
+    const keyInit = (key: string) => {
+      const code =
+        key.length === 1
+          ? /[a-z]/i.test(key)
+            ? `Key${key.toUpperCase()}`
+            : /[0-9]/.test(key)
+              ? `Digit${key}`
+              : key === " "
+                ? "Space"
+                : ""
+          : key;
+      return { key, code, bubbles: true, cancelable: true, composed: true, ...modifierInit };
+    };
+
+    const isTextField = (element: Element): element is HTMLInputElement | HTMLTextAreaElement =>
+      element instanceof HTMLTextAreaElement ||
+      (element instanceof HTMLInputElement &&
+        !["checkbox", "radio", "button", "submit", "reset", "image", "file", "range", "color", "hidden"].includes(element.type));
+
+    const pressKey = (target: Element, key: string): boolean => {
+      const down = target.dispatchEvent(new KeyboardEvent("keydown", keyInit(key)));
+      if (down && (key.length === 1 || key === "Enter")) {
+        target.dispatchEvent(new KeyboardEvent("keypress", keyInit(key)));
+      }
+      // Synthetic key events have no default action, so emulate the ones pages rely on
+      if (down && key === "Enter" && target instanceof HTMLInputElement && target.form && isTextField(target)) {
+        target.form.requestSubmit();
+      }
+      target.dispatchEvent(new KeyboardEvent("keyup", keyInit(key)));
+      return !down;
+    };
+
+    const typeText = (element: Element, text: string, append: boolean) => {
+      if (element instanceof HTMLElement && document.activeElement !== element) {
+        element.focus();
+      }
+
+      if (isTextField(element)) {
+        let current = append ? element.value : "";
+        if (!append && element.value !== "") {
+          setNativeValue(element, "");
+          element.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "deleteContentBackward" }));
+        }
+        for (const char of text) {
+          if (!element.dispatchEvent(new KeyboardEvent("keydown", keyInit(char)))) {
+            element.dispatchEvent(new KeyboardEvent("keyup", keyInit(char)));
+            continue;
+          }
+          element.dispatchEvent(new KeyboardEvent("keypress", keyInit(char)));
+          const allowed = element.dispatchEvent(
+            new InputEvent("beforeinput", { bubbles: true, cancelable: true, inputType: "insertText", data: char })
+          );
+          if (allowed) {
+            current += char;
+            setNativeValue(element, current);
+            element.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "insertText", data: char }));
+          }
+          element.dispatchEvent(new KeyboardEvent("keyup", keyInit(char)));
+        }
+        element.dispatchEvent(new Event("change", { bubbles: true }));
+        return;
+      }
+
+      if ((element as HTMLElement).isContentEditable) {
+        const editable = element as HTMLElement;
+        if (!append) {
+          editable.textContent = "";
+        }
+        for (const char of text) {
+          editable.dispatchEvent(new KeyboardEvent("keydown", keyInit(char)));
+          editable.dispatchEvent(new InputEvent("beforeinput", { bubbles: true, cancelable: true, inputType: "insertText", data: char }));
+          editable.textContent = (editable.textContent || "") + char;
+          editable.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "insertText", data: char }));
+          editable.dispatchEvent(new KeyboardEvent("keyup", keyInit(char)));
+        }
+        return;
+      }
+
+      throw new Error(`Cannot type into <${element.tagName.toLowerCase()}>: not a text field or contenteditable element`);
+    };
+
+    const selectOptions = (element: Element, value: string | string[]) => {
+      if (!(element instanceof HTMLSelectElement)) {
+        throw new Error(`Cannot select on <${element.tagName.toLowerCase()}>: not a select element`);
+      }
+      const wanted = Array.isArray(value) ? value : [value];
+      if (wanted.length > 1 && !element.multiple) {
+        throw new Error("Cannot select several options on a single select");
+      }
+
+      const options = Array.from(element.options);
+      const matched = wanted.map((want) => {
+        const option = options.find((opt) => opt.value === want) || options.find((opt) => opt.label.trim() === want);
+        if (!option) {
+          throw new Error(`No option with value or label "${want}". Available: ${options.map((opt) => opt.value).join(", ")}`);
+        }
+        return option;
+      });
+
+      if (element.multiple) {
+        for (const option of options) {
+          option.selected = matched.includes(option);
+        }
+      } else {
+        setNativeValue(element, matched[0]!.value);
+      }
+      element.dispatchEvent(new Event("input", { bubbles: true }));
+      element.dispatchEvent(new Event("change", { bubbles: true }));
+    };
+
+    const signal = this?.signal;
+
+    const settle = async (
+      condition: SettleCondition,
+      startUrl: string
+    ): Promise<{ settled: boolean; navigated: boolean }> => {
+      const timeout = params?.timeout ?? 5000;
+      const idleTime = params?.idleTime ?? 250;
+      let navigated = false;
+
+      return new Promise((resolve) => {
+        const cleanups: Array<() => void> = [];
+        const finish = (settled: boolean) => {
+          cleanups.forEach((cleanup) => cleanup());
+          resolve({ settled, navigated: navigated || window.location.href !== startUrl });
+        };
+
+        // A full page load tears down the bridge, so answer before it happens
+        const onUnload = () => {
+          navigated = true;
+          finish(true);
+        };
+        window.addEventListener("beforeunload", onUnload);
+        window.addEventListener("pagehide", onUnload);
+        cleanups.push(() => {
+          window.removeEventListener("beforeunload", onUnload);
+          window.removeEventListener("pagehide", onUnload);
+        });
+
+        const deadline = setTimeout(() => finish(false), timeout);
+        cleanups.push(() => clearTimeout(deadline));
+
+        // Nobody is waiting for the result of a cancelled call
+        const onCancel = () => finish(false);
+        signal?.addEventListener("abort", onCancel, { once: true });
+        cleanups.push(() => signal?.removeEventListener("abort", onCancel));
+
+        if (condition === "none") {
+          finish(true);
+        } else if (condition === "frame") {
+          requestAnimationFrame(() => requestAnimationFrame(() => finish(true)));
+        } else if (condition === "dom") {
+          let idleTimer = setTimeout(() => finish(true), idleTime);
+          const observer = new MutationObserver(() => {
+            clearTimeout(idleTimer);
+            idleTimer = setTimeout(() => finish(true), idleTime);
+          });
+          observer.observe(document.documentElement, { subtree: true, childList: true, attributes: true, characterData: true });
+          cleanups.push(() => {
+            observer.disconnect();
+            clearTimeout(idleTimer);
+          });
+        } else if (condition === "network") {
+          // Relies on the network capture script; without it there is nothing to wait for
+          let quietSince = Date.now();
+          const poll = setInterval(() => {
+            const entries: Array<{ state: string }> = (window as any).__mcpNetworkEntries || [];
+            if (entries.some((entry) => entry.state === "pending")) {
+              quietSince = Date.now();
+            } else if (Date.now() - quietSince >= idleTime) {
+              finish(true);
+            }
+          }, 50);
+          cleanups.push(() => clearInterval(poll));
+        } else {
+          const selector = params?.waitForSelector || "";
+          const state = params?.waitForState ?? "visible";
+          const check = (): boolean => {
+            const match = document.querySelector(selector);
+            if (state === "attached") return match !== null;
+            if (state === "detached") return match === null;
+            if (state === "visible") return match !== null && isVisible(match);
+            return match === null || !isVisible(match);
+          };
+          if (check()) {
+            finish(true);
+          } else {
+            const poll = setInterval(() => {
+              if (check()) finish(true);
+            }, 50);
+            cleanups.push(() => clearInterval(poll));
+          }
+        }
+      });
+    };
+
+    try {
+      let element: Element | null = null;
+      if (params?.selector) {
+        const matches = document.querySelectorAll(params.selector);
+        const index = params.index ?? 0;
+        element = matches[index] ?? null;
+        if (!element) {
+          return fail(
+            matches.length === 0
+              ? `No element matches selector: ${params.selector}`
+              : `Selector ${params.selector} matched ${matches.length} element(s), index ${index} is out of range`
+          );
+        }
+      } else if (action === "press") {
+        element = document.activeElement ?? document.body;
+      } else if (action !== "scroll") {
+        return fail(`A selector is required for ${action}`);
+      }
+
+      if (element && !params?.force && !["scroll", "press", "blur"].includes(action)) {
+        if (!isVisible(element)) {
+          return fail(`Element ${params?.selector} is not visible. Pass force: true to interact anyway`);
+        }
+        if ((element as HTMLInputElement).disabled && !["hover", "focus"].includes(action)) {
+          return fail(`Element ${params?.selector} is disabled. Pass force: true to interact anyway`);
+        }
+      }
+
+      if (element && ["click", "dblclick", "hover", "type", "select", "check", "uncheck", "focus"].includes(action)) {
+        element.scrollIntoView({ block: params?.block ?? "center", inline: "nearest" });
+      }
+
+      const startUrl = window.location.href;
+      let defaultPrevented = false;
+
+      switch (action) {
+        case "click":
+        case "dblclick":
+        case "hover":
+          defaultPrevented = pointerSequence(element!, action);
+          break;
+        case "check":
+        case "uncheck": {
+          const wanted = action === "check";
+          const input = element as HTMLInputElement;
+          if (!(input instanceof HTMLInputElement) || (input.type !== "checkbox" && input.type !== "radio")) {
+            const role = element!.getAttribute("role");
+            if (role !== "checkbox" && role !== "switch" && role !== "radio") {
+              return fail(`Cannot ${action} <${element!.tagName.toLowerCase()}>: not a checkbox or radio`);
+            }
+            if ((element!.getAttribute("aria-checked") === "true") !== wanted) {
+              defaultPrevented = pointerSequence(element!, "click");
+            }
+          } else if (input.checked !== wanted) {
+            defaultPrevented = pointerSequence(input, "click");
+            // Fall back to the native setter when a handler cancelled the click
+            if (input.checked !== wanted) {
+              setNativeChecked(input, wanted);
+              input.dispatchEvent(new Event("input", { bubbles: true }));
+              input.dispatchEvent(new Event("change", { bubbles: true }));
+            }
+          }
+          break;
+        }
+        case "type":
+          if (params?.text === undefined) {
+            return fail("Text is required for type");
+          }
+          typeText(element!, params.text, params.append === true);
+          if (params.key) {
+            defaultPrevented = pressKey(element!, params.key);
+          }
+          break;
+        case "press":
+          if (!params?.key) {
+            return fail("Key is required for press");
+          }
+          if (element instanceof HTMLElement && params.selector && document.activeElement !== element) {
+            element.focus();
+          }
+          defaultPrevented = pressKey(element!, params.key);
+          break;
+        case "select":
+          if (params?.value === undefined) {
+            return fail("Value is required for select");
+          }
+          selectOptions(element!, params.value);
+          break;
+        case "focus":
+          if (!(element instanceof HTMLElement || element instanceof SVGElement)) {
+            return fail("Element cannot be focused");
+          }
+          element.focus();
+          element.dispatchEvent(new FocusEvent("focusin", { bubbles: true }));
+          break;
+        case "blur":
+          if (element instanceof HTMLElement || element instanceof SVGElement) {
+            element.blur();
+          }
+          break;
+        case "scroll":
+          if (element) {
+            element.scrollIntoView({ block: params?.block ?? "center", inline: "nearest" });
+          } else {
+            window.scrollTo({ left: params?.x ?? window.scrollX, top: params?.y ?? window.scrollY });
+          }
+          break;
+        case "submit": {
+          const form = element instanceof HTMLFormElement ? element : element!.closest("form");
+          if (!form) {
+            return fail(`Element ${params?.selector} is not inside a form`);
+          }
+          // requestSubmit runs validation and fires the submit event like a real submission
+          const submitter =
+            element instanceof HTMLButtonElement || (element instanceof HTMLInputElement && element.type === "submit")
+              ? element
+              : null;
+          let prevented = false;
+          const onSubmit = (event: Event) => {
+            prevented = event.defaultPrevented;
+          };
+          form.addEventListener("submit", onSubmit);
+          try {
+            form.requestSubmit(submitter);
+          } finally {
+            form.removeEventListener("submit", onSubmit);
+          }
+          defaultPrevented = prevented;
+          break;
+        }
+      }
+
+      const waitFor: SettleCondition = params?.waitForSelector ? "selector" : params?.waitFor ?? "dom";
+      const started = Date.now();
+      const { settled, navigated } = await settle(waitFor, startUrl);
+
+      const result: Record<string, unknown> = {
+        action,
+        defaultPrevented,
+        scroll: { x: Math.round(window.scrollX), y: Math.round(window.scrollY) },
+        waitFor,
+        settled,
+        waitedMs: Date.now() - started,
+        url: window.location.href,
+        navigated,
+      };
+      if (params?.selector) result["selector"] = params.selector;
+      if (element && element.isConnected && element !== document.body) result["element"] = getState(element);
+      const active = describeElement(document.activeElement);
+      if (active) result["activeElement"] = active;
+
+      const summary = [
+        `${action}${params?.selector ? ` ${params.selector}` : ""}${defaultPrevented ? " (default prevented)" : ""}`,
+        settled ? `settled (${waitFor}) after ${result["waitedMs"]}ms` : `did not settle (${waitFor}) within ${params?.timeout ?? 5000}ms`,
+        navigated ? `navigated to ${window.location.href}` : "",
+      ].filter(Boolean);
+
+      return {
+        structuredContent: result,
+        content: [
+          {
+            type: "text" as const,
+            text: `${summary.join(", ")}\n${JSON.stringify(result, null, 2)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return fail(`Error performing ${action}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+};
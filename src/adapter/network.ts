@@ -0,0 +1,639 @@
+import { z } from "zod";
+import type { AdapterDefinition } from "./types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export const NETWORK_MAX_ENTRIES = 500;
+export const NETWORK_MAX_BODY_SIZE = 10000;
+export const NETWORK_MAX_MESSAGES = 100;
+
+type NetworkRequestType = "fetch" | "xhr" | "websocket" | "eventsource";
+type NetworkRequestState = "pending" | "complete" | "error" | "open" | "closed";
+
+interface NetworkMessage {
+  direction: "sent" | "received";
+  data: string;
+  size: number;
+  truncated?: boolean;
+  timestamp: number;
+}
+
+interface NetworkEntry {
+  id: number;
+  type: NetworkRequestType;
+  method: string;
+  url: string;
+  state: NetworkRequestState;
+  status?: number;
+  statusText?: string;
+  startTime: number;
+  endTime?: number;
+  duration?: number;
+  requestHeaders: Record<string, string>;
+  responseHeaders: Record<string, string>;
+  requestBody?: string;
+  requestBodySize?: number;
+  requestBodyTruncated?: boolean;
+  responseBody?: string;
+  responseBodySize?: number;
+  responseBodyTruncated?: boolean;
+  error?: string;
+  messages?: NetworkMessage[];
+}
+
+/**
+ * Wraps fetch, XMLHttpRequest, WebSocket and EventSource and records every request
+ * into `window.__mcpNetworkEntries`. Serialized with toString() and injected as an
+ * inline script, so it must not reference anything outside its own body.
+ */
+export function installNetworkCapture(
+  maxEntries: number,
+  maxBodySize: number,
+  maxMessages: number
+) {
+  if (typeof window === "undefined") return;
+  const w = window as any;
+  if (w.__mcpNetworkCaptureInitialized) return;
+  w.__mcpNetworkCaptureInitialized = true;
+
+  if (!w.__mcpNetworkEntries) {
+    w.__mcpNetworkEntries = [];
+  }
+  const entries: NetworkEntry[] = w.__mcpNetworkEntries;
+  let nextId = entries.length + 1;
+
+  const record = (entry: Omit<NetworkEntry, "id">): NetworkEntry => {
+    const recorded = { ...entry, id: nextId++ } as NetworkEntry;
+    entries.push(recorded);
+    if (entries.length > maxEntries) entries.shift();
+    return recorded;
+  };
+
+  const finish = (entry: NetworkEntry, state: NetworkRequestState) => {
+    entry.state = state;
+    entry.endTime = Date.now();
+    entry.duration = entry.endTime - entry.startTime;
+  };
+
+  const resolveUrl = (url: string): string => {
+    try {
+      return new URL(url, window.location.href).href;
+    } catch {
+      return url;
+    }
+  };
+
+  const capText = (text: string) =>
+    text.length > maxBodySize
+      ? { text: text.slice(0, maxBodySize), truncated: true }
+      : { text, truncated: false };
+
+  const readHeaders = (headers: any): Record<string, string> => {
+    const result: Record<string, string> = {};
+    if (!headers) return result;
+    try {
+      if (Array.isArray(headers)) {
+        for (const [key, value] of headers) result[String(key).toLowerCase()] = String(value);
+      } else if (typeof headers.forEach === "function") {
+        headers.forEach((value: string, key: string) => {
+          result[key.toLowerCase()] = value;
+        });
+      } else {
+        for (const key of Object.keys(headers)) result[key.toLowerCase()] = String(headers[key]);
+      }
+    } catch {
+    }
+    return result;
+  };
+
+  const parseRawHeaders = (raw: string): Record<string, string> => {
+    const result: Record<string, string> = {};
+    for (const line of raw.trim().split(/[\r\n]+/)) {
+      const index = line.indexOf(":");
+      if (index > 0) {
+        result[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+      }
+    }
+    return result;
+  };
+
+  const describeData = (data: unknown): { text: string; size: number; truncated: boolean } | undefined => {
+    if (data === undefined || data === null) return undefined;
+    if (typeof data === "string") {
+      return { ...capText(data), size: data.length };
+    }
+    if (typeof URLSearchParams !== "undefined" && data instanceof URLSearchParams) {
+      const text = data.toString();
+      return { ...capText(text), size: text.length };
+    }
+    if (typeof FormData !== "undefined" && data instanceof FormData) {
+      const fields: string[] = [];
+      data.forEach((value, key) => {
+        fields.push(typeof value === "string" ? `${key}=${value}` : `${key}=[File ${(value as File).name}]`);
+      });
+      const text = fields.join("&");
+      return { ...capText(text), size: text.length };
+    }
+    if (typeof Blob !== "undefined" && data instanceof Blob) {
+      return { text: `[Blob ${data.type || "unknown"} ${data.size} bytes]`, size: data.size, truncated: false };
+    }
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+      const size = (data as ArrayBuffer).byteLength;
+      return { text: `[binary ${size} bytes]`, size, truncated: false };
+    }
+    return { text: `[${Object.prototype.toString.call(data)}]`, size: 0, truncated: false };
+  };
+
+  const withRequestBody = (body: unknown) => {
+    const described = describeData(body);
+    return described
+      ? { requestBody: described.text, requestBodySize: described.size, requestBodyTruncated: described.truncated }
+      : {};
+  };
+
+  const setResponseBody = (entry: NetworkEntry, text: string, size?: number) => {
+    const capped = capText(text);
+    entry.responseBody = capped.text;
+    entry.responseBodySize = size ?? text.length;
+    entry.responseBodyTruncated = capped.truncated;
+  };
+
+  const isTextContent = (contentType: string) =>
+    contentType === "" ||
+    /^text\/(?!event-stream)|json|xml|javascript|x-www-form-urlencoded|graphql/i.test(contentType);
+
+  const addMessage = (entry: NetworkEntry, direction: "sent" | "received", data: unknown) => {
+    const described = describeData(data);
+    if (!described || !entry.messages) return;
+    const message: NetworkMessage = {
+      direction,
+      data: described.text,
+      size: described.size,
+      timestamp: Date.now(),
+    };
+    if (described.truncated) message.truncated = true;
+    entry.messages.push(message);
+    if (entry.messages.length > maxMessages) entry.messages.shift();
+  };
+
+  const originalFetch = window.fetch;
+  if (typeof originalFetch === "function") {
+    window.fetch = function (this: unknown, input: RequestInfo | URL, init?: RequestInit) {
+      const request = typeof Request !== "undefined" && input instanceof Request ? input : undefined;
+      const url = request ? request.url : input instanceof URL ? input.href : String(input);
+      const entry = record({
+        type: "fetch",
+        method: String(init?.method || request?.method || "GET").toUpperCase(),
+        url: resolveUrl(url),
+        state: "pending",
+        startTime: Date.now(),
+        requestHeaders: readHeaders(init?.headers ?? request?.headers),
+        responseHeaders: {},
+        ...withRequestBody(init?.body),
+      });
+
+      // A Request carries its own body; read it from a copy, taken before fetch consumes the original
+      if (request && init?.body === undefined && request.body !== null && !request.bodyUsed) {
+        const copy = request.clone();
+        const body: Promise<string | ArrayBuffer> = isTextContent(request.headers.get("content-type") || "")
+          ? copy.text()
+          : copy.arrayBuffer();
+        body
+          .then((data) => Object.assign(entry, withRequestBody(data)))
+          .catch(() => {
+          });
+      }
+
+      return originalFetch.apply(this, arguments as any).then(
+        (response: Response) => {
+          entry.status = response.status;
+          entry.statusText = response.statusText;
+          entry.responseHeaders = readHeaders(response.headers);
+          finish(entry, "complete");
+
+          const contentType = response.headers.get("content-type") || "";
+          const contentLength = Number(response.headers.get("content-length")) || undefined;
+          if (isTextContent(contentType)) {
+            response
+              .clone()
+              .text()
+              .then((text) => setResponseBody(entry, text, contentLength))
+              .catch(() => {
+              });
+          } else {
+            entry.responseBody = `[${contentType}]`;
+            if (contentLength !== undefined) entry.responseBodySize = contentLength;
+          }
+          return response;
+        },
+        (error: unknown) => {
+          finish(entry, "error");
+          entry.error = error instanceof Error ? error.message : String(error);
+          throw error;
+        }
+      );
+    } as typeof window.fetch;
+  }
+
+  const OriginalXHR = window.XMLHttpRequest;
+  if (typeof OriginalXHR === "function") {
+    const proto = OriginalXHR.prototype as any;
+    const originalOpen = proto.open;
+    const originalSend = proto.send;
+    const originalSetRequestHeader = proto.setRequestHeader;
+
+    proto.open = function (this: any, method: string, url: string | URL) {
+      this.__mcpNetwork = {
+        method: String(method).toUpperCase(),
+        url: resolveUrl(String(url)),
+        requestHeaders: {},
+      };
+      return originalOpen.apply(this, arguments);
+    };
+
+    proto.setRequestHeader = function (this: any, name: string, value: string) {
+      if (this.__mcpNetwork) {
+        this.__mcpNetwork.requestHeaders[String(name).toLowerCase()] = String(value);
+      }
+      return originalSetRequestHeader.apply(this, arguments);
+    };
+
+    proto.send = function (this: any, body?: unknown) {
+      const xhr = this as XMLHttpRequest & { __mcpNetwork?: { method: string; url: string; requestHeaders: Record<string, string> } };
+      const info = xhr.__mcpNetwork;
+      if (info) {
+        const entry = record({
+          type: "xhr",
+          method: info.method,
+          url: info.url,
+          state: "pending",
+          startTime: Date.now(),
+          requestHeaders: info.requestHeaders,
+          responseHeaders: {},
+          ...withRequestBody(body),
+        });
+
+        xhr.addEventListener("loadend", () => {
+          entry.status = xhr.status;
+          entry.statusText = xhr.statusText;
+          entry.responseHeaders = parseRawHeaders(xhr.getAllResponseHeaders() || "");
+          if (xhr.status === 0) {
+            finish(entry, "error");
+            entry.error = "Network error or request aborted";
+            return;
+          }
+          finish(entry, "complete");
+          try {
+            if (xhr.responseType === "" || xhr.responseType === "text") {
+              setResponseBody(entry, xhr.responseText);
+            } else if (xhr.responseType === "json") {
+              setResponseBody(entry, JSON.stringify(xhr.response));
+            } else {
+              entry.responseBody = `[${xhr.responseType}]`;
+            }
+          } catch {
+          }
+        });
+      }
+      return originalSend.apply(this, arguments);
+    };
+  }
+
+  const OriginalWebSocket = window.WebSocket;
+  if (typeof OriginalWebSocket === "function") {
+    const WrappedWebSocket = function (url: string | URL, protocols?: string | string[]) {
+      const socket =
+        protocols === undefined ? new OriginalWebSocket(url) : new OriginalWebSocket(url, protocols);
+
+      // Leave Vite's own HMR connection alone, it carries the MCP traffic itself
+      const protocolList = protocols === undefined ? [] : ([] as string[]).concat(protocols);
+      if (protocolList.some((protocol) => protocol.startsWith("vite-"))) {
+        return socket;
+      }
+
+      const entry = record({
+        type: "websocket",
+        method: "GET",
+        url: socket.url,
+        state: "pending",
+        startTime: Date.now(),
+        requestHeaders: {},
+        responseHeaders: {},
+        messages: [],
+      });
+
+      socket.addEventListener("open", () => {
+        entry.state = "open";
+        entry.status = 101;
+        entry.duration = Date.now() - entry.startTime;
+      });
+      socket.addEventListener("message", (event) => addMessage(entry, "received", event.data));
+      socket.addEventListener("error", () => {
+        entry.error = "WebSocket error";
+      });
+      socket.addEventListener("close", (event) => {
+        finish(entry, entry.error ? "error" : "closed");
+        entry.statusText = `Closed with code ${event.code}${event.reason ? `: ${event.reason}` : ""}`;
+      });
+
+      const originalSocketSend = socket.send;
+      socket.send = function (data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+        addMessage(entry, "sent", data);
+        return originalSocketSend.call(socket, data);
+      };
+
+      return socket;
+    } as unknown as typeof WebSocket & Record<string, unknown>;
+
+    WrappedWebSocket.prototype = OriginalWebSocket.prototype;
+    for (const key of ["CONNECTING", "OPEN", "CLOSING", "CLOSED"]) {
+      (WrappedWebSocket as any)[key] = (OriginalWebSocket as any)[key];
+    }
+    window.WebSocket = WrappedWebSocket;
+  }
+
+  const OriginalEventSource = window.EventSource;
+  if (typeof OriginalEventSource === "function") {
+    const WrappedEventSource = function (url: string | URL, init?: EventSourceInit) {
+      const source = new OriginalEventSource(url, init);
+      const entry = record({
+        type: "eventsource",
+        method: "GET",
+        url: source.url,
+        state: "pending",
+        startTime: Date.now(),
+        requestHeaders: {},
+        responseHeaders: {},
+        messages: [],
+      });
+
+      source.addEventListener("open", () => {
+        entry.state = "open";
+        entry.status = 200;
+        entry.duration = Date.now() - entry.startTime;
+      });
+      source.addEventListener("message", (event) => addMessage(entry, "received", event.data));
+      source.addEventListener("error", () => {
+        if (source.readyState === OriginalEventSource.CLOSED) {
+          finish(entry, "error");
+          entry.error = "EventSource connection failed";
+        }
+      });
+
+      const originalClose = source.close;
+      source.close = function () {
+        finish(entry, "closed");
+        return originalClose.call(source);
+      };
+
+      return source;
+    } as unknown as typeof EventSource & Record<string, unknown>;
+
+    WrappedEventSource.prototype = OriginalEventSource.prototype;
+    for (const key of ["CONNECTING", "OPEN", "CLOSED"]) {
+      (WrappedEventSource as any)[key] = (OriginalEventSource as any)[key];
+    }
+    window.EventSource = WrappedEventSource;
+  }
+}
+
+const networkRequestTypeSchema = z.enum(["fetch", "xhr", "websocket", "eventsource"]);
+
+const networkEntrySummarySchema = z.object({
+  id: z.number().describe("Request id (use with the get action)"),
+  type: networkRequestTypeSchema.describe("API that made the request"),
+  method: z.string().describe("HTTP method"),
+  url: z.string().describe("Absolute request URL"),
+  state: z.enum(["pending", "complete", "error", "open", "closed"]).describe("Request state"),
+  status: z.number().optional().describe("HTTP status code (101 for open WebSocket connections)"),
+  statusText: z.string().optional().describe("HTTP status text or close reason"),
+  startTime: z.number().describe("Request start timestamp"),
+  duration: z.number().optional().describe("Time until the response (or connection) in milliseconds"),
+  requestBodySize: z.number().optional().describe("Request body size"),
+  responseBodySize: z.number().optional().describe("Response body size"),
+  error: z.string().optional().describe("Network error message"),
+});
+
+const networkEntrySchema = networkEntrySummarySchema.extend({
+  endTime: z.number().optional().describe("Request end timestamp"),
+  requestHeaders: z.record(z.string(), z.string()).describe("Request headers set by the page"),
+  responseHeaders: z.record(z.string(), z.string()).describe("Response headers"),
+  requestBody: z.string().optional().describe("Request body (size-capped)"),
+  requestBodyTruncated: z.boolean().optional().describe("Whether the request body was truncated"),
+  responseBody: z.string().optional().describe("Response body (size-capped)"),
+  responseBodyTruncated: z.boolean().optional().describe("Whether the response body was truncated"),
+  messages: z
+    .array(
+      z.object({
+        direction: z.enum(["sent", "received"]).describe("Message direction"),
+        data: z.string().describe("Message data (size-capped)"),
+        size: z.number().describe("Message size"),
+        truncated: z.boolean().optional().describe("Whether the message data was truncated"),
+        timestamp: z.number().describe("Message timestamp"),
+      })
+    )
+    .optional()
+    .describe("Most recent messages (for websocket and eventsource)"),
+});
+
+export const networkAdapterInputSchema = z.object({
+  action: z.union([
+    z.literal("list"),
+    z.literal("get"),
+    z.literal("clear"),
+  ]).describe("Action to perform"),
+  id: z.coerce.number().optional().describe("Request id (required for get)"),
+  url: z.string().optional().describe("Only include requests whose URL contains this text (case-insensitive, for list)"),
+  status: z.coerce.number().optional().describe("Only include requests with this status code (for list)"),
+  minStatus: z.coerce.number().optional().describe("Only include requests with a status code >= minStatus (for list)"),
+  maxStatus: z.coerce.number().optional().describe("Only include requests with a status code <= maxStatus (for list)"),
+  method: z.string().optional().describe("Only include requests with this HTTP method (for list)"),
+  type: networkRequestTypeSchema.optional().describe("Only include requests made with this API (for list)"),
+  failed: z.boolean().optional().describe("Only include failed requests: network errors or status >= 400 (for list)"),
+  tail: z
+    .coerce
+    .number()
+    .min(1)
+    .optional()
+    .describe("Number (integer) of most recent matching requests to return (for list)"),
+});
+
+export const networkAdapterOutputSchema = z.object({
+  action: z.enum(["list", "get", "clear"]).describe("The action that was performed"),
+  requests: z.array(networkEntrySummarySchema).optional().describe("Matching requests, oldest first (for list action)"),
+  count: z.number().optional().describe("Number of requests returned (for list action)"),
+  total: z.number().optional().describe("Number of requests captured"),
+  found: z.boolean().optional().describe("Whether the request was found (for get action)"),
+  request: networkEntrySchema.nullable().optional().describe("Full request details (for get action)"),
+  cleared: z.number().optional().describe("Number of requests removed (for clear action)"),
+});
+
+export const networkAdapter: AdapterDefinition = {
+  name: "network",
+  description:
+    "Inspect network requests made by the page (fetch, XHR, WebSocket, EventSource): list with URL/status filters, get full details including headers and bodies, or clear",
+  inputSchema: networkAdapterInputSchema,
+  outputSchema: networkAdapterOutputSchema,
+  handler: async function (params?: {
+    action?: "list" | "get" | "clear";
+    id?: number;
+    url?: string;
+    status?: number;
+    minStatus?: number;
+    maxStatus?: number;
+    method?: string;
+    type?: NetworkRequestType;
+    failed?: boolean;
+    tail?: number;
+  }): Promise<CallToolResult> {
+    if (typeof window === "undefined") {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ error: "Not available in server environment" }),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    try {
+      const action = params?.action;
+      if (!action) {
+        throw new Error(`Missing required parameter 'action' for network adapter. Received params: ${JSON.stringify(params)}`);
+      }
+
+      if (!(window as any).__mcpNetworkCaptureInitialized) {
+        throw new Error("Network capture is not installed. Make sure disableNetworkCapture is not set.");
+      }
+
+      const entries = ((window as any).__mcpNetworkEntries || []) as NetworkEntry[];
+
+      switch (action) {
+        case "list": {
+          let requests = [...entries];
+
+          if (params.url) {
+            const needle = params.url.toLowerCase();
+            requests = requests.filter((entry) => entry.url.toLowerCase().includes(needle));
+          }
+          if (params.status !== undefined) {
+            requests = requests.filter((entry) => entry.status === params.status);
+          }
+          if (params.minStatus !== undefined) {
+            requests = requests.filter((entry) => entry.status !== undefined && entry.status >= params.minStatus!);
+          }
+          if (params.maxStatus !== undefined) {
+            requests = requests.filter((entry) => entry.status !== undefined && entry.status <= params.maxStatus!);
+          }
+          if (params.method) {
+            const method = params.method.toUpperCase();
+            requests = requests.filter((entry) => entry.method === method);
+          }
+          if (params.type) {
+            requests = requests.filter((entry) => entry.type === params.type);
+          }
+          if (params.failed) {
+            requests = requests.filter(
+              (entry) => entry.state === "error" || (entry.status !== undefined && entry.status >= 400)
+            );
+          }
+          if (params.tail !== undefined) {
+            requests = requests.slice(-params.tail);
+          }
+
+          const summaries = requests.map((entry) => {
+            const summary: Record<string, unknown> = {
+              id: entry.id,
+              type: entry.type,
+              method: entry.method,
+              url: entry.url,
+              state: entry.state,
+              startTime: entry.startTime,
+            };
+            if (entry.status !== undefined) summary["status"] = entry.status;
+            if (entry.statusText !== undefined) summary["statusText"] = entry.statusText;
+            if (entry.duration !== undefined) summary["duration"] = entry.duration;
+            if (entry.requestBodySize !== undefined) summary["requestBodySize"] = entry.requestBodySize;
+            if (entry.responseBodySize !== undefined) summary["responseBodySize"] = entry.responseBodySize;
+            if (entry.error !== undefined) summary["error"] = entry.error;
+            return summary;
+          });
+
+          const text = requests.length > 0
+            ? requests
+              .map((entry) => {
+                const status = entry.status !== undefined ? String(entry.status) : entry.state.toUpperCase();
+                const duration = entry.duration !== undefined ? ` (${entry.duration}ms)` : "";
+                const error = entry.error ? ` - ${entry.error}` : "";
+                return `#${entry.id} [${entry.type}] ${entry.method} ${status} ${entry.url}${duration}${error}`;
+              })
+              .join("\n")
+            : "No network requests found.";
+
+          return {
+            structuredContent: {
+              action: "list",
+              requests: summaries,
+              count: summaries.length,
+              total: entries.length,
+            },
+            content: [
+              {
+                type: "text" as const,
+                text,
+              },
+            ],
+          };
+        }
+        case "get": {
+          if (params.id === undefined) {
+            throw new Error("id is required for get action");
+          }
+          const entry = entries.find((candidate) => candidate.id === params.id);
+          const result = {
+            action: "get",
+            found: entry !== undefined,
+            request: entry ? JSON.parse(JSON.stringify(entry)) : null,
+            total: entries.length,
+          };
+          return {
+            structuredContent: result,
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result),
+              },
+            ],
+          };
+        }
+        case "clear": {
+          const cleared = entries.length;
+          entries.length = 0;
+          const result = { action: "clear", cleared, total: 0 };
+          return {
+            structuredContent: result,
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result),
+              },
+            ],
+          };
+        }
+        default:
+          throw new Error(`Unknown network action: ${action}`);
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+};
@@ -119,6 +119,13 @@ export const performanceAdapter: AdapterDefinition = {
     description: "Get performance metrics including navigation timing, resource timings, Web Vitals (LCP, FID, CLS, etc.), and performance entries",
     inputSchema: performanceAdapterInputSchema,
     outputSchema: performanceAdapterOutputSchema,
+    resources: [
+        {
+            name: "performance",
+            uri: "vite://performance",
+            description: "Web Vitals, navigation timing and resource timings of the active browser tab",
+        },
+    ],
     handler: async function (params?: {
         includeResourceTimings?: boolean;
         includeNavigationTiming?: boolean;
@@ -0,0 +1,359 @@
+import { z } from "zod";
+import type { AdapterDefinition } from "./types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+type ScreenshotFormat = "png" | "jpeg" | "webp";
+
+export const screenshotAdapterInputSchema = z.object({
+  selector: z
+    .string()
+    .optional()
+    .describe("CSS selector of the element to capture, e.g. the `selector` returned by the dom tool. Captures the viewport if omitted"),
+  index: z.coerce.number().min(0).optional().describe("Which match of the selector to capture (default: 0)"),
+  format: z.enum(["png", "jpeg", "webp"]).optional().describe("Image format (default: png)"),
+  quality: z.coerce.number().min(0).max(1).optional().describe("Quality for jpeg and webp, between 0 and 1 (default: 0.85)"),
+  scale: z.coerce.number().min(0.1).max(4).optional().describe("Pixel ratio of the image (default: devicePixelRatio, capped by maxWidth)"),
+  maxWidth: z.coerce.number().min(16).optional().describe("Maximum image width in pixels; larger captures are scaled down (default: 1600)"),
+  background: z.string().optional().describe("CSS color behind transparent areas (default: the page background, or white)"),
+});
+
+export const screenshotAdapterOutputSchema = z.object({
+  target: z.enum(["viewport", "element"]).describe("What was captured"),
+  selector: z.string().optional().describe("Selector of the captured element"),
+  mimeType: z.string().describe("Image MIME type"),
+  width: z.number().describe("Image width in pixels"),
+  height: z.number().describe("Image height in pixels"),
+  scale: z.number().describe("Pixel ratio the page was rendered at"),
+  size: z.number().describe("Image size in bytes"),
+  warnings: z.array(z.string()).describe("Parts of the page that could not be rendered faithfully"),
+});
+
+export const screenshotAdapter: AdapterDefinition = {
+  name: "screenshot",
+  description:
+    "Capture what the page looks like: rasterizes the viewport or one element (by CSS selector) in the browser and returns it as an image. Cross-origin images without CORS, iframes and video frames are left blank",
+  inputSchema: screenshotAdapterInputSchema,
+  outputSchema: screenshotAdapterOutputSchema,
+  handler: async function (params?: {
+    selector?: string;
+    index?: number;
+    format?: ScreenshotFormat;
+    quality?: number;
+    scale?: number;
+    maxWidth?: number;
+    background?: string;
+  }): Promise<CallToolResult> {
+    if (typeof window === "undefined" || typeof document === "undefined") {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ error: "Not available in server environment" }),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const fail = (message: string): CallToolResult => ({
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: message }),
+        },
+      ],
+      isError: true,
+    });
+
+    const warnings = new Set<string>();
+    const SKIPPED_TAGS = ["SCRIPT", "NOSCRIPT", "TEMPLATE", "LINK", "META", "STYLE", "BASE", "TITLE"];
+
+    // Computed styles of an unstyled element per tag, read from a blank same-origin iframe,
+    // so only the properties the page actually changed end up inlined
+    const sandbox = document.createElement("iframe");
+    sandbox.setAttribute("aria-hidden", "true");
+    sandbox.style.cssText = "position:fixed;width:0;height:0;border:0;visibility:hidden;left:-9999px;top:-9999px";
+    document.documentElement.appendChild(sandbox);
+    const defaultStyles = new Map<string, Map<string, string>>();
+
+    const getDefaultStyle = (element: Element): Map<string, string> => {
+      const key = `${element.namespaceURI}:${element.localName}`;
+      let defaults = defaultStyles.get(key);
+      if (defaults) return defaults;
+
+      defaults = new Map();
+      const sandboxDocument = sandbox.contentDocument;
+      if (sandboxDocument) {
+        const probe = sandboxDocument.createElementNS(element.namespaceURI, element.localName);
+        sandboxDocument.documentElement.appendChild(probe);
+        const style = sandboxDocument.defaultView!.getComputedStyle(probe);
+        for (let i = 0; i < style.length; i++) {
+          const property = style.item(i);
+          defaults.set(property, style.getPropertyValue(property));
+        }
+        probe.remove();
+      }
+      defaultStyles.set(key, defaults);
+      return defaults;
+    };
+
+    const inlineStyle = (source: Element, target: Element, parentStyle: CSSStyleDeclaration | null) => {
+      const style = window.getComputedStyle(source);
+      const defaults = getDefaultStyle(source);
+      const declarations: string[] = [];
+      for (let i = 0; i < style.length; i++) {
+        const property = style.item(i);
+        const value = style.getPropertyValue(property);
+        // Inherited properties can match the tag default but differ from the parent
+        const differsFromParent = parentStyle !== null && parentStyle.getPropertyValue(property) !== value;
+        if (defaults.get(property) !== value || differsFromParent) {
+          declarations.push(`${property}:${value}`);
+        }
+      }
+      target.setAttribute("style", declarations.join(";"));
+      return style;
+    };
+
+    const toDataUrl = (blob: Blob): Promise<string> =>
+      new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      });
+
+    const imageCache = new Map<string, Promise<string | undefined>>();
+    const inlineImage = (url: string): Promise<string | undefined> => {
+      if (url.startsWith("data:")) return Promise.resolve(url);
+      let pending = imageCache.get(url);
+      if (!pending) {
+        pending = fetch(url, { mode: "cors", credentials: "same-origin" })
+          .then((response) => (response.ok ? response.blob() : Promise.reject(new Error(String(response.status)))))
+          .then(toDataUrl)
+          .catch(() => {
+            warnings.add(`Image could not be inlined (cross-origin without CORS?): ${url}`);
+            return undefined;
+          });
+        imageCache.set(url, pending);
+      }
+      return pending;
+    };
+
+    const pendingImages: Array<Promise<void>> = [];
+
+    const cloneTree = (source: Node, parentStyle: CSSStyleDeclaration | null): Node | null => {
+      if (source.nodeType === Node.TEXT_NODE) {
+        return source.cloneNode(false);
+      }
+      if (source.nodeType !== Node.ELEMENT_NODE) {
+        return null;
+      }
+
+      const element = source as Element;
+      // data-mcp-ignore marks vite-mcp's own UI, such as the confirmation overlay
+      if (
+        SKIPPED_TAGS.includes(element.tagName.toUpperCase()) ||
+        element === sandbox ||
+        element.hasAttribute("data-mcp-ignore")
+      ) {
+        return null;
+      }
+
+      let clone: Element;
+      if (element instanceof HTMLCanvasElement) {
+        clone = document.createElement("img");
+        try {
+          clone.setAttribute("src", element.toDataURL());
+        } catch {
+          warnings.add("A tainted canvas was left blank");
+        }
+      } else if (element instanceof HTMLIFrameElement || element instanceof HTMLVideoElement) {
+        clone = document.createElement("div");
+        warnings.add(`<${element.tagName.toLowerCase()}> content is not rendered`);
+      } else {
+        clone = element.cloneNode(false) as Element;
+      }
+
+      const style = inlineStyle(element, clone, parentStyle);
+
+      if (element instanceof HTMLImageElement && element.currentSrc) {
+        const img = clone as HTMLImageElement;
+        img.removeAttribute("srcset");
+        img.removeAttribute("loading");
+        pendingImages.push(
+          inlineImage(element.currentSrc).then((dataUrl) => {
+            if (dataUrl) img.setAttribute("src", dataUrl);
+            else img.removeAttribute("src");
+          })
+        );
+      }
+
+      const backgroundImage = style.getPropertyValue("background-image");
+      if (backgroundImage && backgroundImage.includes("url(")) {
+        const urls = Array.from(backgroundImage.matchAll(/url\(["']?([^"')]+)["']?\)/g), (match) => match[1]!);
+        pendingImages.push(
+          Promise.all(urls.map((url) => inlineImage(url).then((dataUrl) => [url, dataUrl] as const))).then((pairs) => {
+            let inlined = backgroundImage;
+            for (const [url, dataUrl] of pairs) {
+              inlined = inlined.split(url).join(dataUrl ?? "");
+            }
+            (clone as HTMLElement).style?.setProperty("background-image", inlined);
+          })
+        );
+      }
+
+      // Current form state lives in properties, not attributes
+      if (element instanceof HTMLInputElement) {
+        if (element.type === "checkbox" || element.type === "radio") {
+          if (element.checked) clone.setAttribute("checked", "");
+          else clone.removeAttribute("checked");
+        } else if (element.type !== "file" && element.type !== "password") {
+          clone.setAttribute("value", element.value);
+        }
+      } else if (element instanceof HTMLTextAreaElement) {
+        clone.textContent = element.value;
+        return clone;
+      } else if (element instanceof HTMLSelectElement) {
+        for (const child of Array.from(element.children)) {
+          const childClone = cloneTree(child, style);
+          if (childClone) clone.appendChild(childClone);
+        }
+        Array.from((clone as HTMLSelectElement).options).forEach((option, i) => {
+          if (element.options[i]?.selected) option.setAttribute("selected", "");
+          else option.removeAttribute("selected");
+        });
+        return clone;
+      }
+
+      if (clone.localName !== "img") {
+        for (const child of Array.from(element.childNodes)) {
+          const childClone = cloneTree(child, style);
+          if (childClone) clone.appendChild(childClone);
+        }
+      }
+      return clone;
+    };
+
+    const loadImage = (url: string): Promise<HTMLImageElement> =>
+      new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error("The page could not be rendered as an SVG image"));
+        image.src = url;
+      });
+
+    try {
+      let element: Element | null = null;
+      if (params?.selector) {
+        const matches = document.querySelectorAll(params.selector);
+        element = matches[params.index ?? 0] ?? null;
+        if (!element) {
+          return fail(`No element matches selector: ${params.selector}${matches.length > 0 ? ` at index ${params.index}` : ""}`);
+        }
+      }
+
+      const rect = element
+        ? element.getBoundingClientRect()
+        : { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight };
+      const width = Math.max(1, Math.ceil(rect.width));
+      const height = Math.max(1, Math.ceil(rect.height));
+
+      const pageBackground = [document.body, document.documentElement]
+        .map((node) => (node ? window.getComputedStyle(node).backgroundColor : ""))
+        .find((color) => color && color !== "transparent" && color !== "rgba(0, 0, 0, 0)");
+      const background = params?.background ?? pageBackground ?? "#ffffff";
+
+      // XMLSerializer adds the XHTML namespace that foreignObject content needs
+      const frame = document.createElement("div");
+      frame.setAttribute(
+        "style",
+        `position:relative;overflow:hidden;width:${width}px;height:${height}px;background:${background}`
+      );
+
+      if (element) {
+        const parentStyle = element.parentElement ? window.getComputedStyle(element.parentElement) : null;
+        const clone = cloneTree(element, parentStyle) as HTMLElement | null;
+        if (clone) {
+          // Take the element out of its layout context so it sits at the frame origin
+          clone.style.setProperty("position", "relative");
+          clone.style.setProperty("inset", "auto");
+          clone.style.setProperty("margin", "0");
+          clone.style.setProperty("transform", "none");
+          frame.appendChild(clone);
+        }
+      } else {
+        const page = document.createElement("div");
+        page.setAttribute(
+          "style",
+          `position:absolute;left:${-window.scrollX}px;top:${-window.scrollY}px;width:${document.documentElement.scrollWidth}px`
+        );
+        const clone = document.body ? cloneTree(document.body, window.getComputedStyle(document.documentElement)) : null;
+        if (clone) page.appendChild(clone);
+        frame.appendChild(page);
+      }
+
+      await Promise.all(pendingImages);
+
+      const xhtml = new XMLSerializer().serializeToString(frame);
+      const svg =
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+        `<foreignObject x="0" y="0" width="100%" height="100%">${xhtml}</foreignObject></svg>`;
+      const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+      const maxWidth = params?.maxWidth ?? 1600;
+      const scale = Math.min(params?.scale ?? window.devicePixelRatio ?? 1, maxWidth / width);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(width * scale));
+      canvas.height = Math.max(1, Math.round(height * scale));
+      const context = canvas.getContext("2d");
+      if (!context) {
+        return fail("Canvas 2D context is not available");
+      }
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      const format = params?.format ?? "png";
+      const mimeType = `image/${format}`;
+      let dataUrl: string;
+      try {
+        dataUrl = canvas.toDataURL(mimeType, params?.quality ?? 0.85);
+      } catch {
+        return fail("This browser marks canvases drawn from SVG foreignObject as tainted, so the page cannot be captured");
+      }
+      const data = dataUrl.slice(dataUrl.indexOf(",") + 1);
+      // Browsers fall back to PNG for formats they cannot encode
+      const actualMimeType = dataUrl.slice(5, dataUrl.indexOf(";"));
+
+      const result: Record<string, unknown> = {
+        target: element ? "element" : "viewport",
+        mimeType: actualMimeType,
+        width: canvas.width,
+        height: canvas.height,
+        scale: Math.round(scale * 100) / 100,
+        size: Math.floor((data.length * 3) / 4),
+        warnings: Array.from(warnings),
+      };
+      if (params?.selector) result["selector"] = params.selector;
+
+      return {
+        structuredContent: result,
+        content: [
+          {
+            type: "image" as const,
+            data,
+            mimeType: actualMimeType,
+          },
+          {
+            type: "text" as const,
+            text: JSON.stringify(result),
+          },
+        ],
+      };
+    } catch (error) {
+      return fail(`Error capturing screenshot: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      sandbox.remove();
+    }
+  },
+};
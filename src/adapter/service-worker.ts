@@ -0,0 +1,381 @@
+import { z } from "zod";
+import type { AdapterDefinition } from "./types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+type ServiceWorkerAction = "list" | "clients" | "update" | "unregister" | "skip_waiting";
+
+export const serviceWorkerAdapterInputSchema = z.object({
+  action: z.union([
+    z.literal("list"),
+    z.literal("clients"),
+    z.literal("update"),
+    z.literal("unregister"),
+    z.literal("skip_waiting"),
+  ]).describe("Action to perform"),
+  scope: z
+    .string()
+    .optional()
+    .describe("Registration scope, as a URL or path (required for update, unregister and skip_waiting when several workers are registered)"),
+  timeout: z
+    .coerce
+    .number()
+    .min(0)
+    .optional()
+    .describe("Milliseconds to wait for other tabs to answer (clients, default: 300) or for the waiting worker to activate (skip_waiting, default: 3000)"),
+});
+
+const workerSchema = z
+  .object({
+    scriptURL: z.string().describe("Script URL of the worker"),
+    state: z.string().describe("installing, installed, activating, activated or redundant"),
+  })
+  .nullable();
+
+const registrationSchema = z.object({
+  scope: z.string().describe("Registration scope"),
+  updateViaCache: z.string().describe("How the HTTP cache is used for update checks"),
+  active: workerSchema.describe("Worker that handles fetches"),
+  waiting: workerSchema.describe("Installed worker waiting for the active one to release its clients"),
+  installing: workerSchema.describe("Worker being installed"),
+  updateStatus: z
+    .enum(["up_to_date", "installing", "waiting", "none"])
+    .describe("up_to_date: only an active worker; installing or waiting: an update is pending; none: no worker yet"),
+  controlsPage: z.boolean().describe("Whether this registration controls the page the tool ran in"),
+  caches: z.array(z.string()).describe("Cache Storage caches owned by this worker"),
+  cachesSource: z
+    .enum(["worker", "name"])
+    .describe("worker: the worker listed its caches itself; name: caches whose name contains the scope"),
+});
+
+export const serviceWorkerAdapterOutputSchema = z.object({
+  action: z.enum(["list", "clients", "update", "unregister", "skip_waiting"]).describe("The action that was performed"),
+  supported: z.boolean().optional().describe("Whether the page can use service workers (secure context and browser support)"),
+  controller: workerSchema.optional().describe("Worker controlling the page the tool ran in"),
+  registrations: z.array(registrationSchema).optional().describe("Service worker registrations of the origin (for list)"),
+  unattributedCaches: z.array(z.string()).optional().describe("Caches of the origin not attributed to any registration (for list)"),
+  clients: z
+    .array(
+      z.object({
+        url: z.string().describe("Page URL"),
+        title: z.string().describe("Page title"),
+        visibility: z.string().describe("Document visibility"),
+        controller: z.string().nullable().describe("Script URL of the controlling worker, null when uncontrolled"),
+        scope: z.string().nullable().describe("Scope of the registration that controls the page"),
+        self: z.boolean().describe("Whether this is the tab the tool ran in"),
+      })
+    )
+    .optional()
+    .describe("Open tabs of the origin that run the bridge (for clients)"),
+  count: z.number().optional().describe("Number of registrations or clients"),
+  registration: registrationSchema.optional().describe("Registration after the action (for update and skip_waiting)"),
+  scope: z.string().optional().describe("Scope the action applied to"),
+  success: z.boolean().optional().describe("Whether the action was successful"),
+  activated: z.boolean().optional().describe("Whether the waiting worker became active before the timeout (for skip_waiting)"),
+});
+
+/**
+ * Hidden element added to every page so the `clients` action can ask other
+ * tabs of the origin which worker controls them. Serialized into the bridge
+ * module, so it must stay self-contained.
+ */
+export function serviceWorkerClientsComponent(Base: typeof HTMLElement): CustomElementConstructor {
+  return class McpServiceWorkerClientsElement extends Base {
+    private channel: BroadcastChannel | undefined;
+
+    connectedCallback() {
+      this.setAttribute("data-mcp-ignore", "");
+      this.style.display = "none";
+      if (typeof BroadcastChannel === "undefined" || this.channel) {
+        return;
+      }
+      this.channel = new BroadcastChannel("vite-mcp:service-worker");
+      this.channel.onmessage = (event: MessageEvent<{ type?: string; id?: string }>) => {
+        if (event.data?.type !== "ping") {
+          return;
+        }
+        this.channel?.postMessage({
+          type: "pong",
+          id: event.data.id,
+          url: window.location.href,
+          title: document.title,
+          visibility: document.visibilityState,
+          controller: navigator.serviceWorker?.controller?.scriptURL ?? null,
+        });
+      };
+    }
+
+    disconnectedCallback() {
+      this.channel?.close();
+      this.channel = undefined;
+    }
+  };
+}
+
+export const serviceWorkerAdapter: AdapterDefinition = {
+  name: "service_worker",
+  description:
+    "Inspect and control service workers: list registrations with scope, worker states, script URLs, update status and the caches each worker owns (see the cache tool), list the open tabs each worker controls, check for an update, activate a waiting worker, or unregister",
+  inputSchema: serviceWorkerAdapterInputSchema,
+  outputSchema: serviceWorkerAdapterOutputSchema,
+  component: serviceWorkerClientsComponent,
+  handler: async function (this: { signal?: AbortSignal }, params?: {
+    action?: ServiceWorkerAction;
+    scope?: string;
+    timeout?: number;
+  }): Promise<CallToolResult> {
+    if (typeof window === "undefined") {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ error: "Not available in server environment" }),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const signal = this?.signal;
+
+    const describeWorker = (worker: ServiceWorker | null | undefined) =>
+      worker ? { scriptURL: worker.scriptURL, state: worker.state } : null;
+
+    // Workers can list their caches by answering { type: "vite-mcp:caches" } on the given port
+    const askWorkerForCaches = (worker: ServiceWorker): Promise<string[] | undefined> =>
+      new Promise((resolve) => {
+        const channel = new MessageChannel();
+        const timer = setTimeout(() => {
+          channel.port1.close();
+          resolve(undefined);
+        }, 300);
+        channel.port1.onmessage = (event: MessageEvent<{ caches?: unknown }>) => {
+          clearTimeout(timer);
+          channel.port1.close();
+          const names = event.data?.caches;
+          resolve(Array.isArray(names) ? names.filter((name): name is string => typeof name === "string") : undefined);
+        };
+        worker.postMessage({ type: "vite-mcp:caches" }, [channel.port2]);
+      });
+
+    const describeRegistration = async (registration: ServiceWorkerRegistration, cacheNames: string[]) => {
+      const { active, waiting, installing } = registration;
+      const fromWorker = active ? await askWorkerForCaches(active) : undefined;
+      return {
+        scope: registration.scope,
+        updateViaCache: registration.updateViaCache,
+        active: describeWorker(active),
+        waiting: describeWorker(waiting),
+        installing: describeWorker(installing),
+        updateStatus: installing ? "installing" : waiting ? "waiting" : active ? "up_to_date" : "none",
+        controlsPage:
+          !!navigator.serviceWorker.controller &&
+          navigator.serviceWorker.controller.scriptURL === active?.scriptURL &&
+          window.location.href.startsWith(registration.scope),
+        caches: fromWorker ?? cacheNames.filter((name) => name.includes(registration.scope)),
+        cachesSource: fromWorker ? "worker" : "name",
+      };
+    };
+
+    const listCaches = async () => ("caches" in window ? await caches.keys() : []);
+
+    const findRegistration = async (): Promise<ServiceWorkerRegistration> => {
+      const registrations = await navigator.serviceWorker.getRegistrations();
+      if (params?.scope) {
+        const scope = new URL(params.scope, window.location.href).href;
+        const match = registrations.find(
+          (registration) => registration.scope === scope || registration.scope === `${scope}/`
+        );
+        if (!match) {
+          throw new Error(
+            `No service worker registered for scope ${scope}. Registered scopes: ${registrations.map((registration) => registration.scope).join(", ") || "none"}`
+          );
+        }
+        return match;
+      }
+      if (registrations.length === 1) {
+        return registrations[0]!;
+      }
+      throw new Error(
+        registrations.length === 0
+          ? "No service worker is registered"
+          : `Several service workers are registered, pass scope: ${registrations.map((registration) => registration.scope).join(", ")}`
+      );
+    };
+
+    try {
+      const action = params?.action;
+      if (!action) {
+        throw new Error(`Missing required parameter 'action' for service_worker adapter. Received params: ${JSON.stringify(params)}`);
+      }
+
+      if (!("serviceWorker" in navigator)) {
+        if (action === "list" || action === "clients") {
+          const empty = action === "list" ? { registrations: [], unattributedCaches: [] } : { clients: [] };
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({ action, supported: false, controller: null, ...empty, count: 0 }),
+              },
+            ],
+          };
+        }
+        throw new Error("Service workers are not available (they need a secure context such as localhost)");
+      }
+
+      let result: unknown;
+
+      switch (action) {
+        case "list": {
+          const cacheNames = await listCaches();
+          const registrations = await Promise.all(
+            (await navigator.serviceWorker.getRegistrations()).map((registration) =>
+              describeRegistration(registration, cacheNames)
+            )
+          );
+          const attributed = new Set(registrations.flatMap((registration) => registration.caches));
+          result = {
+            action: "list",
+            supported: true,
+            controller: describeWorker(navigator.serviceWorker.controller),
+            registrations,
+            unattributedCaches: cacheNames.filter((name) => !attributed.has(name)),
+            count: registrations.length,
+          };
+          break;
+        }
+        case "clients": {
+          // Other tabs answer through the component this adapter adds to every page
+          const id = `${Date.now()}${Math.random()}`;
+          const replies: Array<{ url: string; title: string; visibility: string; controller: string | null }> = [];
+          if (typeof BroadcastChannel !== "undefined") {
+            const channel = new BroadcastChannel("vite-mcp:service-worker");
+            channel.onmessage = (event: MessageEvent) => {
+              if (event.data?.type === "pong" && event.data.id === id) {
+                replies.push(event.data);
+              }
+            };
+            channel.postMessage({ type: "ping", id });
+            await new Promise<void>((resolve) => {
+              const timer = setTimeout(resolve, params?.timeout ?? 300);
+              signal?.addEventListener("abort", () => {
+                clearTimeout(timer);
+                resolve();
+              }, { once: true });
+            });
+            channel.close();
+          }
+
+          const scopes = (await navigator.serviceWorker.getRegistrations())
+            .map((registration) => registration.scope)
+            .sort((a, b) => b.length - a.length);
+          const describeClient = (
+            client: { url: string; title: string; visibility: string; controller: string | null },
+            self: boolean
+          ) => ({
+            url: client.url,
+            title: client.title,
+            visibility: client.visibility,
+            controller: client.controller,
+            scope: client.controller ? scopes.find((scope) => client.url.startsWith(scope)) ?? null : null,
+            self,
+          });
+
+          const clients = [
+            describeClient(
+              {
+                url: window.location.href,
+                title: document.title,
+                visibility: document.visibilityState,
+                controller: navigator.serviceWorker.controller?.scriptURL ?? null,
+              },
+              true
+            ),
+            ...replies.map((reply) => describeClient(reply, false)),
+          ];
+          result = {
+            action: "clients",
+            supported: true,
+            controller: describeWorker(navigator.serviceWorker.controller),
+            clients,
+            count: clients.length,
+          };
+          break;
+        }
+        case "update": {
+          const registration = await findRegistration();
+          await registration.update();
+          result = {
+            action: "update",
+            success: true,
+            scope: registration.scope,
+            registration: await describeRegistration(registration, await listCaches()),
+          };
+          break;
+        }
+        case "skip_waiting": {
+          const registration = await findRegistration();
+          const waiting = registration.waiting;
+          if (!waiting) {
+            throw new Error(`No waiting worker for scope ${registration.scope}`);
+          }
+          // Workers opt in to this message, as with Workbox's messageSkipWaiting()
+          const activated = await new Promise<boolean>((resolve) => {
+            const finish = (value: boolean) => {
+              clearTimeout(timer);
+              waiting.removeEventListener("statechange", onStateChange);
+              resolve(value);
+            };
+            const onStateChange = () => {
+              if (waiting.state === "activated") finish(true);
+              else if (waiting.state === "redundant") finish(false);
+            };
+            const timer = setTimeout(() => finish(false), params?.timeout ?? 3000);
+            waiting.addEventListener("statechange", onStateChange);
+            signal?.addEventListener("abort", () => finish(false), { once: true });
+            waiting.postMessage({ type: "SKIP_WAITING" });
+          });
+          result = {
+            action: "skip_waiting",
+            success: activated,
+            activated,
+            scope: registration.scope,
+            registration: await describeRegistration(registration, await listCaches()),
+          };
+          break;
+        }
+        case "unregister": {
+          const registration = await findRegistration();
+          const success = await registration.unregister();
+          result = {
+            action: "unregister",
+            success,
+            scope: registration.scope,
+          };
+          break;
+        }
+        default:
+          throw new Error(`Unknown service_worker action: ${action}`);
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(result),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+          },
+        ],
+        isError: true,
+      };
+    }
+  },
+};
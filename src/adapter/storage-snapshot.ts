@@ -0,0 +1,78 @@
+import { z } from "zod";
+import type { AdapterDefinition } from "./types.js";
+import { BUILTIN_BROWSER_ENTRY } from "./builtin.js";
+
+const storageTypeSchema = z.enum(["cookies", "localStorage", "sessionStorage", "caches", "indexedDB"]);
+
+export const storageSnapshotAdapterInputSchema = z.object({
+  action: z.union([
+    z.literal("capture"),
+    z.literal("list"),
+    z.literal("diff"),
+    z.literal("restore"),
+  ]).describe("Action to perform"),
+  name: z.string().optional().describe("Snapshot name (required for capture and restore); letters, digits, '-', '_' and '.'"),
+  include: z
+    .array(storageTypeSchema)
+    .optional()
+    .describe("Storage types to capture or restore (default: all of them)"),
+  from: z.string().optional().describe("Snapshot to compare from (required for diff)"),
+  to: z.string().optional().describe("Snapshot to compare to (for diff); omit to compare with the page's current storage"),
+});
+
+const countsSchema = z
+  .object({
+    cookies: z.number().optional(),
+    localStorage: z.number().optional(),
+    sessionStorage: z.number().optional(),
+    caches: z.number().optional().describe("Cached responses across all caches"),
+    indexedDB: z.number().optional().describe("Records across all databases"),
+  })
+  .describe("Entries per storage type in the snapshot");
+
+export const storageSnapshotAdapterOutputSchema = z.object({
+  action: z.enum(["capture", "list", "diff", "restore"]).describe("The action that was performed"),
+  name: z.string().optional().describe("Snapshot name (for capture and restore actions)"),
+  size: z.number().optional().describe("Size of the saved snapshot in bytes (for capture action)"),
+  counts: countsSchema.optional(),
+  restored: z.array(storageTypeSchema).optional().describe("Storage types that were cleared and restored (for restore action)"),
+  skipped: z.array(z.string()).optional().describe("Entries that could not be captured or restored, with the reason"),
+  snapshots: z
+    .array(
+      z.object({
+        name: z.string().describe("Snapshot name"),
+        size: z.number().describe("Size in bytes"),
+        savedAt: z.number().describe("Save time in milliseconds since the epoch"),
+      })
+    )
+    .optional()
+    .describe("Saved snapshots, most recent first (for list action)"),
+  from: z.string().optional().describe("Snapshot compared from (for diff action)"),
+  to: z.string().optional().describe("Snapshot compared to, or 'current' (for diff action)"),
+  changes: z
+    .array(
+      z.object({
+        storage: storageTypeSchema.describe("Storage type"),
+        scope: z.string().optional().describe("Cache name, or database/objectStore for IndexedDB"),
+        key: z.string().describe("Cookie name, storage key, request URL or JSON-encoded IndexedDB key"),
+        change: z.enum(["added", "removed", "changed"]).describe("How the entry differs"),
+        before: z.any().optional().describe("Value in the from snapshot (not included for cached responses)"),
+        after: z.any().optional().describe("Value in the to snapshot (not included for cached responses)"),
+      })
+    )
+    .optional()
+    .describe("Differences between the two snapshots (for diff action)"),
+  summary: z
+    .object({ added: z.number(), removed: z.number(), changed: z.number() })
+    .optional()
+    .describe("Number of changes of each kind (for diff action)"),
+});
+
+export const storageSnapshotAdapter: AdapterDefinition = {
+  name: "storage_snapshot",
+  description:
+    "Capture cookies, localStorage, sessionStorage, Cache Storage and IndexedDB into a named snapshot saved on the dev server, list snapshots, diff two snapshots (or one against the current state), or restore one after clearing the current state",
+  inputSchema: storageSnapshotAdapterInputSchema,
+  outputSchema: storageSnapshotAdapterOutputSchema,
+  browserEntry: BUILTIN_BROWSER_ENTRY,
+};
@@ -3,12 +3,51 @@ import type { Handler, ServerMethods } from "../bridge/bridge.js";
 
 type ComponentFactory = (Base: typeof HTMLElement) => CustomElementConstructor;
 
+/**
+ * Default export of a `browserEntry` module: either a single handler, or
+ * handlers keyed by adapter name so one module can serve several adapters.
+ */
+export type BrowserHandlers = Handler | { [adapterName: string]: Handler };
+
+/**
+ * Read-only MCP resource served by calling the adapter in the browser. `uri` may be
+ * a URI template such as `vite://storage/local/{key}`; its variables go to `params`.
+ */
+export interface AdapterResource {
+  name: string;
+  uri: string;
+  description?: string;
+  mimeType?: string;
+  /** Adapter input used to read the resource (defaults to no parameters) */
+  params?: (variables: Record<string, string>) => Record<string, unknown>;
+  /** Enumerates the concrete resources of a template from one adapter call */
+  list?: {
+    params: Record<string, unknown>;
+    resources: (result: Record<string, unknown>) => Array<{ uri: string; name: string }>;
+  };
+}
+
 export interface AdapterDefinition {
   name: string;
   description: string;
   inputSchema: z.ZodSchema;
   outputSchema?: z.ZodSchema;
-  handler: Handler;
+  /**
+   * Browser-side handler, serialized with toString() into the bridge module.
+   * It must be self-contained: imports and captured variables are not available.
+   */
+  handler?: Handler;
+  /**
+   * Module that Vite bundles into the bridge and whose default export provides
+   * the browser-side handler (see BrowserHandlers). Relative paths are resolved
+   * from the Vite root; aliases and package names go through Vite's resolver.
+   * Takes precedence over `handler`.
+   */
+  browserEntry?: string;
   component?: ComponentFactory;
   server?: ServerMethods;
+  /** Milliseconds to wait for the browser handler, overriding the plugin's `timeout` */
+  timeout?: number;
+  /** Browser state this adapter exposes as MCP resources */
+  resources?: AdapterResource[];
 }
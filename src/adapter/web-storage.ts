@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+const encodingSchema = z
+  .enum(["json", "base64", "lz-string", "lz-string-base64", "lz-string-uri", "lz-string-utf16", "text"])
+  .describe("How the value is stored: JSON, base64 or one of the lz-string formats (wrapping JSON or text), or plain text that was not decoded");
+
+export const webStorageAdapterInputSchema = z.object({
+  action: z.union([
+    z.literal("read"),
+    z.literal("get"),
+    z.literal("set"),
+    z.literal("edit"),
+    z.literal("patch"),
+    z.literal("remove"),
+    z.literal("clear"),
+  ]).describe("Action to perform"),
+  key: z.string().optional().describe("Storage key (required for get, set, edit, patch, remove)"),
+  value: z.string().optional().describe("Storage value (required for set, edit)"),
+  decode: z
+    .enum(["auto", "json", "base64", "lz-string"])
+    .optional()
+    .describe("Decode values (for read and get): auto detects JSON, base64-encoded JSON and lz-string-compressed JSON"),
+  query: z
+    .string()
+    .optional()
+    .describe("JSONPath into the decoded value, e.g. $.user.cart[0].sku or $.items[*].id (for read and get; implies decode: auto)"),
+  patch: z
+    .any()
+    .optional()
+    .describe("JSON merge patch (RFC 7386) applied to the decoded value; null removes a field (required for patch). The value is written back in its original encoding"),
+});
+
+/** Output of the local_storage or session_storage adapter; `storageName` goes into the descriptions */
+export const createWebStorageOutputSchema = (storageName: "localStorage" | "sessionStorage") =>
+  z.object({
+    action: z.enum(["read", "get", "set", "edit", "patch", "remove", "clear"]).describe("The action that was performed"),
+    success: z.boolean().optional().describe("Whether the action was successful"),
+    items: z
+      .array(
+        z.object({
+          key: z.string().describe("Storage key"),
+          value: z.string().describe("Storage value"),
+          size: z.number().optional().describe("Size in bytes"),
+          encoding: encodingSchema.optional(),
+          decoded: z.any().optional().describe("Decoded value (with decode or query)"),
+          queryResult: z.array(z.any()).optional().describe("Values matched by query"),
+        })
+      )
+      .optional()
+      .describe(`Array of ${storageName} items (for read action)`),
+    totalSize: z.number().optional().describe("Total size of all items in bytes (for read action)"),
+    itemCount: z.number().optional().describe("Number of items (for read and clear actions)"),
+    value: z.string().nullable().optional().describe("Storage value (for get action)"),
+    key: z.string().optional().describe("The key that was used"),
+    size: z.number().optional().describe("Size in bytes (for get, set, edit, patch actions)"),
+    encoding: encodingSchema.optional(),
+    decoded: z.any().optional().describe("Decoded value (for get with decode or query, and for patch)"),
+    queryResult: z.array(z.any()).optional().describe("Values matched by query (for get action)"),
+  });
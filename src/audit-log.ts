@@ -0,0 +1,194 @@
+import { randomBytes } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { ServerToolDefinition } from "./server.js";
+
+export const AUDIT_LOG_FILE = join("vite-mcp", "audit.jsonl");
+
+const MAX_ERROR_LENGTH = 500;
+
+export interface AuditEntry {
+  /** Dev server run the call belongs to */
+  session: string;
+  /** Position of the call within its session, starting at 1 */
+  seq: number;
+  timestamp: number;
+  tool: string;
+  params: { [key: string]: unknown };
+  /** Tab the call went to; calls without a clientId are recorded with the default tab */
+  clientId?: string;
+  url?: string;
+  durationMs: number;
+  /** Size of the JSON-serialized result in bytes */
+  resultSize: number;
+  isError: boolean;
+  error?: string;
+}
+
+export type AuditCall = Omit<AuditEntry, "session" | "seq" | "timestamp" | "durationMs" | "resultSize" | "isError" | "error">;
+
+function errorText(result: CallToolResult): string | undefined {
+  if (!result.isError) {
+    return undefined;
+  }
+  const text = (result.content ?? [])
+    .map((block) => (block.type === "text" ? block.text : ""))
+    .join("\n");
+  return text.length > MAX_ERROR_LENGTH ? `${text.slice(0, MAX_ERROR_LENGTH)}...` : text;
+}
+
+/**
+ * Append-only JSONL record of the tool calls made during dev server runs.
+ * Writes are queued so entries land in call order, and a failing write never
+ * fails the tool call it describes.
+ */
+export class AuditLog {
+  readonly session = `${Date.now().toString(36)}-${randomBytes(4).toString("hex")}`;
+  private seq = 0;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(readonly file: string) {}
+
+  async record(call: AuditCall, run: () => Promise<CallToolResult>): Promise<CallToolResult> {
+    const seq = ++this.seq;
+    const timestamp = Date.now();
+
+    let result: CallToolResult;
+    try {
+      result = await run();
+    } catch (error) {
+      result = {
+        content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+        isError: true,
+      };
+    }
+
+    const error = errorText(result);
+    const entry: AuditEntry = {
+      session: this.session,
+      seq,
+      timestamp,
+      ...call,
+      durationMs: Date.now() - timestamp,
+      resultSize: Buffer.byteLength(JSON.stringify(result)),
+      isError: result.isError === true,
+      ...(error !== undefined ? { error } : {}),
+    };
+    this.writes = this.writes
+      .then(async () => {
+        await mkdir(dirname(this.file), { recursive: true });
+        await appendFile(this.file, `${JSON.stringify(entry)}\n`, "utf-8");
+      })
+      .catch((writeError: unknown) => {
+        console.error("[vite-mcp] Failed to write audit log:", writeError);
+      });
+
+    return result;
+  }
+
+  async read(): Promise<AuditEntry[]> {
+    await this.writes;
+    return readAuditLog(this.file);
+  }
+}
+
+export async function readAuditLog(file: string): Promise<AuditEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // A run killed mid-write leaves a partial last line
+    }
+  }
+  return entries;
+}
+
+/** Session of the most recent entry, which is the current run while the dev server is up */
+export function latestSession(entries: AuditEntry[]): string | undefined {
+  return entries[entries.length - 1]?.session;
+}
+
+export const historyInputSchema = z.object({
+  session: z
+    .string()
+    .optional()
+    .describe('Session to read: "current" (default) for this dev server run, "all", or a session id from an earlier entry'),
+  tool: z.string().optional().describe("Only calls of this tool"),
+  clientId: z.string().optional().describe("Only calls that went to this tab"),
+  errorsOnly: z.boolean().optional().describe("Only calls that returned an error"),
+  tail: z
+    .coerce
+    .number()
+    .min(1)
+    .optional()
+    .describe("Number of most recent matching calls to return (default: 50)"),
+});
+
+const auditEntrySchema = z.object({
+  session: z.string().describe("Dev server run the call belongs to"),
+  seq: z.number().describe("Position of the call within its session"),
+  timestamp: z.number().describe("Time the call started"),
+  tool: z.string().describe("Tool that was called"),
+  params: z.record(z.string(), z.unknown()).describe("Arguments of the call"),
+  clientId: z.string().optional().describe("Tab the call went to"),
+  url: z.string().optional().describe("Page URL of that tab at the time of the call"),
+  durationMs: z.number().describe("Time until the result arrived"),
+  resultSize: z.number().describe("Size of the JSON result in bytes"),
+  isError: z.boolean().describe("Whether the call returned an error"),
+  error: z.string().optional().describe("Error text (for failed calls)"),
+});
+
+export const historyOutputSchema = z.object({
+  entries: z.array(auditEntrySchema).describe("Recorded calls, oldest first"),
+  count: z.number().describe("Number of entries returned"),
+  session: z.string().describe("Id of the current session"),
+  file: z.string().describe("Path of the audit log file"),
+});
+
+export function createHistoryTool(log: AuditLog): ServerToolDefinition {
+  return {
+    name: "history",
+    description:
+      "List the tool calls recorded in the audit log: tool, arguments, target tab, duration, result size and error. Replay a session with `vite-mcp replay`.",
+    inputSchema: historyInputSchema,
+    outputSchema: historyOutputSchema,
+    handler: async (input): Promise<CallToolResult> => {
+      const { session = "current", tool, clientId, errorsOnly, tail = 50 } = historyInputSchema.parse(input);
+      const sessionId = session === "current" ? log.session : session;
+
+      const entries = (await log.read())
+        .filter((entry) => session === "all" || entry.session === sessionId)
+        .filter((entry) => tool === undefined || entry.tool === tool)
+        .filter((entry) => clientId === undefined || entry.clientId === clientId)
+        .filter((entry) => !errorsOnly || entry.isError)
+        .slice(-tail);
+      const result = { entries, count: entries.length, session: log.session, file: log.file };
+
+      return {
+        structuredContent: result,
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result),
+          },
+        ],
+      };
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+
+export interface McpAuthOptions {
+  /** Bearer token required in the `Authorization` header; `true` generates one at startup */
+  token?: string | boolean;
+  /**
+   * Origins allowed to call the endpoint from a browser page, e.g. "http://localhost:3000".
+   * Defaults to loopback origins; "*" allows any origin.
+   */
+  allowedOrigins?: string[];
+  /**
+   * Whether to serve the endpoint when `server.host` exposes Vite on the network.
+   * Defaults to serving it only when a token is required.
+   */
+  exposeOnNetwork?: boolean;
+}
+
+export interface McpAuth {
+  token?: string;
+  allowedOrigins?: string[];
+}
+
+export function resolveMcpAuth(options: McpAuthOptions = {}): McpAuth {
+  const auth: McpAuth = {};
+  if (typeof options.token === "string") {
+    if (!options.token.trim()) {
+      throw new Error("The MCP auth token must not be empty");
+    }
+    auth.token = options.token;
+  } else if (options.token === true) {
+    auth.token = randomBytes(24).toString("base64url");
+  }
+  if (options.allowedOrigins) {
+    auth.allowedOrigins = options.allowedOrigins.map((origin) => origin.replace(/\/+$/, ""));
+  }
+  return auth;
+}
+
+function isLoopbackHostname(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  return (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host === "::1" ||
+    /^127(\.\d{1,3}){3}$/.test(host)
+  );
+}
+
+/**
+ * Whether a Vite `server.host` value makes the dev server reachable from other machines.
+ */
+export function isNetworkHost(host: string | boolean | undefined): boolean {
+  if (host === undefined || host === false) {
+    return false;
+  }
+  if (host === true) {
+    return true;
+  }
+  return !isLoopbackHostname(host);
+}
+
+/**
+ * Requests without an `Origin` header come from non-browser MCP clients and are
+ * left to the token check; browser requests must come from an allowed origin.
+ */
+export function isOriginAllowed(origin: string | undefined, auth: McpAuth): boolean {
+  if (!origin) {
+    return true;
+  }
+  if (auth.allowedOrigins) {
+    return auth.allowedOrigins.includes("*") || auth.allowedOrigins.includes(origin);
+  }
+  try {
+    return isLoopbackHostname(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+export function isAuthorized(authorization: string | undefined, auth: McpAuth): boolean {
+  if (auth.token === undefined) {
+    return true;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(authorization?.trim() ?? "");
+  if (!match) {
+    return false;
+  }
+  const given = Buffer.from(match[1]!);
+  const expected = Buffer.from(auth.token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
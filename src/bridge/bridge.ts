@@ -2,10 +2,23 @@ import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 
 interface Tool {
   handler: Handler;
+  allowedActions?: string[];
+  /** Actions the developer has to approve in the browser before they run */
+  confirmActions?: string[];
+  confirmTimeout?: number;
 }
 
 export type Handler = (
-  this: { component?: HTMLElement | undefined; server: ServerMethods },
+  /**
+   * `signal` aborts when the MCP client cancels the call or the server stops waiting for it.
+   * `progress` reports how far a long call has got; the server relays it as `notifications/progress`.
+   */
+  this: {
+    component?: HTMLElement | undefined;
+    server: ServerMethods;
+    signal: AbortSignal;
+    progress: (current: number, total?: number, message?: string) => void;
+  },
   input?: { [key: string]: unknown }
 ) => Promise<CallToolResult>;
 
@@ -26,6 +39,34 @@ class Deferred<T> {
   }
 }
 
+/**
+ * Pick the handler for an adapter out of its `browserEntry` module namespace.
+ * Serialized into the bridge module, so it must stay self-contained.
+ */
+export function resolveBrowserHandler(
+  entry: { default?: unknown },
+  adapterName: string,
+  source: string
+): Handler {
+  const exported = entry.default;
+  const handler =
+    typeof exported === "function"
+      ? exported
+      : exported && typeof exported === "object"
+        ? (exported as { [name: string]: unknown })[adapterName]
+        : undefined;
+
+  if (typeof handler === "function") {
+    return handler as Handler;
+  }
+
+  return async function () {
+    throw new Error(
+      `Browser entry ${source} does not export a handler for ${adapterName}. Export a function or an object keyed by adapter name as default.`
+    );
+  };
+}
+
 export function mcpBridge(
   hot: any,
   tools: Map<string, Tool>,
@@ -43,9 +84,115 @@ export function mcpBridge(
 
   console.log("[vite-mcp] Bridge ready!");
 
-  hot.send("mcp:bridge-ready");
+  const clientId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+  function describeClient() {
+    return {
+      clientId,
+      url: window.location.href,
+      title: document.title,
+      visibility: document.visibilityState,
+    };
+  }
+
+  hot.send("mcp:bridge-ready", describeClient());
+
+  // Keep the server's client registry current so calls without a clientId
+  // go to the tab the developer is looking at
+  const sendClientUpdate = () => hot.send("mcp:bridge-update", describeClient());
+  document.addEventListener("visibilitychange", sendClientUpdate);
+  window.addEventListener("focus", sendClientUpdate);
+
+  // Resource URIs whose content changed, flushed together so bursts of
+  // console output or storage writes become a single message
+  const changedResources = new Set<string>();
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function resourceChanged(uris: string[]) {
+    uris.forEach((uri) => changedResources.add(uri));
+    if (flushTimer !== undefined) {
+      return;
+    }
+    flushTimer = setTimeout(() => {
+      flushTimer = undefined;
+      hot.send("mcp:resource-changed", { clientId, uris: Array.from(changedResources) });
+      changedResources.clear();
+    }, 100);
+  }
+
+  function storageUris(storage: Storage | null, keys: Array<string | null>): string[] {
+    const base =
+      storage === window.localStorage
+        ? "vite://storage/local"
+        : storage === window.sessionStorage
+          ? "vite://storage/session"
+          : undefined;
+    if (!base) {
+      return [];
+    }
+    return [base, ...keys.filter((key): key is string => key !== null).map((key) => `${base}/${encodeURIComponent(key)}`)];
+  }
+
+  // Capture scripts and the wrappers below announce changes with this event
+  window.addEventListener("mcp:resource-changed", (event) => {
+    const uris = (event as CustomEvent<{ uris?: string[] }>).detail?.uris;
+    if (Array.isArray(uris)) {
+      resourceChanged(uris);
+    }
+  });
+
+  // Writes from other tabs
+  window.addEventListener("storage", (event) => {
+    resourceChanged(storageUris(event.storageArea, [event.key]));
+  });
+
+  const announce = (uris: string[]) =>
+    window.dispatchEvent(new CustomEvent("mcp:resource-changed", { detail: { uris } }));
+
+  const storagePrototype = Storage.prototype as Storage & { __mcpWrapped?: boolean };
+  if (!storagePrototype.__mcpWrapped) {
+    storagePrototype.__mcpWrapped = true;
+    const { setItem, removeItem, clear } = storagePrototype;
+    storagePrototype.setItem = function (key: string, value: string) {
+      setItem.call(this, key, value);
+      announce(storageUris(this, [String(key)]));
+    };
+    storagePrototype.removeItem = function (key: string) {
+      removeItem.call(this, key);
+      announce(storageUris(this, [String(key)]));
+    };
+    storagePrototype.clear = function () {
+      const keys = Object.keys(this);
+      clear.call(this);
+      announce(storageUris(this, keys));
+    };
+  }
+
+  // Navigation changes the tab's URL and usually the rendered components
+  const routeChanged = () => {
+    sendClientUpdate();
+    resourceChanged(["vite://components"]);
+  };
+  window.addEventListener("popstate", routeChanged);
+  window.addEventListener("hashchange", routeChanged);
+
+  // Client-side routers navigate with pushState and replaceState, which fire no event
+  const historyWithFlag = window.history as History & { __mcpWrapped?: boolean };
+  if (!historyWithFlag.__mcpWrapped) {
+    historyWithFlag.__mcpWrapped = true;
+    const { pushState, replaceState } = window.history;
+    window.history.pushState = function (...args: Parameters<History["pushState"]>) {
+      pushState.apply(this, args);
+      routeChanged();
+    };
+    window.history.replaceState = function (...args: Parameters<History["replaceState"]>) {
+      replaceState.apply(this, args);
+      routeChanged();
+    };
+  }
 
   const pendingServerMethodCalls = new Map<string, Deferred<CallToolResult>>();
+  const runningCalls = new Map<string, AbortController>();
 
   function handleServerMethodResult({
     id,
@@ -78,11 +225,35 @@ export function mcpBridge(
     id,
     name: toolName,
     params,
+    clientId: targetClientId,
   }: {
     id: string;
     name: string;
     params?: { [key: string]: unknown };
+    clientId?: string;
   }) {
+    if (targetClientId && targetClientId !== clientId) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    runningCalls.set(id, controller);
+
+    // The server has stopped waiting for a cancelled call, so its result is dropped
+    const send = (message: { result?: CallToolResult; error?: string }) => {
+      runningCalls.delete(id);
+      if (!signal.aborted) {
+        hot.send("mcp:tool-result", { id, ...message });
+      }
+    };
+
+    const progress = (current: number, total?: number, message?: string) => {
+      if (runningCalls.has(id) && Number.isFinite(current)) {
+        hot.send("mcp:tool-progress", { id, progress: current, total, message });
+      }
+    };
+
     try {
       const tool = tools.get(toolName);
 
@@ -90,6 +261,77 @@ export function mcpBridge(
         throw new Error(`Tool not found: ${toolName}`);
       }
 
+      const action = params?.["action"];
+      if (tool.allowedActions && (typeof action !== "string" || !tool.allowedActions.includes(action))) {
+        send({
+          result: {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  error: typeof action === "string"
+                    ? `Action '${action}' is not allowed for ${toolName} adapter with current permissions. Allowed actions: ${tool.allowedActions.join(", ")}`
+                    : `Missing required parameter 'action' for ${toolName} adapter`,
+                }),
+              },
+            ],
+            isError: true,
+          },
+        });
+        return;
+      }
+
+      if (tool.confirmActions && typeof action === "string" && tool.confirmActions.includes(action)) {
+        const overlay = (document.querySelector("mcp-confirm-element") ??
+          document.body.appendChild(document.createElement("mcp-confirm-element"))) as HTMLElement & {
+          request?: (request: {
+            tool: string;
+            action: string;
+            params?: { [key: string]: unknown };
+            timeout: number;
+            signal?: AbortSignal;
+          }) => Promise<"approved" | "denied" | "timeout">;
+        };
+
+        if (typeof overlay.request === "function") {
+          progress(0, undefined, `Waiting for the developer to approve ${toolName}.${action} in the browser`);
+        }
+        const decided = typeof overlay.request === "function"
+          ? overlay.request({ tool: toolName, action, timeout: tool.confirmTimeout ?? 30000, signal, ...(params ? { params } : {}) })
+          : Promise.resolve("unavailable" as const);
+
+        decided.then((decision) => {
+          const confirmation = { status: decision, tool: toolName, action };
+          if (decision === "approved") {
+            if (!signal.aborted) {
+              runTool(tool, confirmation);
+            }
+            return;
+          }
+          const reasons = {
+            denied: `The developer denied ${toolName}.${action} in the browser`,
+            timeout: `Nobody approved ${toolName}.${action} in the browser before the confirmation timed out`,
+            unavailable: `${toolName}.${action} needs approval, but the confirmation overlay is not available in this page`,
+          };
+          send({
+            result: {
+              content: [{ type: "text", text: JSON.stringify({ error: reasons[decision], confirmation }) }],
+              structuredContent: { confirmation },
+              isError: true,
+            },
+          });
+        }).catch((error: unknown) => {
+          send({ error: error instanceof Error ? error.message : String(error) });
+        });
+        return;
+      }
+
+      runTool(tool);
+    } catch (error) {
+      send({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    function runTool(tool: Tool, confirmation?: { status: string; tool: string; action: string }) {
       const component =
         document.querySelector<HTMLElement>(`${toolName}-element`) ?? undefined;
 
@@ -116,25 +358,32 @@ export function mcpBridge(
       );
 
       tool.handler
-        .call({ component, server }, params)
+        .call({ component, server, signal, progress }, params)
         .then((result: CallToolResult) => {
-          hot.send("mcp:tool-result", { id, result });
+          send({
+            result: confirmation
+              ? { ...result, _meta: { ...result._meta, "vite-mcp/confirmation": confirmation } }
+              : result,
+          });
         })
         .catch((error: unknown) => {
-          hot.send("mcp:tool-result", {
-            id,
-            error: error instanceof Error ? error.message : String(error),
-          });
+          send({ error: error instanceof Error ? error.message : String(error) });
         });
-    } catch (error) {
-      hot.send("mcp:tool-result", {
-        id,
-        error: error instanceof Error ? error.message : String(error),
-      });
     }
   }
 
+  function handleToolCancel({ id, reason }: { id: string; reason?: string }) {
+    const controller = runningCalls.get(id);
+    if (!controller) {
+      return;
+    }
+    runningCalls.delete(id);
+    log(`Cancelling invocation ${id} (${reason ?? "cancelled"})`);
+    controller.abort(new DOMException(`Tool call ${reason === "timeout" ? "timed out" : "was cancelled"}`, "AbortError"));
+  }
+
   hot.on("mcp:tool-call", handleToolCall);
+  hot.on("mcp:tool-cancel", handleToolCancel);
   hot.on("mcp:tool-server-result", handleServerMethodResult);
 }
 
@@ -0,0 +1,340 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export interface CookieDetails {
+  name: string;
+  value: string;
+  size: number;
+  domain: string;
+  path: string;
+  expires?: number;
+  expiresDate?: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+  hostOnly: boolean;
+  session: boolean;
+}
+
+export interface CookieOptions {
+  path?: string | undefined;
+  domain?: string | undefined;
+  expires?: number | undefined;
+  maxAge?: number | undefined;
+  secure?: boolean | undefined;
+  sameSite?: string | undefined;
+}
+
+// Chromium's Cookie Store API lists these too; the DOM typings and other browsers only have name and value
+type CookieStoreItem = CookieListItem & {
+  domain?: string | null;
+  path?: string;
+  expires?: number | null;
+  secure?: boolean;
+  sameSite?: "strict" | "lax" | "none";
+};
+
+/**
+ * Cookies visible to the page. Where the Cookie Store API reports a cookie's path,
+ * domain and expiry they are kept; otherwise path and domain describe the page.
+ */
+export async function readCookies(): Promise<CookieDetails[]> {
+  const cookieStore: CookieStore | undefined = window.cookieStore;
+  if (cookieStore) {
+    const cookies = (await cookieStore.getAll()) as CookieStoreItem[];
+    return cookies.flatMap(({ name, value = "", domain, path, expires, secure, sameSite }) =>
+      name
+        ? [
+            {
+              name,
+              value,
+              size: (name + "=" + value).length,
+              domain: domain ?? window.location.hostname,
+              path: path ?? "/",
+              ...(typeof expires === "number" ? { expires, expiresDate: new Date(expires).toISOString() } : {}),
+              secure: secure ?? window.location.protocol === "https:",
+              httpOnly: false,
+              ...(sameSite ? { sameSite: `${sameSite[0]!.toUpperCase()}${sameSite.slice(1)}` as "Strict" | "Lax" | "None" } : {}),
+              hostOnly: !domain,
+              session: typeof expires !== "number",
+            },
+          ]
+        : []
+    );
+  }
+
+  const cookies: CookieDetails[] = [];
+  const cookieString = document.cookie;
+
+  if (!cookieString) {
+    return cookies;
+  }
+
+  const cookieParts = cookieString.split(";");
+  for (const cookie of cookieParts) {
+    const [name, ...valueParts] = cookie.trim().split("=");
+    if (name) {
+      const value = valueParts.join("=").trim();
+      const cookieDetail: CookieDetails = {
+        name: name.trim(),
+        value: value,
+        domain: window.location.hostname,
+        path: "/",
+        secure: window.location.protocol === "https:",
+        httpOnly: false,
+        hostOnly: true,
+        session: true,
+        size: (name.trim() + "=" + value).length,
+      };
+      cookies.push(cookieDetail);
+    }
+  }
+
+  return cookies;
+}
+
+async function getCookieDetails(name: string): Promise<CookieDetails | null> {
+  return (await readCookies()).find((cookie) => cookie.name === name) ?? null;
+}
+
+/** Set a cookie through document.cookie, writing its name and value as given */
+export function writeCookie(name: string, value: string, options: CookieOptions = {}) {
+  let cookieString = `${name}=${value}`;
+
+  if (options.path) {
+    cookieString += `; path=${options.path}`;
+  } else {
+    cookieString += `; path=/`;
+  }
+
+  if (options.domain) {
+    cookieString += `; domain=${options.domain}`;
+  }
+
+  if (options.expires) {
+    const expiresDate = new Date(options.expires);
+    cookieString += `; expires=${expiresDate.toUTCString()}`;
+  } else if (options.maxAge !== undefined) {
+    cookieString += `; max-age=${options.maxAge}`;
+  }
+
+  if (options.secure) {
+    cookieString += `; secure`;
+  }
+
+  if (options.sameSite) {
+    cookieString += `; samesite=${options.sameSite}`;
+  }
+
+  document.cookie = cookieString;
+}
+
+/**
+ * Remove a cookie wherever the page can see it. document.cookie does not tell a cookie's
+ * path or domain, but a visible cookie's path is a prefix of the page's path and its
+ * domain is the page's host (host-only) or one of its parent domains.
+ */
+export function expireCookie(name: string) {
+  const segments = window.location.pathname.split("/").filter(Boolean);
+  const paths = ["/"];
+  segments.forEach((_, i) => {
+    const path = `/${segments.slice(0, i + 1).join("/")}`;
+    paths.push(path, `${path}/`);
+  });
+  const labels = window.location.hostname.split(".");
+  const domains = [undefined, ...labels.map((_, i) => labels.slice(i).join("."))];
+
+  for (const path of paths) {
+    for (const domain of domains) {
+      document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=${path}${domain ? `; domain=${domain}` : ""}`;
+    }
+  }
+}
+
+async function setCookieWithOptions(name: string, value: string, options: CookieOptions = {}): Promise<CookieDetails | null> {
+  writeCookie(encodeURIComponent(name), encodeURIComponent(value), options);
+  return getCookieDetails(name);
+}
+
+export async function cookieHandler(params?: {
+  action?: "read" | "get" | "set" | "edit" | "remove";
+  name?: string;
+  value?: string;
+  domain?: string;
+  path?: string;
+  expires?: number;
+  maxAge?: number;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+}): Promise<CallToolResult> {
+  if (typeof window === "undefined") {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: "Not available in server environment" }),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  try {
+    const action = params?.action;
+    if (!action) {
+      throw new Error(`Missing required parameter 'action' for cookie adapter. Received params: ${JSON.stringify(params)}`);
+    }
+
+    let result: unknown;
+
+    switch (action) {
+      case "read": {
+        result = {
+          action: "read",
+          cookies: await readCookies(),
+        };
+        break;
+      }
+      case "get": {
+        const cookie = await getCookieDetails(params.name!);
+        result = {
+          action: "get",
+          cookie: cookie,
+        };
+        break;
+      }
+      case "set": {
+        const setOptions: {
+          path?: string;
+          domain?: string;
+          expires?: number;
+          maxAge?: number;
+          secure?: boolean;
+          sameSite?: string;
+        } = {};
+
+        if (params?.domain !== undefined) {
+          setOptions.domain = params.domain;
+        }
+        if (params?.path !== undefined) {
+          setOptions.path = params.path;
+        }
+        if (params?.expires !== undefined) {
+          setOptions.expires = params.expires;
+        }
+        if (params?.maxAge !== undefined) {
+          setOptions.maxAge = params.maxAge;
+        }
+        if (params?.secure !== undefined) {
+          setOptions.secure = params.secure;
+        }
+        if (params?.sameSite !== undefined) {
+          setOptions.sameSite = params.sameSite;
+        }
+
+        const cookie = await setCookieWithOptions(params.name!, params.value!, setOptions);
+        result = {
+          action: "set",
+          success: true,
+          cookie: cookie || null,
+        };
+        break;
+      }
+      case "edit": {
+        const existing = await getCookieDetails(params.name!);
+        if (!existing) {
+          result = {
+            action: "edit",
+            success: false,
+            cookie: null,
+          };
+          break;
+        }
+        const editOptions: {
+          path?: string;
+          domain?: string;
+          expires?: number;
+          maxAge?: number;
+          secure?: boolean;
+          sameSite?: string;
+        } = {};
+
+        if (params?.domain !== undefined) {
+          editOptions.domain = params.domain;
+        } else {
+          editOptions.domain = existing.domain;
+        }
+
+        if (params?.path !== undefined) {
+          editOptions.path = params.path;
+        } else {
+          editOptions.path = existing.path;
+        }
+
+        if (params?.expires !== undefined) {
+          editOptions.expires = params.expires;
+        }
+
+        if (params?.maxAge !== undefined) {
+          editOptions.maxAge = params.maxAge;
+        }
+
+        if (params?.secure !== undefined) {
+          editOptions.secure = params.secure;
+        } else {
+          editOptions.secure = existing.secure;
+        }
+
+        if (params?.sameSite !== undefined) {
+          editOptions.sameSite = params.sameSite;
+        }
+
+        const cookie = await setCookieWithOptions(
+          params.name!,
+          params.value !== undefined ? params.value : existing.value,
+          editOptions
+        );
+        result = {
+          action: "edit",
+          success: true,
+          cookie: cookie || null,
+        };
+        break;
+      }
+      case "remove": {
+        const cookieString = `${encodeURIComponent(params.name!)}=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=${params.path || "/"}`;
+        if (params.domain) {
+          document.cookie = `${cookieString}; domain=${params.domain}`;
+        } else {
+          document.cookie = cookieString;
+        }
+        result = {
+          action: "remove",
+          success: true,
+        };
+        break;
+      }
+      default:
+        throw new Error(`Unknown cookie action: ${action}`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,14 @@
+import type { BrowserHandlers } from "../../adapter/types.js";
+import { cookieHandler } from "./cookie.js";
+import { indexedDBHandler } from "./indexed-db.js";
+import { storageSnapshotHandler } from "./storage-snapshot.js";
+import { createWebStorageHandler } from "./web-storage.js";
+
+// Browser handlers of the built-in adapters that share code, keyed by adapter name
+export default {
+  cookie: cookieHandler,
+  indexed_db: indexedDBHandler,
+  local_storage: createWebStorageHandler("localStorage"),
+  session_storage: createWebStorageHandler("sessionStorage"),
+  storage_snapshot: storageSnapshotHandler,
+} satisfies BrowserHandlers;
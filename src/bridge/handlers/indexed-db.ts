@@ -0,0 +1,925 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+type Progress = (current: number, total?: number, message?: string) => void;
+
+/** Output of `export_database`, and what `import_database` and storage snapshots recreate */
+export interface ExportedDatabase {
+  name: string;
+  version: number;
+  objectStores: Array<{
+    name: string;
+    keyPath: string | string[] | null;
+    autoIncrement: boolean;
+    indexes: Array<{ name: string; keyPath: string | string[]; unique: boolean; multiEntry: boolean }>;
+    /** Records in primary key order; missing when exported with schemaOnly */
+    records?: Array<{ key: unknown; value: unknown }>;
+  }>;
+}
+
+interface DatabaseTask {
+  signal?: AbortSignal | undefined;
+  progress?: Progress | undefined;
+}
+
+export function exportDatabase(
+  databaseName: string,
+  { schemaOnly, signal, progress }: DatabaseTask & { schemaOnly?: boolean | undefined } = {}
+): Promise<ExportedDatabase> {
+  return new Promise((resolve, reject) => {
+    let missing = false;
+    const request = indexedDB.open(databaseName);
+    // Opening a database that does not exist creates it, so undo that instead of exporting an empty one
+    request.onupgradeneeded = () => {
+      missing = true;
+      request.transaction?.abort();
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      const storeNames = Array.from(db.objectStoreNames);
+      const objectStores: ExportedDatabase["objectStores"] = [];
+      const finish = () => {
+        db.close();
+        resolve({ name: databaseName, version: db.version, objectStores });
+      };
+      if (storeNames.length === 0) {
+        finish();
+        return;
+      }
+
+      const transaction = db.transaction(storeNames, "readonly");
+      const onAbort = () => transaction.abort();
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener("abort", onAbort, { once: true });
+      }
+      let exported = 0;
+      for (const storeName of storeNames) {
+        const store = transaction.objectStore(storeName);
+        const exportedStore: ExportedDatabase["objectStores"][number] = {
+          name: storeName,
+          keyPath: store.keyPath,
+          autoIncrement: store.autoIncrement,
+          indexes: Array.from(store.indexNames).map((indexName) => {
+            const index = store.index(indexName);
+            return { name: indexName, keyPath: index.keyPath, unique: index.unique, multiEntry: index.multiEntry };
+          }),
+        };
+        objectStores.push(exportedStore);
+        if (schemaOnly) {
+          continue;
+        }
+        // Both requests walk the store in primary key order, so keys and values line up
+        const keysRequest = store.getAllKeys();
+        const valuesRequest = store.getAll();
+        valuesRequest.onsuccess = () => {
+          exportedStore.records = keysRequest.result.map((key, i) => ({ key, value: valuesRequest.result[i] }));
+          progress?.(++exported, storeNames.length, `Exported ${storeName}`);
+        };
+      }
+      transaction.oncomplete = () => {
+        signal?.removeEventListener("abort", onAbort);
+        finish();
+      };
+      transaction.onabort = () => {
+        signal?.removeEventListener("abort", onAbort);
+        db.close();
+        reject(signal?.aborted ? signal.reason : new Error("Failed to export database"));
+      };
+    };
+    request.onerror = () => {
+      reject(new Error(missing ? `Database "${databaseName}" does not exist` : "Failed to open database"));
+    };
+  });
+}
+
+// How long a delete may stay blocked by connections the page keeps open
+const DELETE_BLOCKED_TIMEOUT = 10000;
+
+export function deleteDatabase(
+  databaseName: string,
+  { signal, progress, blockedTimeout = DELETE_BLOCKED_TIMEOUT }: DatabaseTask & { blockedTimeout?: number | undefined } = {}
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const settle = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      settle();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const request = indexedDB.deleteDatabase(databaseName);
+    request.onsuccess = () => {
+      settle();
+      resolve();
+    };
+    request.onerror = () => {
+      settle();
+      reject(new Error(`Failed to delete database "${databaseName}"`));
+    };
+    // The delete goes through once the page closes its connections after the versionchange event,
+    // which a page that ignores the event never does
+    request.onblocked = () => {
+      progress?.(0, undefined, `Waiting for the page to close "${databaseName}"`);
+      timer ??= setTimeout(() => {
+        settle();
+        reject(
+          new Error(
+            `Database "${databaseName}" is still open in the page after ${blockedTimeout}ms; it is deleted once the page closes its connections`
+          )
+        );
+      }, blockedTimeout);
+    };
+  });
+}
+
+/**
+ * Drop the exported records whose key or value JSON can't carry, so the export
+ * holds only what import recreates as is, and describe each dropped record.
+ */
+export function dropUnserializable(database: ExportedDatabase): string[] {
+  const skipped: string[] = [];
+  for (const store of database.objectStores) {
+    if (store.records) {
+      store.records = store.records.filter(({ key, value }) => {
+        const problem = findUnserializable(key, "key") ?? findUnserializable(value);
+        if (problem) {
+          skipped.push(`${database.name}/${store.name} ${JSON.stringify(key)} (${problem} does not survive JSON)`);
+        }
+        return !problem;
+      });
+    }
+  }
+  return skipped;
+}
+
+/**
+ * Describe the first part of a key or value that JSON can't carry, such as
+ * "Date at $.createdAt", or return undefined when it round-trips as is.
+ */
+export function findUnserializable(value: unknown, path = "$", seen = new Set<object>()): string | undefined {
+  switch (typeof value) {
+    case "string":
+    case "boolean":
+      return undefined;
+    case "number":
+      return Number.isFinite(value) ? undefined : `${value} at ${path}`;
+    case "object":
+      break;
+    default:
+      return `${typeof value} at ${path}`;
+  }
+  if (value === null) {
+    return undefined;
+  }
+  if (seen.has(value)) {
+    return `circular reference at ${path}`;
+  }
+  if (Array.isArray(value)) {
+    seen.add(value);
+    for (const [i, item] of value.entries()) {
+      const problem = findUnserializable(item, `${path}[${i}]`, seen);
+      if (problem) {
+        return problem;
+      }
+    }
+    seen.delete(value);
+    return undefined;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return `${value.constructor?.name || "object"} at ${path}`;
+  }
+  seen.add(value);
+  for (const [key, item] of Object.entries(value)) {
+    const problem = findUnserializable(item, `${path}.${key}`, seen);
+    if (problem) {
+      return problem;
+    }
+  }
+  seen.delete(value);
+  return undefined;
+}
+
+/**
+ * Recreate an exported database, under `name` when given. It must not exist yet,
+ * unless `replace` deletes it first.
+ */
+export async function importDatabase(
+  source: ExportedDatabase,
+  { name = source.name, replace, signal, progress }: DatabaseTask & { name?: string | undefined; replace?: boolean | undefined } = {}
+): Promise<{ version: number; recordCount: number }> {
+  if (replace) {
+    await deleteDatabase(name, { signal, progress });
+  }
+
+  return new Promise((resolve, reject) => {
+    let existed = false;
+    let upgraded = false;
+    let failure: Error | undefined;
+    let recordCount = 0;
+    const request = indexedDB.open(name, Math.max(source.version, 1));
+    const onAbort = () => {
+      request.transaction?.abort();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    // Stores and indexes can only be created while upgrading, so the records go into the same transaction
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      if (event.oldVersion > 0) {
+        existed = true;
+        transaction.abort();
+        return;
+      }
+      upgraded = true;
+      try {
+        for (const [i, storeSchema] of source.objectStores.entries()) {
+          const store = request.result.createObjectStore(storeSchema.name, {
+            keyPath: storeSchema.keyPath,
+            autoIncrement: storeSchema.autoIncrement,
+          });
+          for (const index of storeSchema.indexes) {
+            store.createIndex(index.name, index.keyPath, { unique: index.unique, multiEntry: index.multiEntry });
+          }
+          for (const record of storeSchema.records ?? []) {
+            const putRequest = store.keyPath === null ? store.put(record.value, record.key as IDBValidKey) : store.put(record.value);
+            putRequest.onerror = () => {
+              failure ??= new Error(`Failed to import a record into ${storeSchema.name}: ${putRequest.error?.message}`);
+            };
+            recordCount++;
+          }
+          progress?.(i + 1, source.objectStores.length, `Imported ${storeSchema.name}`);
+        }
+      } catch (error) {
+        failure = new Error(`Failed to import database: ${error instanceof Error ? error.message : String(error)}`);
+        transaction.abort();
+      }
+    };
+    request.onsuccess = () => {
+      signal?.removeEventListener("abort", onAbort);
+      request.result.close();
+      // Without an upgrade the database already existed at this version and nothing was imported
+      if (!upgraded) {
+        reject(new Error(`Database "${name}" already exists; pass replace: true to overwrite it`));
+        return;
+      }
+      resolve({ version: request.result.version, recordCount });
+    };
+    request.onerror = () => {
+      signal?.removeEventListener("abort", onAbort);
+      if (existed || request.error?.name === "VersionError") {
+        reject(new Error(`Database "${name}" already exists; pass replace: true to overwrite it`));
+        return;
+      }
+      reject(failure ?? new Error(`Failed to import database: ${request.error?.message}`));
+    };
+  });
+}
+
+export async function indexedDBHandler(this: { signal?: AbortSignal; progress?: Progress }, params?: {
+  action?:
+    | "list_databases"
+    | "get_database_info"
+    | "get_keys"
+    | "query"
+    | "get_entry"
+    | "export_database"
+    | "set_entry"
+    | "batch"
+    | "import_database"
+    | "delete_entry"
+    | "clear_object_store"
+    | "delete_database";
+  databaseName?: string;
+  objectStoreName?: string;
+  key?: unknown;
+  value?: unknown;
+  indexName?: string;
+  range?: { only?: unknown; lower?: unknown; upper?: unknown; lowerOpen?: boolean; upperOpen?: boolean };
+  direction?: IDBCursorDirection;
+  offset?: number;
+  limit?: number;
+  fields?: string[];
+  cursor?: { key: unknown; primaryKey: unknown };
+  operations?: Array<{ type: "put" | "add" | "delete"; objectStoreName?: string; key?: unknown; value?: unknown }>;
+  schemaOnly?: boolean;
+  database?: ExportedDatabase;
+  replace?: boolean;
+}): Promise<CallToolResult> {
+  if (typeof window === "undefined") {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: "Not available in server environment" }),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  try {
+    const action = params?.action;
+    if (!action) {
+      throw new Error(`Missing required parameter 'action' for indexed_db adapter. Received params: ${JSON.stringify(params)}`);
+    }
+
+    const signal = this?.signal;
+    signal?.throwIfAborted();
+
+    let result: unknown;
+
+    switch (action) {
+      case "list_databases": {
+        if (!("indexedDB" in window)) {
+          result = {
+            action: "list_databases",
+            databases: [],
+            count: 0,
+          };
+          break;
+        }
+        if (typeof indexedDB.databases !== "function") {
+          throw new Error("Listing databases is not supported in this browser; use get_database_info with a known databaseName");
+        }
+        const databases = (await indexedDB.databases()).flatMap(({ name, version }) =>
+          name ? [{ name, version: version ?? 0 }] : []
+        );
+        result = {
+          action: "list_databases",
+          databases,
+          count: databases.length,
+        };
+        break;
+      }
+      case "get_database_info": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        const databaseName = params.databaseName;
+        if (!databaseName) {
+          throw new Error("databaseName is required for get_database_info action");
+        }
+        result = await new Promise((resolve) => {
+          const request = indexedDB.open(databaseName);
+          request.onsuccess = () => {
+            const db = request.result;
+            const objectStores: Array<{ name: string; keyPath: string | null; autoIncrement: boolean }> = [];
+            if (db.objectStoreNames) {
+              for (let i = 0; i < db.objectStoreNames.length; i++) {
+                const storeName = db.objectStoreNames[i] as string;
+                const transaction = db.transaction([storeName], "readonly");
+                const store = transaction.objectStore(storeName);
+                objectStores.push({
+                  name: storeName,
+                  keyPath: store.keyPath as string | null,
+                  autoIncrement: store.autoIncrement,
+                });
+              }
+            }
+            db.close();
+            resolve({
+              action: "get_database_info",
+              name: databaseName,
+              version: db.version,
+              objectStores,
+              found: true,
+            });
+          };
+          request.onerror = () => {
+            resolve({
+              action: "get_database_info",
+              name: databaseName,
+              version: 0,
+              objectStores: [],
+              found: false,
+            });
+          };
+        });
+        break;
+      }
+      case "get_keys": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        result = await new Promise((resolve, reject) => {
+          const request = indexedDB.open(params.databaseName!);
+          request.onsuccess = () => {
+            const db = request.result;
+            const transaction = db.transaction([params.objectStoreName!], "readonly");
+            const store = transaction.objectStore(params.objectStoreName!);
+            // Reading every key of a large store can take a while, so stop when the call is cancelled
+            const onAbort = () => {
+              transaction.abort();
+              db.close();
+              reject(signal?.reason);
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+            const getAllKeysRequest = store.getAllKeys();
+            getAllKeysRequest.onsuccess = () => {
+              signal?.removeEventListener("abort", onAbort);
+              db.close();
+              resolve({
+                action: "get_keys",
+                keys: getAllKeysRequest.result,
+                databaseName: params.databaseName,
+                objectStoreName: params.objectStoreName,
+                count: getAllKeysRequest.result.length,
+              });
+            };
+            getAllKeysRequest.onerror = () => {
+              signal?.removeEventListener("abort", onAbort);
+              db.close();
+              reject(new Error("Failed to get keys"));
+            };
+          };
+          request.onerror = () => {
+            reject(new Error("Failed to open database"));
+          };
+        });
+        break;
+      }
+      case "query": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        const { databaseName, objectStoreName, indexName, range, fields, cursor: after } = params;
+        if (!databaseName || !objectStoreName) {
+          throw new Error("databaseName and objectStoreName are required for query action");
+        }
+        const direction = params.direction ?? "next";
+        const limit = params.limit ?? 50;
+        let skip = params.offset ?? 0;
+
+        let keyRange: IDBKeyRange | undefined;
+        if (range?.only !== undefined) {
+          keyRange = IDBKeyRange.only(range.only);
+        } else if (range?.lower !== undefined && range.upper !== undefined) {
+          keyRange = IDBKeyRange.bound(range.lower, range.upper, range.lowerOpen ?? false, range.upperOpen ?? false);
+        } else if (range?.lower !== undefined) {
+          keyRange = IDBKeyRange.lowerBound(range.lower, range.lowerOpen ?? false);
+        } else if (range?.upper !== undefined) {
+          keyRange = IDBKeyRange.upperBound(range.upper, range.upperOpen ?? false);
+        }
+
+        // A malformed cursor would otherwise throw inside the cursor callback, where nothing catches it
+        if (after) {
+          for (const name of ["key", "primaryKey"] as const) {
+            try {
+              indexedDB.cmp(after[name], after[name]);
+            } catch {
+              throw new Error(`Invalid cursor: ${name} ${JSON.stringify(after[name])} is not a valid IndexedDB key. Pass the nextCursor of the previous query unchanged`);
+            }
+          }
+        }
+
+        const project = (value: unknown) => {
+          if (!fields || typeof value !== "object" || value === null) {
+            return value;
+          }
+          const projected: { [key: string]: unknown } = {};
+          for (const field of fields) {
+            const path = field.split(".");
+            let source: unknown = value;
+            for (const part of path) {
+              source = typeof source === "object" && source !== null ? (source as { [key: string]: unknown })[part] : undefined;
+            }
+            if (source === undefined) {
+              continue;
+            }
+            let target = projected;
+            path.slice(0, -1).forEach((part) => {
+              target = (target[part] ??= {}) as { [key: string]: unknown };
+            });
+            target[path[path.length - 1]!] = source;
+          }
+          return projected;
+        };
+
+        result = await new Promise((resolve, reject) => {
+          const request = indexedDB.open(databaseName);
+          request.onsuccess = () => {
+            const db = request.result;
+            let transaction: IDBTransaction;
+            let cursorRequest: IDBRequest<IDBCursorWithValue | null>;
+            try {
+              transaction = db.transaction([objectStoreName], "readonly");
+              const store = transaction.objectStore(objectStoreName);
+              const source = indexName ? store.index(indexName) : store;
+              cursorRequest = source.openCursor(keyRange, direction);
+            } catch (error) {
+              db.close();
+              reject(new Error(`Failed to query ${indexName ? `index "${indexName}" of ` : ""}object store "${objectStoreName}": ${error instanceof Error ? error.message : String(error)}`));
+              return;
+            }
+
+            const records: Array<{ key: unknown; primaryKey: unknown; value: unknown }> = [];
+            const onAbort = () => {
+              transaction.abort();
+              db.close();
+              reject(signal?.reason);
+            };
+            if (signal?.aborted) {
+              onAbort();
+              return;
+            }
+            signal?.addEventListener("abort", onAbort, { once: true });
+            const finish = (nextCursor: { key: unknown; primaryKey: unknown } | null) => {
+              signal?.removeEventListener("abort", onAbort);
+              db.close();
+              resolve({
+                action: "query",
+                databaseName,
+                objectStoreName,
+                ...(indexName ? { indexName } : {}),
+                records,
+                count: records.length,
+                nextCursor,
+              });
+            };
+
+            const reverse = direction.startsWith("prev");
+            // Index keys repeat unless the direction skips duplicates, so the primary key breaks ties
+            const byPrimaryKey = Boolean(indexName) && !direction.endsWith("unique");
+            let positioned = !after;
+            let resumed = !after;
+
+            const readNext = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) {
+                finish(null);
+                return;
+              }
+              // Jump to where the previous page stopped instead of reading everything before it
+              if (!positioned) {
+                positioned = true;
+                const keyOrder = indexedDB.cmp(cursor.key, after!.key) * (reverse ? -1 : 1);
+                const primaryOrder = byPrimaryKey && keyOrder === 0
+                  ? indexedDB.cmp(cursor.primaryKey, after!.primaryKey) * (reverse ? -1 : 1)
+                  : 0;
+                if (keyOrder < 0 || primaryOrder < 0) {
+                  if (byPrimaryKey) {
+                    cursor.continuePrimaryKey(after!.key as IDBValidKey, after!.primaryKey as IDBValidKey);
+                  } else {
+                    cursor.continue(after!.key as IDBValidKey);
+                  }
+                  return;
+                }
+              }
+              if (!resumed) {
+                resumed = true;
+                const sameRecord = indexedDB.cmp(cursor.key, after!.key) === 0 &&
+                  (!byPrimaryKey || indexedDB.cmp(cursor.primaryKey, after!.primaryKey) === 0);
+                if (sameRecord) {
+                  cursor.continue();
+                  return;
+                }
+              }
+              if (skip > 0) {
+                const count = skip;
+                skip = 0;
+                cursor.advance(count);
+                return;
+              }
+              if (records.length === limit) {
+                const last = records[records.length - 1]!;
+                finish({ key: last.key, primaryKey: last.primaryKey });
+                return;
+              }
+              records.push({ key: cursor.key, primaryKey: cursor.primaryKey, value: project(cursor.value) });
+              this?.progress?.(records.length, limit);
+              cursor.continue();
+            };
+            cursorRequest.onsuccess = () => {
+              try {
+                readNext();
+              } catch (error) {
+                signal?.removeEventListener("abort", onAbort);
+                db.close();
+                reject(new Error(`Failed to query records: ${error instanceof Error ? error.message : String(error)}`));
+              }
+            };
+            cursorRequest.onerror = () => {
+              signal?.removeEventListener("abort", onAbort);
+              db.close();
+              reject(new Error("Failed to query records"));
+            };
+          };
+          request.onerror = () => {
+            reject(new Error("Failed to open database"));
+          };
+        });
+        break;
+      }
+      case "get_entry": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        if (!params.key) {
+          throw new Error("Key is required for get_entry action");
+        }
+        result = await new Promise((resolve, reject) => {
+          const request = indexedDB.open(params.databaseName!);
+          request.onsuccess = () => {
+            const db = request.result;
+            const transaction = db.transaction([params.objectStoreName!], "readonly");
+            const store = transaction.objectStore(params.objectStoreName!);
+            const getRequest = store.get(params.key as IDBValidKey);
+            getRequest.onsuccess = () => {
+              db.close();
+              resolve({
+                action: "get_entry",
+                found: getRequest.result !== undefined,
+                key: params.key,
+                value: getRequest.result || null,
+                databaseName: params.databaseName,
+                objectStoreName: params.objectStoreName,
+              });
+            };
+            getRequest.onerror = () => {
+              db.close();
+              reject(new Error("Failed to get entry"));
+            };
+          };
+          request.onerror = () => {
+            reject(new Error("Failed to open database"));
+          };
+        });
+        break;
+      }
+      case "export_database": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        const databaseName = params.databaseName;
+        if (!databaseName) {
+          throw new Error("databaseName is required for export_database action");
+        }
+        const database = await exportDatabase(databaseName, { schemaOnly: params.schemaOnly, signal, progress: this?.progress });
+        const skipped = dropUnserializable(database);
+        result = {
+          action: "export_database",
+          databaseName,
+          database,
+          recordCount: database.objectStores.reduce((total, store) => total + (store.records?.length ?? 0), 0),
+          ...(skipped.length > 0 ? { skipped } : {}),
+        };
+        break;
+      }
+      case "set_entry": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        if (params.key === undefined) {
+          throw new Error("Key is required for set_entry action");
+        }
+        result = await new Promise((resolve, reject) => {
+          const request = indexedDB.open(params.databaseName!);
+          request.onsuccess = () => {
+            const db = request.result;
+            const transaction = db.transaction([params.objectStoreName!], "readwrite");
+            const store = transaction.objectStore(params.objectStoreName!);
+            const putRequest = store.put(params.value, params.key as IDBValidKey);
+            putRequest.onsuccess = () => {
+              db.close();
+              resolve({
+                action: "set_entry",
+                success: true,
+                key: putRequest.result || params.key,
+                databaseName: params.databaseName,
+                objectStoreName: params.objectStoreName,
+              });
+            };
+            putRequest.onerror = () => {
+              db.close();
+              reject(new Error("Failed to set entry"));
+            };
+          };
+          request.onerror = () => {
+            reject(new Error("Failed to open database"));
+          };
+        });
+        break;
+      }
+      case "batch": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        const databaseName = params.databaseName;
+        if (!databaseName) {
+          throw new Error("databaseName is required for batch action");
+        }
+        if (!params.operations?.length) {
+          throw new Error("operations are required for batch action");
+        }
+        const operations = params.operations.map((operation, i) => {
+          const objectStoreName = operation.objectStoreName ?? params.objectStoreName;
+          if (!objectStoreName) {
+            throw new Error(`operations[${i}]: objectStoreName is required`);
+          }
+          if (operation.type === "delete" ? operation.key === undefined : operation.value === undefined) {
+            throw new Error(`operations[${i}]: ${operation.type === "delete" ? "key" : "value"} is required for ${operation.type}`);
+          }
+          return { ...operation, objectStoreName };
+        });
+
+        result = await new Promise((resolve, reject) => {
+          const request = indexedDB.open(databaseName);
+          request.onsuccess = () => {
+            const db = request.result;
+            if (signal?.aborted) {
+              db.close();
+              reject(signal.reason);
+              return;
+            }
+            let transaction: IDBTransaction;
+            try {
+              transaction = db.transaction([...new Set(operations.map((operation) => operation.objectStoreName))], "readwrite");
+            } catch (error) {
+              db.close();
+              reject(new Error(`Failed to start batch: ${error instanceof Error ? error.message : String(error)}`));
+              return;
+            }
+
+            const results: Array<{ type: "put" | "add" | "delete"; objectStoreName: string; key: unknown }> = [];
+            let failure: Error | undefined;
+            const fail = (i: number, error: unknown) => {
+              const operation = operations[i]!;
+              failure ??= new Error(
+                `operations[${i}] (${operation.type} in ${operation.objectStoreName}) failed, no operations were applied: ${
+                  error instanceof Error ? error.message : String(error)
+                }`
+              );
+            };
+            const onAbort = () => transaction.abort();
+            signal?.addEventListener("abort", onAbort, { once: true });
+            transaction.oncomplete = () => {
+              signal?.removeEventListener("abort", onAbort);
+              db.close();
+              resolve({ action: "batch", success: true, databaseName, results, count: results.length });
+            };
+            transaction.onabort = () => {
+              signal?.removeEventListener("abort", onAbort);
+              db.close();
+              reject(signal?.aborted ? signal.reason : failure ?? new Error("Batch was aborted, no operations were applied"));
+            };
+
+            for (const [i, operation] of operations.entries()) {
+              const store = transaction.objectStore(operation.objectStoreName);
+              const key = operation.key as IDBValidKey | undefined;
+              let operationRequest: IDBRequest<IDBValidKey> | IDBRequest<undefined>;
+              try {
+                operationRequest =
+                  operation.type === "delete"
+                    ? store.delete(key!)
+                    : operation.type === "add"
+                      ? store.add(operation.value, key)
+                      : store.put(operation.value, key);
+              } catch (error) {
+                // Invalid keys throw right away, e.g. a key for a store that has a keyPath
+                fail(i, error);
+                transaction.abort();
+                return;
+              }
+              operationRequest.onsuccess = () => {
+                results[i] = {
+                  type: operation.type,
+                  objectStoreName: operation.objectStoreName,
+                  key: operation.type === "delete" ? operation.key : operationRequest.result,
+                };
+                this?.progress?.(i + 1, operations.length);
+              };
+              // A failed request aborts the whole transaction
+              operationRequest.onerror = () => fail(i, operationRequest.error);
+            }
+          };
+          request.onerror = () => {
+            reject(new Error("Failed to open database"));
+          };
+        });
+        break;
+      }
+      case "import_database": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        const source = params.database;
+        if (!source) {
+          throw new Error("database is required for import_database action (the output of export_database)");
+        }
+        const databaseName = params.databaseName ?? source.name;
+        const { version, recordCount } = await importDatabase(source, {
+          name: databaseName,
+          replace: params.replace,
+          signal,
+          progress: this?.progress,
+        });
+        result = { action: "import_database", success: true, databaseName, version, recordCount };
+        break;
+      }
+      case "delete_entry": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        if (params.key === undefined) {
+          throw new Error("Key is required for delete_entry action");
+        }
+        result = await new Promise((resolve, reject) => {
+          const request = indexedDB.open(params.databaseName!);
+          request.onsuccess = () => {
+            const db = request.result;
+            const transaction = db.transaction([params.objectStoreName!], "readwrite");
+            const store = transaction.objectStore(params.objectStoreName!);
+            const deleteRequest = store.delete(params.key as IDBValidKey);
+            deleteRequest.onsuccess = () => {
+              db.close();
+              resolve({
+                action: "delete_entry",
+                success: true,
+                key: params.key,
+                databaseName: params.databaseName,
+                objectStoreName: params.objectStoreName,
+              });
+            };
+            deleteRequest.onerror = () => {
+              db.close();
+              reject(new Error("Failed to delete entry"));
+            };
+          };
+          request.onerror = () => {
+            reject(new Error("Failed to open database"));
+          };
+        });
+        break;
+      }
+      case "clear_object_store": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        result = await new Promise((resolve, reject) => {
+          const request = indexedDB.open(params.databaseName!);
+          request.onsuccess = () => {
+            const db = request.result;
+            const transaction = db.transaction([params.objectStoreName!], "readwrite");
+            const store = transaction.objectStore(params.objectStoreName!);
+            const clearRequest = store.clear();
+            clearRequest.onsuccess = () => {
+              db.close();
+              resolve({
+                action: "clear_object_store",
+                success: true,
+                databaseName: params.databaseName,
+                objectStoreName: params.objectStoreName,
+              });
+            };
+            clearRequest.onerror = () => {
+              db.close();
+              reject(new Error("Failed to clear object store"));
+            };
+          };
+          request.onerror = () => {
+            reject(new Error("Failed to open database"));
+          };
+        });
+        break;
+      }
+      case "delete_database": {
+        if (!("indexedDB" in window)) {
+          throw new Error("IndexedDB is not available");
+        }
+        await deleteDatabase(params.databaseName!, { signal, progress: this?.progress });
+        result = {
+          action: "delete_database",
+          success: true,
+          databaseName: params.databaseName,
+        };
+        break;
+      }
+      default:
+        throw new Error(`Unknown indexedDB action: ${action}`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
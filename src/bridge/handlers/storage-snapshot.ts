@@ -0,0 +1,423 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ServerMethods } from "../bridge.js";
+import { expireCookie, readCookies, writeCookie } from "./cookie.js";
+import { deleteDatabase, dropUnserializable, exportDatabase, importDatabase, type ExportedDatabase } from "./indexed-db.js";
+
+type Progress = (current: number, total?: number, message?: string) => void;
+
+type StorageType = "cookies" | "localStorage" | "sessionStorage" | "caches" | "indexedDB";
+type CachedResponse = { url: string; status: number; statusText: string; headers: { [name: string]: string }; body: string };
+interface Snapshot {
+  url: string;
+  createdAt: number;
+  cookies?: Array<{
+    name: string;
+    value: string;
+    path?: string;
+    /** Missing for host-only cookies */
+    domain?: string;
+    expires?: number;
+    secure?: boolean;
+    sameSite?: "Strict" | "Lax" | "None";
+  }>;
+  localStorage?: { [key: string]: string };
+  sessionStorage?: { [key: string]: string };
+  caches?: Array<{ name: string; entries: CachedResponse[] }>;
+  indexedDB?: ExportedDatabase[];
+  skipped?: string[];
+}
+
+export async function storageSnapshotHandler(this: { server: ServerMethods; signal?: AbortSignal; progress?: Progress }, params?: {
+  action?: "capture" | "list" | "diff" | "restore";
+  name?: string;
+  include?: Array<"cookies" | "localStorage" | "sessionStorage" | "caches" | "indexedDB">;
+  from?: string;
+  to?: string;
+}): Promise<CallToolResult> {
+  if (typeof window === "undefined") {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: "Not available in server environment" }),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const allTypes: StorageType[] = ["cookies", "localStorage", "sessionStorage", "caches", "indexedDB"];
+  const server = this.server;
+  const signal = this?.signal;
+  const progress: Progress = (current, total, message) => this?.progress?.(current, total, message);
+
+  const readStorage = (storage: Storage) => {
+    const entries: { [key: string]: string } = {};
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null) {
+        entries[key] = storage.getItem(key) ?? "";
+      }
+    }
+    return entries;
+  };
+
+  const toBase64 = (buffer: ArrayBuffer) => {
+    const bytes = new Uint8Array(buffer);
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  };
+
+  const counts = (snapshot: Snapshot) => ({
+    ...(snapshot.cookies ? { cookies: snapshot.cookies.length } : {}),
+    ...(snapshot.localStorage ? { localStorage: Object.keys(snapshot.localStorage).length } : {}),
+    ...(snapshot.sessionStorage ? { sessionStorage: Object.keys(snapshot.sessionStorage).length } : {}),
+    ...(snapshot.caches ? { caches: snapshot.caches.reduce((total, cache) => total + cache.entries.length, 0) } : {}),
+    ...(snapshot.indexedDB
+      ? {
+          indexedDB: snapshot.indexedDB.reduce(
+            (total, database) => total + database.objectStores.reduce((sum, store) => sum + (store.records?.length ?? 0), 0),
+            0
+          ),
+        }
+      : {}),
+  });
+
+  async function capture(include: StorageType[]): Promise<Snapshot> {
+    const snapshot: Snapshot = { url: window.location.href, createdAt: Date.now() };
+    const skipped: string[] = [];
+
+    for (const [i, type] of include.entries()) {
+      signal?.throwIfAborted();
+      switch (type) {
+        case "cookies":
+          // Read the same way as the cookie adapter's read action, so HttpOnly cookies are out of reach
+          snapshot.cookies = (await readCookies()).map(({ name, value, path, domain, hostOnly, expires, secure, sameSite }) => ({
+            name,
+            value,
+            path,
+            ...(hostOnly ? {} : { domain }),
+            ...(expires !== undefined ? { expires } : {}),
+            ...(secure ? { secure } : {}),
+            ...(sameSite ? { sameSite } : {}),
+          }));
+          break;
+        case "localStorage":
+          snapshot.localStorage = readStorage(window.localStorage);
+          break;
+        case "sessionStorage":
+          snapshot.sessionStorage = readStorage(window.sessionStorage);
+          break;
+        case "caches": {
+          if (!("caches" in window)) {
+            skipped.push("caches: Cache Storage API is not available");
+            break;
+          }
+          snapshot.caches = [];
+          for (const cacheName of await caches.keys()) {
+            const cache = await caches.open(cacheName);
+            const entries: CachedResponse[] = [];
+            for (const request of await cache.keys()) {
+              const response = await cache.match(request);
+              if (!response || response.type === "opaque" || response.status === 0) {
+                skipped.push(`caches: ${cacheName} ${request.url} (opaque response)`);
+                continue;
+              }
+              const headers: { [name: string]: string } = {};
+              response.headers.forEach((value, key) => {
+                headers[key] = value;
+              });
+              entries.push({
+                url: request.url,
+                status: response.status,
+                statusText: response.statusText,
+                headers,
+                body: toBase64(await response.arrayBuffer()),
+              });
+            }
+            snapshot.caches.push({ name: cacheName, entries });
+          }
+          break;
+        }
+        case "indexedDB": {
+          if (!("indexedDB" in window) || typeof indexedDB.databases !== "function") {
+            skipped.push("indexedDB: listing databases is not supported in this browser");
+            break;
+          }
+          snapshot.indexedDB = [];
+          for (const { name } of await indexedDB.databases()) {
+            if (!name) {
+              continue;
+            }
+            const database = await exportDatabase(name, { signal });
+            skipped.push(...dropUnserializable(database).map((record) => `indexedDB: ${record}`));
+            snapshot.indexedDB.push(database);
+          }
+          break;
+        }
+      }
+      progress(i + 1, include.length, `Captured ${type}`);
+    }
+
+    if (skipped.length > 0) {
+      snapshot.skipped = skipped;
+    }
+    return snapshot;
+  }
+
+  async function restore(snapshot: Snapshot, include: StorageType[]) {
+    const restored: StorageType[] = [];
+    const skipped: string[] = [];
+    const types = include.filter((type) => snapshot[type] !== undefined);
+
+    for (const [i, type] of types.entries()) {
+      signal?.throwIfAborted();
+      switch (type) {
+        case "cookies": {
+          for (const { name } of await readCookies()) {
+            expireCookie(name);
+          }
+          // Snapshots taken without the Cookie Store API know no paths, so those cookies go back at "/"
+          for (const { name, value, expires, ...options } of snapshot.cookies!) {
+            if (expires !== undefined && expires <= Date.now()) {
+              skipped.push(`cookies: ${name} (expired ${new Date(expires).toISOString()})`);
+              continue;
+            }
+            writeCookie(name, value, { ...options, expires });
+          }
+          break;
+        }
+        case "localStorage":
+        case "sessionStorage": {
+          const storage = type === "localStorage" ? window.localStorage : window.sessionStorage;
+          storage.clear();
+          for (const [key, value] of Object.entries(snapshot[type]!)) {
+            storage.setItem(key, value);
+          }
+          break;
+        }
+        case "caches": {
+          if (!("caches" in window)) {
+            skipped.push("caches: Cache Storage API is not available");
+            continue;
+          }
+          for (const cacheName of await caches.keys()) {
+            await caches.delete(cacheName);
+          }
+          for (const { name, entries } of snapshot.caches!) {
+            const cache = await caches.open(name);
+            for (const entry of entries) {
+              const body = Uint8Array.from(atob(entry.body), (char) => char.charCodeAt(0));
+              // Responses with these statuses must not have a body
+              const nullBody = [101, 204, 205, 304].includes(entry.status);
+              await cache.put(
+                entry.url,
+                new Response(nullBody ? null : body, { status: entry.status, statusText: entry.statusText, headers: entry.headers })
+              );
+            }
+          }
+          break;
+        }
+        case "indexedDB": {
+          if (!("indexedDB" in window) || typeof indexedDB.databases !== "function") {
+            skipped.push("indexedDB: listing databases is not supported in this browser");
+            continue;
+          }
+          const blocked = new Set<string>();
+          for (const { name } of await indexedDB.databases()) {
+            if (!name) {
+              continue;
+            }
+            try {
+              await deleteDatabase(name, { signal, progress });
+            } catch (error) {
+              if (signal?.aborted) {
+                throw error;
+              }
+              blocked.add(name);
+              skipped.push(`indexedDB: ${name} (${error instanceof Error ? error.message : String(error)})`);
+            }
+          }
+          for (const database of snapshot.indexedDB!) {
+            // Opening it would wait behind the pending delete
+            if (!blocked.has(database.name)) {
+              await importDatabase(database, { signal });
+            }
+          }
+          break;
+        }
+      }
+      restored.push(type);
+      progress(i + 1, types.length, `Restored ${type}`);
+    }
+    return { restored, skipped };
+  }
+
+  function diff(before: Snapshot, after: Snapshot) {
+    const changes: Array<{
+      storage: StorageType;
+      scope?: string;
+      key: string;
+      change: "added" | "removed" | "changed";
+      before?: unknown;
+      after?: unknown;
+    }> = [];
+    const compare = (
+      storage: StorageType,
+      scope: string | undefined,
+      from: Map<string, unknown>,
+      to: Map<string, unknown>,
+      withValues: boolean
+    ) => {
+      const where = scope === undefined ? {} : { scope };
+      for (const [key, value] of from) {
+        if (!to.has(key)) {
+          changes.push({ storage, ...where, key, change: "removed", ...(withValues ? { before: value } : {}) });
+        } else if (JSON.stringify(value) !== JSON.stringify(to.get(key))) {
+          changes.push({ storage, ...where, key, change: "changed", ...(withValues ? { before: value, after: to.get(key) } : {}) });
+        }
+      }
+      for (const [key, value] of to) {
+        if (!from.has(key)) {
+          changes.push({ storage, ...where, key, change: "added", ...(withValues ? { after: value } : {}) });
+        }
+      }
+    };
+
+    if (before.cookies && after.cookies) {
+      // Cookies with the same name on different paths are different cookies
+      const cookies = (snapshot: Snapshot) =>
+        new Map<string, unknown>(
+          snapshot.cookies!.map(({ name, value, path }) => [path && path !== "/" ? `${name}; path=${path}` : name, value])
+        );
+      compare("cookies", undefined, cookies(before), cookies(after), true);
+    }
+    for (const type of ["localStorage", "sessionStorage"] as const) {
+      if (before[type] && after[type]) {
+        compare(type, undefined, new Map(Object.entries(before[type]!)), new Map(Object.entries(after[type]!)), true);
+      }
+    }
+    if (before.caches && after.caches) {
+      const responses = (snapshot: Snapshot, cacheName: string) =>
+        new Map<string, unknown>(
+          (snapshot.caches!.find((cache) => cache.name === cacheName)?.entries ?? []).map(({ url, ...response }) => [url, response])
+        );
+      const cacheNames = new Set([...before.caches, ...after.caches].map((cache) => cache.name));
+      for (const cacheName of cacheNames) {
+        compare("caches", cacheName, responses(before, cacheName), responses(after, cacheName), false);
+      }
+    }
+    if (before.indexedDB && after.indexedDB) {
+      const records = (snapshot: Snapshot, databaseName: string, storeName: string) => {
+        const store = snapshot.indexedDB!
+          .find((database) => database.name === databaseName)
+          ?.objectStores.find((objectStore) => objectStore.name === storeName);
+        return new Map<string, unknown>((store?.records ?? []).map(({ key, value }) => [JSON.stringify(key), value]));
+      };
+      const scopes = new Map<string, [string, string]>();
+      for (const database of [...before.indexedDB, ...after.indexedDB]) {
+        for (const store of database.objectStores) {
+          scopes.set(`${database.name}/${store.name}`, [database.name, store.name]);
+        }
+      }
+      for (const [scope, [databaseName, storeName]] of scopes) {
+        compare("indexedDB", scope, records(before, databaseName, storeName), records(after, databaseName, storeName), true);
+      }
+    }
+
+    return {
+      changes,
+      summary: {
+        added: changes.filter(({ change }) => change === "added").length,
+        removed: changes.filter(({ change }) => change === "removed").length,
+        changed: changes.filter(({ change }) => change === "changed").length,
+      },
+    };
+  }
+
+  const loadSnapshot = async (name: string) => (await server["load"]!({ name }))?.["snapshot"] as Snapshot;
+
+  try {
+    const action = params?.action;
+    if (!action) {
+      throw new Error(`Missing required parameter 'action' for storage_snapshot adapter. Received params: ${JSON.stringify(params)}`);
+    }
+    signal?.throwIfAborted();
+
+    const include = params.include?.length ? allTypes.filter((type) => params.include!.includes(type)) : allTypes;
+    let result: unknown;
+
+    switch (action) {
+      case "capture": {
+        if (!params.name) {
+          throw new Error("name is required for capture action");
+        }
+        const snapshot = await capture(include);
+        const saved = await server["save"]!({ name: params.name, snapshot });
+        result = {
+          action: "capture",
+          name: params.name,
+          size: saved?.["size"],
+          counts: counts(snapshot),
+          ...(snapshot.skipped ? { skipped: snapshot.skipped } : {}),
+        };
+        break;
+      }
+      case "list": {
+        result = { action: "list", snapshots: (await server["list"]!())?.["snapshots"] ?? [] };
+        break;
+      }
+      case "diff": {
+        if (!params.from) {
+          throw new Error("from is required for diff action");
+        }
+        const before = await loadSnapshot(params.from);
+        // Compare the current state over the storage types the from snapshot holds
+        const after = params.to
+          ? await loadSnapshot(params.to)
+          : await capture(allTypes.filter((type) => before[type] !== undefined));
+        result = { action: "diff", from: params.from, to: params.to ?? "current", ...diff(before, after) };
+        break;
+      }
+      case "restore": {
+        if (!params.name) {
+          throw new Error("name is required for restore action");
+        }
+        const snapshot = await loadSnapshot(params.name);
+        const { restored, skipped } = await restore(snapshot, include);
+        result = {
+          action: "restore",
+          name: params.name,
+          restored,
+          counts: counts(snapshot),
+          ...(skipped.length > 0 ? { skipped } : {}),
+        };
+        break;
+      }
+      default:
+        throw new Error(`Unknown storage_snapshot action: ${action}`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(result),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
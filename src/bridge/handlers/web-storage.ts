@@ -0,0 +1,513 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+type Encoding = "json" | "base64" | "lz-string" | "lz-string-base64" | "lz-string-uri" | "lz-string-utf16" | "text";
+type DecodedValue = { encoding: Encoding; decoded: unknown; json: boolean };
+type Segment = { name: string } | { index: number } | { wildcard: true };
+
+// The lz-string formats (https://github.com/pieroxy/lz-string)
+const BASE64_KEYS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=";
+const URI_KEYS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+-$";
+const MAX_DECOMPRESSED_LENGTH = 10_000_000;
+
+const compress = (input: string, bitsPerChar: number, charFromInt: (code: number) => string): string => {
+  const dictionary = new Map<string, number>();
+  const pending = new Set<string>();
+  const output: string[] = [];
+  let w = "";
+  let enlargeIn = 2;
+  let dictSize = 3;
+  let numBits = 2;
+  let buffer = 0;
+  let position = 0;
+
+  const write = (value: number, count: number) => {
+    for (let i = 0; i < count; i++) {
+      buffer = (buffer << 1) | (value & 1);
+      value >>= 1;
+      if (position === bitsPerChar - 1) {
+        position = 0;
+        output.push(charFromInt(buffer));
+        buffer = 0;
+      } else {
+        position++;
+      }
+    }
+  };
+  const grow = () => {
+    enlargeIn--;
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  };
+  const emit = (phrase: string) => {
+    if (pending.has(phrase)) {
+      const code = phrase.charCodeAt(0);
+      write(code < 256 ? 0 : 1, numBits);
+      write(code, code < 256 ? 8 : 16);
+      grow();
+      pending.delete(phrase);
+    } else {
+      write(dictionary.get(phrase)!, numBits);
+    }
+    grow();
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input.charAt(i);
+    if (!dictionary.has(c)) {
+      dictionary.set(c, dictSize++);
+      pending.add(c);
+    }
+    if (dictionary.has(w + c)) {
+      w += c;
+    } else {
+      emit(w);
+      dictionary.set(w + c, dictSize++);
+      w = c;
+    }
+  }
+  if (w !== "") {
+    emit(w);
+  }
+  write(2, numBits);
+  for (;;) {
+    buffer <<= 1;
+    if (position === bitsPerChar - 1) {
+      output.push(charFromInt(buffer));
+      break;
+    }
+    position++;
+  }
+  return output.join("");
+};
+
+const decompress = (length: number, resetValue: number, valueAt: (index: number) => number): string | null => {
+  let current = valueAt(0);
+  let position = resetValue;
+  let index = 1;
+  const read = (count: number) => {
+    let bits = 0;
+    for (let power = 1; power < 2 ** count; power *= 2) {
+      const bit = current & position;
+      position >>= 1;
+      if (position === 0) {
+        position = resetValue;
+        current = valueAt(index++);
+      }
+      if (bit > 0) {
+        bits += power;
+      }
+    }
+    return bits;
+  };
+
+  const first = read(2);
+  if (first === 2) {
+    return "";
+  }
+  if (first === 3) {
+    return null;
+  }
+  let w = String.fromCharCode(read(first === 0 ? 8 : 16));
+  const dictionary = ["", "", "", w];
+  const output = [w];
+  let outputLength = w.length;
+  let enlargeIn = 4;
+  let numBits = 3;
+
+  for (;;) {
+    if (index > length) {
+      return "";
+    }
+    let code = read(numBits);
+    if (code === 2) {
+      return output.join("");
+    }
+    if (code < 2) {
+      dictionary.push(String.fromCharCode(read(code === 0 ? 8 : 16)));
+      code = dictionary.length - 1;
+      enlargeIn--;
+    }
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+
+    let entry = dictionary[code];
+    if (!entry) {
+      if (code !== dictionary.length) {
+        return null;
+      }
+      entry = w + w.charAt(0);
+    }
+    outputLength += entry.length;
+    if (outputLength > MAX_DECOMPRESSED_LENGTH) {
+      return null;
+    }
+    output.push(entry);
+    dictionary.push(w + entry.charAt(0));
+    w = entry;
+    enlargeIn--;
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  }
+};
+
+const lzFormats: Array<{
+  encoding: Encoding;
+  matches: (value: string) => boolean;
+  decompress: (value: string) => string | null;
+  compress: (text: string) => string;
+}> = [
+  {
+    encoding: "lz-string-base64",
+    matches: (value) => /^[A-Za-z0-9+/]+=*$/.test(value) && value.length % 4 === 0,
+    decompress: (value) => decompress(value.length, 32, (i) => BASE64_KEYS.indexOf(value.charAt(i))),
+    compress: (text) => {
+      const output = compress(text, 6, (code) => BASE64_KEYS.charAt(code));
+      return output + "===".slice(0, (4 - (output.length % 4)) % 4);
+    },
+  },
+  {
+    encoding: "lz-string-uri",
+    matches: (value) => /^[A-Za-z0-9+\-$ ]+$/.test(value),
+    decompress: (value) => {
+      const input = value.replace(/ /g, "+");
+      return decompress(input.length, 32, (i) => URI_KEYS.indexOf(input.charAt(i)));
+    },
+    compress: (text) => compress(text, 6, (code) => URI_KEYS.charAt(code)),
+  },
+  {
+    encoding: "lz-string-utf16",
+    matches: (value) => value.endsWith(" "),
+    decompress: (value) => decompress(value.length, 16384, (i) => value.charCodeAt(i) - 32),
+    compress: (text) => compress(text, 15, (code) => String.fromCharCode(code + 32)) + " ",
+  },
+  {
+    encoding: "lz-string",
+    matches: () => true,
+    decompress: (value) => decompress(value.length, 32768, (i) => value.charCodeAt(i)),
+    compress: (text) => compress(text, 16, (code) => String.fromCharCode(code)),
+  },
+];
+
+const parseJson = (text: string): { value: unknown } | undefined => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+};
+
+const fromBase64 = (text: string): string | undefined => {
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(text) || text.length % 4 !== 0) {
+    return undefined;
+  }
+  try {
+    const bytes = Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return undefined;
+  }
+};
+
+const toBase64 = (text: string): string =>
+  btoa(Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join(""));
+
+// Decoding never fails: a value that isn't in the requested encoding comes back as "text".
+// In auto mode, base64 and lz-string are only trusted when they unwrap to a JSON object or
+// array, since short plain strings often happen to be valid base64 or lz-string input too
+const decodeValue = (value: string, mode: "auto" | "json" | "base64" | "lz-string"): DecodedValue => {
+  const text: DecodedValue = { encoding: "text", decoded: value, json: false };
+  const auto = mode === "auto";
+  const unwrap = (encoding: Encoding, inner: string): DecodedValue | undefined => {
+    const parsed = parseJson(inner);
+    if (parsed && (!auto || (parsed.value !== null && typeof parsed.value === "object"))) {
+      return { encoding, decoded: parsed.value, json: true };
+    }
+    return auto ? undefined : { encoding, decoded: inner, json: false };
+  };
+
+  if (auto || mode === "json") {
+    const parsed = parseJson(value);
+    if (parsed) {
+      return { encoding: "json", decoded: parsed.value, json: true };
+    }
+    if (!auto) {
+      return text;
+    }
+  }
+  if (auto || mode === "base64") {
+    const inner = fromBase64(value);
+    const decoded = inner === undefined ? undefined : unwrap("base64", inner);
+    if (decoded || !auto) {
+      return decoded ?? text;
+    }
+  }
+
+  let fallback: DecodedValue | undefined;
+  for (const format of lzFormats) {
+    if (!value || !format.matches(value)) {
+      continue;
+    }
+    const inner = format.decompress(value);
+    if (!inner) {
+      continue;
+    }
+    const decoded = unwrap(format.encoding, inner);
+    if (decoded?.json) {
+      return decoded;
+    }
+    fallback ??= decoded;
+  }
+  return fallback ?? text;
+};
+
+const encodeValue = (value: unknown, encoding: Encoding): string => {
+  const json = JSON.stringify(value);
+  if (encoding === "base64") {
+    return toBase64(json);
+  }
+  const format = lzFormats.find((candidate) => candidate.encoding === encoding);
+  return format ? format.compress(json) : json;
+};
+
+// JSONPath subset: $, .name, ['name'], [0], [-1], .* and [*]; the leading $ is optional
+const parseQuery = (query: string): Segment[] => {
+  const segments: Segment[] = [];
+  let rest = query.trim();
+  if (rest.startsWith("$")) {
+    rest = rest.slice(1);
+  } else if (rest && !rest.startsWith(".") && !rest.startsWith("[")) {
+    rest = `.${rest}`;
+  }
+  while (rest) {
+    const match = /^(?:\.(\*|[^.[\]]+)|\[\s*(?:(\*)|(-?\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\])/.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid query "${query}" at "${rest}": use a JSONPath like $.user.items[0].name or $.items[*].id`);
+    }
+    const [token, dotted, star, index, single, double] = match;
+    if (dotted === "*" || star) {
+      segments.push({ wildcard: true });
+    } else if (index !== undefined) {
+      segments.push({ index: Number(index) });
+    } else {
+      segments.push({ name: dotted ?? (single ?? double ?? "").replace(/\\(.)/g, "$1") });
+    }
+    rest = rest.slice(token.length);
+  }
+  return segments;
+};
+
+const runQuery = (value: unknown, segments: Segment[]): unknown[] =>
+  segments.reduce<unknown[]>(
+    (nodes, segment) =>
+      nodes.flatMap((node) => {
+        if (node === null || typeof node !== "object") {
+          return [];
+        }
+        if ("wildcard" in segment) {
+          return Object.values(node);
+        }
+        if ("index" in segment) {
+          const position = segment.index < 0 && Array.isArray(node) ? node.length + segment.index : segment.index;
+          return Array.isArray(node) && position >= 0 && position < node.length ? [node[position]] : [];
+        }
+        return Object.prototype.hasOwnProperty.call(node, segment.name)
+          ? [(node as { [name: string]: unknown })[segment.name]]
+          : [];
+      }),
+    [value]
+  );
+
+// JSON merge patch (RFC 7386): objects merge recursively, null removes a member and
+// anything else, arrays included, replaces the target
+const mergePatch = (target: unknown, patch: unknown): unknown => {
+  if (patch === null || typeof patch !== "object" || Array.isArray(patch)) {
+    return patch;
+  }
+  const merged: { [name: string]: unknown } =
+    target !== null && typeof target === "object" && !Array.isArray(target)
+      ? { ...(target as { [name: string]: unknown }) }
+      : {};
+  for (const [name, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete merged[name];
+    } else {
+      merged[name] = mergePatch(merged[name], value);
+    }
+  }
+  return merged;
+};
+
+type WebStorageName = "localStorage" | "sessionStorage";
+
+/** Browser handler of the local_storage or session_storage adapter, which differ only in the storage they use */
+export function createWebStorageHandler(storageName: WebStorageName) {
+  const adapterName = storageName === "localStorage" ? "local_storage" : "session_storage";
+
+  return async function (params?: {
+    action?: "read" | "get" | "set" | "edit" | "patch" | "remove" | "clear";
+    key?: string;
+    value?: string;
+    decode?: "auto" | "json" | "base64" | "lz-string";
+    query?: string;
+    patch?: unknown;
+  }): Promise<CallToolResult> {
+    if (typeof window === "undefined") {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ error: "Not available in server environment" }),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    try {
+      const action = params?.action;
+      if (!action) {
+        throw new Error(`Missing required parameter 'action' for ${adapterName} adapter. Received params: ${JSON.stringify(params)}`);
+      }
+      const storage = storageName === "localStorage" ? localStorage : sessionStorage;
+
+      const query = params?.query;
+      const decode = params?.decode ?? (query !== undefined ? "auto" : undefined);
+      const segments = query !== undefined ? parseQuery(query) : undefined;
+      const describe = (value: string) => {
+        if (!decode) {
+          return {};
+        }
+        const { encoding, decoded } = decodeValue(value, decode);
+        return { encoding, decoded, ...(segments ? { queryResult: runQuery(decoded, segments) } : {}) };
+      };
+
+      let result: unknown;
+
+      switch (action) {
+        case "read": {
+          const items = Object.keys(storage).map((key) => {
+            const value = storage.getItem(key) ?? "";
+            return {
+              key,
+              value,
+              size: new Blob([value]).size,
+              ...describe(value),
+            };
+          });
+          const totalSize = items.reduce((sum, item) => sum + (item.size || 0), 0);
+          result = {
+            action: "read",
+            items,
+            totalSize,
+            itemCount: items.length,
+          };
+          break;
+        }
+        case "get": {
+          const value = storage.getItem(params.key!);
+          result = {
+            action: "get",
+            value: value,
+            key: params.key,
+            size: value ? new Blob([value]).size : 0,
+            ...(value !== null ? describe(value) : {}),
+          };
+          break;
+        }
+        case "set": {
+          storage.setItem(params.key!, params.value!);
+          result = {
+            action: "set",
+            success: true,
+            key: params.key,
+            value: params.value,
+            size: new Blob([params.value!]).size,
+          };
+          break;
+        }
+        case "edit": {
+          storage.setItem(params.key!, params.value!);
+          result = {
+            action: "edit",
+            success: true,
+            key: params.key,
+            value: params.value,
+            size: new Blob([params.value!]).size,
+          };
+          break;
+        }
+        case "patch": {
+          if (params.patch === undefined) {
+            throw new Error("Missing required parameter 'patch' for patch action");
+          }
+          const current = storage.getItem(params.key!);
+          const { encoding, decoded, json }: DecodedValue =
+            current === null ? { encoding: "json", decoded: null, json: true } : decodeValue(current, params.decode ?? "auto");
+          if (!json) {
+            throw new Error(`Value of "${params.key}" is not JSON and can't be patched; use edit to replace it`);
+          }
+          const patched = mergePatch(decoded, params.patch);
+          const value = encodeValue(patched, encoding);
+          storage.setItem(params.key!, value);
+          result = {
+            action: "patch",
+            success: true,
+            key: params.key,
+            value,
+            encoding,
+            decoded: patched,
+            size: new Blob([value]).size,
+          };
+          break;
+        }
+        case "remove": {
+          const existed = storage.getItem(params.key!) !== null;
+          storage.removeItem(params.key!);
+          result = {
+            action: "remove",
+            success: existed,
+            key: params.key,
+          };
+          break;
+        }
+        case "clear": {
+          const count = storage.length;
+          storage.clear();
+          result = {
+            action: "clear",
+            success: true,
+            itemCount: count,
+          };
+          break;
+        }
+        default:
+          throw new Error(`Unknown ${storageName} action: ${action}`);
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(result),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+          },
+        ],
+        isError: true,
+      };
+    }
+  };
+}
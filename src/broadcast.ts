@@ -0,0 +1,171 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { AdapterDefinition } from "./adapter/types.js";
+import type { BridgeClientInfo } from "./client-registry.js";
+import type { ServerToolDefinition } from "./server.js";
+
+export const BROADCAST_TIMEOUT_MS = 10000;
+
+export type ClientCallOutcome =
+  | { client: BridgeClientInfo; durationMs: number; status: "ok" | "error"; result: CallToolResult }
+  | { client: BridgeClientInfo; durationMs: number; status: "error"; error: string }
+  | { client: BridgeClientInfo; durationMs: number; status: "timeout" };
+
+const clientOutcomeSchema = z.object({
+  status: z.enum(["ok", "error", "timeout"]).describe("Whether the tab answered, failed or missed the deadline"),
+  url: z.string().describe("Page URL of the tab"),
+  title: z.string().describe("Document title of the tab"),
+  durationMs: z.number().describe("Time until the tab answered, or the deadline for timeouts"),
+  result: z.unknown().optional().describe("Tool result from the tab (for ok status)"),
+  error: z.string().optional().describe("Error reported by the tab (for error status)"),
+});
+
+export const broadcastInputSchema = z.object({
+  tool: z.string().describe("Name of the adapter tool to run in every tab"),
+  params: z.record(z.string(), z.unknown()).optional().describe("Arguments for the adapter tool"),
+  timeout: z
+    .coerce
+    .number()
+    .min(100)
+    .optional()
+    .describe(`Milliseconds to wait for all tabs to answer (default: ${BROADCAST_TIMEOUT_MS})`),
+});
+
+export const broadcastOutputSchema = z.object({
+  tool: z.string().describe("The adapter tool that was run"),
+  clients: z.record(z.string(), clientOutcomeSchema).describe("Per-tab results keyed by client id"),
+  summary: z
+    .object({
+      total: z.number().describe("Number of tabs the call was sent to"),
+      ok: z.number().describe("Number of tabs that answered successfully"),
+      error: z.number().describe("Number of tabs that reported an error"),
+      timeout: z.number().describe("Number of tabs that did not answer before the deadline"),
+    })
+    .describe("Outcome counts"),
+});
+
+function readResultValue(result: CallToolResult): unknown {
+  if (result.structuredContent) {
+    return result.structuredContent;
+  }
+  const first = result.content?.[0];
+  if (first?.type !== "text") {
+    return result.content;
+  }
+  try {
+    return JSON.parse(first.text);
+  } catch {
+    return first.text;
+  }
+}
+
+function readResultError(result: CallToolResult): string {
+  const value = readResultValue(result);
+  if (value && typeof value === "object" && "error" in value) {
+    return String((value as { error: unknown }).error);
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Merge the per-tab outcomes of a broadcast call into one result keyed by client id.
+ */
+export function combineClientResults(
+  tool: string,
+  outcomes: ClientCallOutcome[]
+): CallToolResult {
+  const clients: Record<string, z.infer<typeof clientOutcomeSchema>> = {};
+  const summary = { total: outcomes.length, ok: 0, error: 0, timeout: 0 };
+
+  for (const outcome of outcomes) {
+    const { client, durationMs } = outcome;
+    const base = { url: client.url, title: client.title, durationMs };
+
+    if (outcome.status === "timeout") {
+      clients[client.clientId] = { ...base, status: "timeout" };
+      summary.timeout++;
+    } else if ("error" in outcome) {
+      clients[client.clientId] = { ...base, status: "error", error: outcome.error };
+      summary.error++;
+    } else if (outcome.result.isError) {
+      clients[client.clientId] = { ...base, status: "error", error: readResultError(outcome.result) };
+      summary.error++;
+    } else {
+      clients[client.clientId] = { ...base, status: "ok", result: readResultValue(outcome.result) };
+      summary.ok++;
+    }
+  }
+
+  const combined = { tool, clients, summary };
+
+  return {
+    structuredContent: combined,
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(combined),
+      },
+    ],
+  };
+}
+
+export function createBroadcastTool(
+  adapters: readonly AdapterDefinition[],
+  dispatch: (
+    name: string,
+    params: { [key: string]: unknown },
+    timeout: number,
+    signal?: AbortSignal
+  ) => Promise<CallToolResult>
+): ServerToolDefinition {
+  return {
+    name: "broadcast",
+    description: `Run an adapter tool in every connected browser tab and return the results keyed by client id. Available tools: ${adapters
+      .map(({ name }) => name)
+      .join(", ")}`,
+    inputSchema: broadcastInputSchema,
+    outputSchema: broadcastOutputSchema,
+    handler: async (input, context): Promise<CallToolResult> => {
+      const { tool, params, timeout } = input as z.infer<typeof broadcastInputSchema>;
+      const adapter = adapters.find(({ name }) => name === tool);
+
+      if (!adapter) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ error: `Adapter not found: ${tool}` }),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const parseResult = adapter.inputSchema.safeParse(params ?? {});
+      if (!parseResult.success) {
+        const errorMessages = parseResult.error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? issue.path.join(".") : "root";
+          return `${path}: ${issue.message}`;
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                error: `Invalid params for adapter ${tool}: ${errorMessages.join(", ")}`,
+              }),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return await dispatch(
+        tool,
+        parseResult.data as { [key: string]: unknown },
+        timeout ?? BROADCAST_TIMEOUT_MS,
+        context?.signal
+      );
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { runReplay, REPLAY_USAGE } from "./replay.js";
+import { runStdio, STDIO_USAGE } from "./stdio.js";
+
+const USAGE = `Usage: vite-mcp <command> [options]
+
+Commands:
+  stdio    Proxy MCP over stdio to a Vite dev server running the plugin
+  replay   Re-run tool calls recorded in the audit log
+
+${STDIO_USAGE}
+
+${REPLAY_USAGE}`;
+
+async function main(argv: string[]) {
+  const [command, ...args] = argv;
+
+  if (!command || command === "-h" || command === "--help") {
+    process.stderr.write(`${USAGE}\n`);
+    process.exit(command ? 0 : 1);
+  }
+
+  switch (command) {
+    case "stdio":
+      if (args.includes("-h") || args.includes("--help")) {
+        process.stderr.write(`${STDIO_USAGE}\n`);
+        process.exit(0);
+      }
+      await runStdio(args);
+      break;
+    case "replay":
+      if (args.includes("-h") || args.includes("--help")) {
+        process.stderr.write(`${REPLAY_USAGE}\n`);
+        process.exit(0);
+      }
+      await runReplay(args);
+      break;
+    default:
+      process.stderr.write(`Unknown command: ${command}\n\n${USAGE}\n`);
+      process.exit(1);
+  }
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  process.stderr.write(`[vite-mcp] ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,169 @@
+import type { WebSocketClient } from "vite";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { ServerToolDefinition } from "./server.js";
+
+export interface BridgeClientInfo {
+  clientId: string;
+  url: string;
+  title: string;
+  visibility: string;
+  connectedAt: number;
+  lastActiveAt: number;
+}
+
+export interface BridgeClient {
+  info: BridgeClientInfo;
+  socket: WebSocketClient;
+}
+
+export interface BridgeReadyMessage {
+  clientId?: string;
+  url?: string;
+  title?: string;
+  visibility?: string;
+}
+
+/**
+ * Tracks the browser tabs whose bridge announced itself with `mcp:bridge-ready`,
+ * so tool calls can be sent to exactly one HMR socket.
+ */
+export class ClientRegistry {
+  private clients = new Map<string, BridgeClient>();
+
+  register(socket: WebSocketClient, message: BridgeReadyMessage): BridgeClientInfo | undefined {
+    if (!message?.clientId) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const info: BridgeClientInfo = {
+      clientId: message.clientId,
+      url: message.url ?? "",
+      title: message.title ?? "",
+      visibility: message.visibility ?? "visible",
+      connectedAt: now,
+      lastActiveAt: now,
+    };
+
+    this.clients.set(info.clientId, { info, socket });
+    return info;
+  }
+
+  update(message: BridgeReadyMessage): void {
+    const client = message?.clientId ? this.clients.get(message.clientId) : undefined;
+    if (!client) {
+      return;
+    }
+
+    if (message.url !== undefined) client.info.url = message.url;
+    if (message.title !== undefined) client.info.title = message.title;
+    if (message.visibility !== undefined) {
+      client.info.visibility = message.visibility;
+      if (message.visibility === "visible") {
+        client.info.lastActiveAt = Date.now();
+      }
+    }
+  }
+
+  /**
+   * Drop clients whose socket is no longer connected to the dev server.
+   */
+  prune(connected: Set<WebSocketClient>): void {
+    for (const [clientId, client] of this.clients) {
+      if (!connected.has(client.socket)) {
+        this.clients.delete(clientId);
+      }
+    }
+  }
+
+  get(clientId: string): BridgeClient | undefined {
+    return this.clients.get(clientId);
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  all(): BridgeClient[] {
+    return Array.from(this.clients.values());
+  }
+
+  list(): BridgeClientInfo[] {
+    return Array.from(this.clients.values(), ({ info }) => ({ ...info }));
+  }
+
+  /**
+   * The client a call goes to when no `clientId` is given: the most recently
+   * active visible tab, falling back to the most recently active tab.
+   */
+  pickDefault(): BridgeClient | undefined {
+    let best: BridgeClient | undefined;
+    for (const client of this.clients.values()) {
+      if (!best) {
+        best = client;
+        continue;
+      }
+      const isVisible = client.info.visibility === "visible";
+      const bestIsVisible = best.info.visibility === "visible";
+      if (isVisible !== bestIsVisible) {
+        if (isVisible) best = client;
+        continue;
+      }
+      if (client.info.lastActiveAt > best.info.lastActiveAt) {
+        best = client;
+      }
+    }
+    return best;
+  }
+}
+
+export const listClientsInputSchema = z.object({});
+
+export const listClientsOutputSchema = z.object({
+  clients: z
+    .array(
+      z.object({
+        clientId: z.string().describe("Client id to pass as `clientId` to other tools"),
+        url: z.string().describe("Current page URL of the tab"),
+        title: z.string().describe("Document title of the tab"),
+        visibility: z.string().describe("Document visibility state (visible, hidden)"),
+        connectedAt: z.number().describe("Timestamp when the bridge connected"),
+        lastActiveAt: z.number().describe("Timestamp when the tab was last visible"),
+        default: z.boolean().describe("Whether calls without a clientId go to this tab"),
+      })
+    )
+    .describe("Connected browser tabs"),
+  count: z.number().describe("Number of connected browser tabs"),
+});
+
+export function createListClientsTool(
+  getRegistry: () => ClientRegistry
+): ServerToolDefinition {
+  return {
+    name: "list_clients",
+    description:
+      "List the browser tabs connected to the dev server. Pass a clientId to any other tool to target a specific tab.",
+    inputSchema: listClientsInputSchema,
+    outputSchema: listClientsOutputSchema,
+    handler: async (): Promise<CallToolResult> => {
+      const registry = getRegistry();
+      const defaultClientId = registry.pickDefault()?.info.clientId;
+      const clients = registry.list().map((info) => ({
+        ...info,
+        default: info.clientId === defaultClientId,
+      }));
+      const result = { clients, count: clients.length };
+
+      return {
+        structuredContent: result,
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result),
+          },
+        ],
+      };
+    },
+  };
+}
@@ -0,0 +1,162 @@
+export type ConfirmDecision = "approved" | "denied" | "timeout";
+
+export interface ConfirmRequest {
+  tool: string;
+  action: string;
+  params?: { [key: string]: unknown };
+  timeout: number;
+  /** Withdraws the request, e.g. when the MCP client cancels the call */
+  signal?: AbortSignal;
+}
+
+/**
+ * Web component factory for the `mcp-confirm-element` overlay that asks the
+ * developer to approve an adapter action. Requests are queued and shown one
+ * at a time; each is denied automatically when its timeout runs out.
+ * Serialized into the bridge module, so it must stay self-contained.
+ */
+export function confirmOverlayComponent(Base: typeof HTMLElement): CustomElementConstructor {
+  type Pending = ConfirmRequest & { resolve: (decision: ConfirmDecision) => void };
+
+  return class McpConfirmElement extends Base {
+    private queue: Pending[] = [];
+    private timer: ReturnType<typeof setInterval> | undefined;
+
+    connectedCallback() {
+      // Screenshots and DOM snapshots leave the overlay out
+      this.setAttribute("data-mcp-ignore", "");
+      if (!this.shadowRoot) {
+        this.attachShadow({ mode: "open" });
+      }
+      this.render();
+    }
+
+    request(request: ConfirmRequest): Promise<ConfirmDecision> {
+      return new Promise<ConfirmDecision>((resolve) => {
+        if (request.signal?.aborted) {
+          resolve("denied");
+          return;
+        }
+        const pending: Pending = { ...request, resolve };
+        this.queue.push(pending);
+        request.signal?.addEventListener(
+          "abort",
+          () => {
+            const index = this.queue.indexOf(pending);
+            if (index === -1) {
+              return;
+            }
+            this.queue.splice(index, 1);
+            resolve("denied");
+            if (index === 0) {
+              this.render();
+            }
+          },
+          { once: true }
+        );
+        if (this.queue.length === 1) {
+          this.render();
+        }
+      });
+    }
+
+    private decide(decision: ConfirmDecision) {
+      const current = this.queue.shift();
+      current?.resolve(decision);
+      this.render();
+    }
+
+    private render() {
+      const root = this.shadowRoot;
+      if (this.timer !== undefined) {
+        clearInterval(this.timer);
+        this.timer = undefined;
+      }
+      if (!root) {
+        return;
+      }
+      root.replaceChildren();
+
+      const current = this.queue[0];
+      if (!current) {
+        return;
+      }
+
+      const style = document.createElement("style");
+      style.textContent = `
+        .backdrop { position: fixed; inset: 0; z-index: 2147483647; display: flex; align-items: center; justify-content: center; background: rgba(15, 23, 42, 0.45); font: 14px/1.5 system-ui, sans-serif; }
+        .dialog { width: min(480px, calc(100vw - 32px)); padding: 20px; border-radius: 10px; background: #fff; color: #0f172a; box-shadow: 0 20px 50px rgba(0, 0, 0, 0.3); }
+        h2 { margin: 0 0 8px; font-size: 16px; }
+        code { padding: 1px 4px; border-radius: 4px; background: #f1f5f9; }
+        pre { max-height: 200px; overflow: auto; margin: 12px 0; padding: 8px; border-radius: 6px; background: #f1f5f9; font-size: 12px; white-space: pre-wrap; word-break: break-all; }
+        .footer { display: flex; align-items: center; gap: 8px; margin-top: 16px; }
+        .countdown { flex: 1; color: #64748b; font-size: 12px; }
+        button { padding: 6px 14px; border: 1px solid #cbd5e1; border-radius: 6px; background: #fff; color: inherit; font: inherit; cursor: pointer; }
+        button.approve { border-color: #dc2626; background: #dc2626; color: #fff; }
+      `;
+
+      const title = document.createElement("h2");
+      title.textContent = "Approve MCP action?";
+
+      const summary = document.createElement("div");
+      const name = document.createElement("code");
+      name.textContent = `${current.tool}.${current.action}`;
+      summary.append("An MCP client wants to run ", name, ".");
+
+      const params = document.createElement("pre");
+      const { action: _action, ...rest } = current.params ?? {};
+      let details: string;
+      try {
+        details = JSON.stringify(rest, null, 2);
+      } catch {
+        details = String(rest);
+      }
+      params.textContent = details.length > 2000 ? `${details.slice(0, 2000)}\n...` : details;
+
+      const countdown = document.createElement("span");
+      countdown.className = "countdown";
+      const deadline = Date.now() + current.timeout;
+      const queued = this.queue.length - 1;
+      const updateCountdown = () => {
+        const remaining = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+        countdown.textContent = `Denied automatically in ${remaining}s${queued > 0 ? ` · ${queued} more waiting` : ""}`;
+        if (remaining === 0) {
+          this.decide("timeout");
+        }
+      };
+      updateCountdown();
+      this.timer = setInterval(updateCountdown, 1000);
+
+      const deny = document.createElement("button");
+      deny.textContent = "Deny";
+      deny.addEventListener("click", () => this.decide("denied"));
+
+      const approve = document.createElement("button");
+      approve.className = "approve";
+      approve.textContent = "Approve";
+      approve.addEventListener("click", () => this.decide("approved"));
+
+      const footer = document.createElement("div");
+      footer.className = "footer";
+      footer.append(countdown, deny, approve);
+
+      const dialog = document.createElement("div");
+      dialog.className = "dialog";
+      dialog.setAttribute("role", "alertdialog");
+      dialog.setAttribute("aria-label", "Approve MCP action");
+      dialog.append(title, summary, params, footer);
+      dialog.addEventListener("keydown", (event) => {
+        if (event.key === "Escape") {
+          this.decide("denied");
+        }
+      });
+
+      const backdrop = document.createElement("div");
+      backdrop.className = "backdrop";
+      backdrop.append(dialog);
+
+      root.append(style, backdrop);
+      deny.focus();
+    }
+  };
+}
@@ -1,9 +1,12 @@
 import type { PluginOption, ViteDevServer } from "vite";
 import { existsSync } from "fs";
-import { join } from "path";
+import { join, resolve } from "path";
 import { fileURLToPath } from "url";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { ViteMcpServer } from "./server.js";
+import type { CallToolResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { ViteMcpServer, isMcpRoute, resolveMcpRoutes } from "./server.js";
+import type { McpRoutes, ToolCallContext } from "./server.js";
+import { isNetworkHost, resolveMcpAuth } from "./auth.js";
+import type { McpAuthOptions } from "./auth.js";
 import {
   consoleAdapter,
   cookieAdapter,
@@ -14,15 +17,46 @@ import {
   testSimpleAdapter,
   performanceAdapter,
   componentTreeAdapter,
+  networkAdapter,
+  domAdapter,
+  interactAdapter,
+  screenshotAdapter,
+  serviceWorkerAdapter,
+  storageSnapshotAdapter,
 } from "./adapter/index.js";
-import type { AdapterDefinition } from "./adapter/types.js";
-
-export type { AdapterDefinition };
+import {
+  installNetworkCapture,
+  NETWORK_MAX_BODY_SIZE,
+  NETWORK_MAX_ENTRIES,
+  NETWORK_MAX_MESSAGES,
+} from "./adapter/network.js";
+import type { AdapterDefinition, AdapterResource, BrowserHandlers } from "./adapter/types.js";
+import { BUILTIN_BROWSER_ENTRY } from "./adapter/builtin.js";
+
+export type { AdapterDefinition, AdapterResource, BrowserHandlers };
+export type { Handler, ServerMethods } from "./bridge/bridge.js";
+export type { PromptArgument, PromptContext, PromptDefinition } from "./prompts.js";
+export type { McpRoutes } from "./server.js";
+export type { McpAuthOptions } from "./auth.js";
 import { Deferred } from "./utils.js";
-import { mcpBridge } from "./bridge/bridge.js";
+import { mcpBridge, resolveBrowserHandler } from "./bridge/bridge.js";
+import type { ServerMethods } from "./bridge/bridge.js";
+import { ClientRegistry, createListClientsTool } from "./client-registry.js";
+import type { BridgeReadyMessage } from "./client-registry.js";
+import { BROADCAST_TIMEOUT_MS, combineClientResults, createBroadcastTool } from "./broadcast.js";
+import type { ClientCallOutcome } from "./broadcast.js";
+import { StackMapper, mapConsoleResult } from "./source-map.js";
+import { builtinPrompts } from "./prompts.js";
+import { confirmOverlayComponent } from "./confirm-overlay.js";
+import { AUDIT_LOG_FILE, AuditLog, createHistoryTool } from "./audit-log.js";
+import type { AuditCall } from "./audit-log.js";
+import { SNAPSHOT_DIR, SnapshotStore, createSnapshotServerMethods } from "./snapshot-store.js";
+import type { PromptContext, PromptDefinition } from "./prompts.js";
 import { z } from "zod";
 
 const PACKAGE_VERSION = "0.1.2";
+const TOOL_CALL_TIMEOUT_MS = 60000;
+const CONFIRM_TIMEOUT_MS = 30000;
 
 if (typeof z === "undefined") {
   throw new Error("zod is not available. Please ensure zod is installed.");
@@ -35,40 +69,57 @@ const DIST_DIR = join(__dirname, "..", "dist");
 const BRIDGE_PATH = "/@vite-mcp/bridge.js";
 const VIRTUAL_MCP_ID = "virtual:mcp";
 const RESOLVED_BRIDGE_ID = "\0vite-mcp-bridge";
-const MCP_PATH = "/__mcp";
-const MCP_JSONRPC_PATH = "/_mcp";
-const MCP_SSE_PATH = "/__mcp/sse";
+
+/**
+ * `true` allows the actions, `false` removes them from the tool, and "confirm"
+ * asks the developer to approve each call in the browser.
+ */
+export type AdapterPermission = boolean | "confirm";
+
+type ActionPermissions = { read?: AdapterPermission; write?: AdapterPermission; delete?: AdapterPermission };
 
 export interface ViteMcpAdapterConfig {
   cookies?: {
     enabled?: boolean;
-    read?: boolean;
-    write?: boolean;
-    delete?: boolean;
+    read?: AdapterPermission;
+    write?: AdapterPermission;
+    delete?: AdapterPermission;
   };
   localStorage?: {
     enabled?: boolean;
-    read?: boolean;
-    write?: boolean;
-    delete?: boolean;
+    read?: AdapterPermission;
+    write?: AdapterPermission;
+    delete?: AdapterPermission;
   };
   sessionStorage?: {
     enabled?: boolean;
-    read?: boolean;
-    write?: boolean;
-    delete?: boolean;
+    read?: AdapterPermission;
+    write?: AdapterPermission;
+    delete?: AdapterPermission;
   };
   cache?: {
     enabled?: boolean;
-    read?: boolean;
-    write?: boolean;
-    delete?: boolean;
+    read?: AdapterPermission;
+    write?: AdapterPermission;
+    delete?: AdapterPermission;
   };
   indexedDB?: {
     enabled?: boolean;
-    read?: boolean;
-    write?: boolean;
-    delete?: boolean;
+    read?: AdapterPermission;
+    write?: AdapterPermission;
+    delete?: AdapterPermission;
+  };
+  serviceWorker?: {
+    enabled?: boolean;
+    read?: AdapterPermission;
+    write?: AdapterPermission;
+    delete?: AdapterPermission;
+  };
+  storageSnapshot?: {
+    enabled?: boolean;
+    read?: AdapterPermission;
+    write?: AdapterPermission;
+    delete?: AdapterPermission;
   };
 }
 
@@ -78,6 +129,8 @@ type AdapterNameToConfigKey<T extends string> =
   T extends "session_storage" ? 'sessionStorage' :
   T extends "cache" ? 'cache' :
   T extends "indexed_db" ? 'indexedDB' :
+  T extends "service_worker" ? 'serviceWorker' :
+  T extends "storage_snapshot" ? 'storageSnapshot' :
   never;
 
 // Get all config keys from adapters (as a union)
@@ -106,14 +159,56 @@ export interface ViteMcpOptions<
   adapterConfig?: ConditionalAdapterConfig<TAdapters>;
   transformModule?: RegExp;
   endpoint?: string;
+  /** Overrides for the routes derived from `endpoint` */
+  routes?: Partial<Omit<McpRoutes, "endpoint">>;
   name?: string;
+  auth?: McpAuthOptions;
   disableConsoleCapture?: boolean;
+  disableNetworkCapture?: boolean;
+  prompts?: PromptDefinition[];
+  /** Milliseconds to wait for the browser to answer a tool call; adapters can set their own `timeout` (default: 60000) */
+  timeout?: number;
+  /** Milliseconds a tool call waits for a tab to connect when no bridge is ready (default: 0, fail right away) */
+  waitForBridge?: number;
+  /** How long the browser waits for the developer to approve a "confirm" action, in milliseconds (default: 30000) */
+  confirmTimeout?: number;
+  /** Record every tool call in `<cacheDir>/vite-mcp/audit.jsonl` (default: true) */
+  auditLog?: boolean;
 }
 
 function log(message: string) {
   console.log("[vite-mcp]", message);
 }
 
+/**
+ * Add the optional `clientId` routing argument to an adapter's input schema.
+ * Adapters whose input is not an object schema are left as-is.
+ */
+function withClientIdParam(adapter: AdapterDefinition): AdapterDefinition {
+  if (!(adapter.inputSchema instanceof z.ZodObject)) {
+    return adapter;
+  }
+
+  return {
+    ...adapter,
+    inputSchema: adapter.inputSchema.extend({
+      clientId: z
+        .string()
+        .optional()
+        .describe("Browser tab to run the call in (see list_clients). Defaults to the most recently active tab."),
+    }),
+  };
+}
+
+function resolveBrowserEntry(entry: string, root: string): string {
+  // Relative paths are relative to the Vite root; anything else (absolute paths,
+  // aliases, package names) is left for Vite's resolver
+  if (entry.startsWith("./") || entry.startsWith("../")) {
+    return resolve(root, entry).replace(/\\/g, "/");
+  }
+  return entry;
+}
+
 function registerAndAppendWebComponent(
   name: string,
   componentFactory: (Base: typeof HTMLElement) => CustomElementConstructor
@@ -150,12 +245,12 @@ const ACTION_PERMISSIONS: Record<string, ActionPermissionMap> = {
   },
   local_storage: {
     read: ["read", "get"],
-    write: ["set", "edit"],
+    write: ["set", "edit", "patch"],
     delete: ["remove", "clear"],
   },
   session_storage: {
     read: ["read", "get"],
-    write: ["set", "edit"],
+    write: ["set", "edit", "patch"],
     delete: ["remove", "clear"],
   },
   cache: {
@@ -164,38 +259,59 @@ const ACTION_PERMISSIONS: Record<string, ActionPermissionMap> = {
     delete: ["delete_entry", "delete", "clear"],
   },
   indexed_db: {
-    read: ["list_databases", "get_database_info", "get_keys", "get_entry"],
-    write: ["set_entry"],
-    delete: ["delete_entry", "clear_object_store", "delete_database"],
+    read: ["list_databases", "get_database_info", "get_keys", "query", "get_entry", "export_database"],
+    write: ["set_entry", "batch", "import_database"],
+    delete: ["delete_entry", "batch", "clear_object_store", "delete_database", "import_database"],
+  },
+  service_worker: {
+    read: ["list", "clients"],
+    write: ["update", "skip_waiting"],
+    delete: ["unregister"],
+  },
+  storage_snapshot: {
+    read: ["capture", "list", "diff"],
+    write: ["restore"],
+    delete: ["restore"],
   },
 };
 
+// Actions the bridge should accept for adapters narrowed by restrictAdapter
+const restrictedActions = new WeakMap<AdapterDefinition, string[]>();
+// Actions that wait for the developer's approval in the browser
+const confirmedActions = new WeakMap<AdapterDefinition, string[]>();
+
 function getAllowedActions(
   adapterName: string,
-  permissions: { read?: boolean; write?: boolean; delete?: boolean }
+  permissions: ActionPermissions
 ): string[] {
   const actionMap = ACTION_PERMISSIONS[adapterName];
   if (!actionMap) {
     return [];
   }
 
-  const allowed: string[] = [];
-  if (permissions.read !== false) {
-    allowed.push(...actionMap.read);
-  }
-  if (permissions.write !== false) {
-    allowed.push(...actionMap.write);
-  }
-  if (permissions.delete !== false) {
-    allowed.push(...actionMap.delete);
-  }
+  // An action listed under several categories needs all of them, e.g. a batch that both writes and deletes
+  const categories = ["read", "write", "delete"] as const;
+  const actions = new Set(categories.flatMap((category) => actionMap[category]));
+  return [...actions].filter((action) =>
+    categories.every((category) => !actionMap[category].includes(action) || permissions[category] !== false)
+  );
+}
 
-  return allowed;
+function getConfirmActions(adapterName: string, permissions: ActionPermissions): string[] {
+  const actionMap = ACTION_PERMISSIONS[adapterName];
+  if (!actionMap) {
+    return [];
+  }
+  const actions = (["read", "write", "delete"] as const)
+    .filter((category) => permissions[category] === "confirm")
+    .flatMap((category) => actionMap[category]);
+  const allowed = getAllowedActions(adapterName, permissions);
+  return [...new Set(actions)].filter((action) => allowed.includes(action));
 }
 
 function restrictAdapter(
   adapter: AdapterDefinition,
-  permissions: { read?: boolean; write?: boolean; delete?: boolean }
+  permissions: ActionPermissions
 ): AdapterDefinition {
   const allowedActions = getAllowedActions(adapter.name, permissions);
 
@@ -272,106 +388,37 @@ function restrictAdapter(
     }
   }
 
-  const allowedActionsJson = JSON.stringify(allowedActions);
-  const adapterNameJson = JSON.stringify(adapter.name);
-  const originalHandlerCode = adapter.handler.toString();
-  const adapterServerJson = JSON.stringify(adapter.server || {});
-
-  const restrictedHandler = async function (params?: { [key: string]: unknown }): Promise<CallToolResult> {
-    const action = params?.["action"] as string | undefined;
-
-    if (!action) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              error: `Missing required parameter 'action' for ${adapter.name} adapter`,
-            }),
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    if (!allowedActions.includes(action)) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              error: `Action '${action}' is not allowed for ${adapter.name} adapter with current permissions. Allowed actions: ${allowedActions.join(", ")}`,
-            }),
-          },
-        ],
-        isError: true,
-      };
-    }
-
-    return await adapter.handler.call({ server: adapter.server || {} }, params);
-  };
-
-  restrictedHandler.toString = function () {
-    return `async function(params) {
-  const allowedActions = ${allowedActionsJson};
-  const adapterName = ${adapterNameJson};
-  const originalHandler = ${originalHandlerCode};
-  const adapterServer = ${adapterServerJson};
-  
-  const action = params?.["action"];
-  
-  if (!action) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({
-            error: "Missing required parameter 'action' for " + adapterName + " adapter",
-          }),
-        },
-      ],
-      isError: true,
-    };
-  }
-  
-  if (!allowedActions.includes(action)) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({
-            error: "Action '" + action + "' is not allowed for " + adapterName + " adapter with current permissions. Allowed actions: " + allowedActions.join(", "),
-          }),
-        },
-      ],
-      isError: true,
-    };
-  }
-  
-  return await originalHandler.call({ server: adapterServer }, params);
-}`;
-  };
-
+  const confirmActions = getConfirmActions(adapter.name, permissions);
   const result: AdapterDefinition = {
     ...adapter,
     inputSchema: restrictedInputSchema,
-    handler: restrictedHandler,
-    description: `${adapter.description} (Allowed actions: ${allowedActions.join(", ")})`,
+    description: `${adapter.description} (Allowed actions: ${allowedActions.join(", ")}${
+      confirmActions.length > 0 ? `; the developer must approve ${confirmActions.join(", ")} in the browser` : ""
+    })`,
   };
 
   if (restrictedOutputSchema) {
     result.outputSchema = restrictedOutputSchema;
   }
 
+  restrictedActions.set(result, allowedActions);
+  if (confirmActions.length > 0) {
+    confirmedActions.set(result, confirmActions);
+  }
+
   return result;
 }
 
-function buildAdapters(config?: ViteMcpAdapterConfig): AdapterDefinition[] {
+function buildAdapters(config: ViteMcpAdapterConfig | undefined, snapshotServerMethods: ServerMethods): AdapterDefinition[] {
   const adapters: AdapterDefinition[] = [
     consoleAdapter,
     testSimpleAdapter,
     performanceAdapter,
     componentTreeAdapter,
+    networkAdapter,
+    domAdapter,
+    interactAdapter,
+    screenshotAdapter,
   ];
 
   const defaultConfig: Required<ViteMcpAdapterConfig> = {
@@ -380,6 +427,8 @@ function buildAdapters(config?: ViteMcpAdapterConfig): AdapterDefinition[] {
     sessionStorage: { enabled: true, read: true, write: true, delete: true },
     cache: { enabled: true, read: true, write: true, delete: true },
     indexedDB: { enabled: true, read: true, write: true, delete: true },
+    serviceWorker: { enabled: true, read: true, write: true, delete: true },
+    storageSnapshot: { enabled: true, read: true, write: true, delete: true },
   };
 
   const finalConfig = {
@@ -388,10 +437,12 @@ function buildAdapters(config?: ViteMcpAdapterConfig): AdapterDefinition[] {
     sessionStorage: { ...defaultConfig.sessionStorage, ...(config?.sessionStorage || {}) },
     cache: { ...defaultConfig.cache, ...(config?.cache || {}) },
     indexedDB: { ...defaultConfig.indexedDB, ...(config?.indexedDB || {}) },
+    serviceWorker: { ...defaultConfig.serviceWorker, ...(config?.serviceWorker || {}) },
+    storageSnapshot: { ...defaultConfig.storageSnapshot, ...(config?.storageSnapshot || {}) },
   };
 
   if (finalConfig.cookies.enabled !== false) {
-    const cookiePerms: { read?: boolean; write?: boolean; delete?: boolean } = {};
+    const cookiePerms: ActionPermissions = {};
     if (finalConfig.cookies.read !== undefined) cookiePerms.read = finalConfig.cookies.read;
     if (finalConfig.cookies.write !== undefined) cookiePerms.write = finalConfig.cookies.write;
     if (finalConfig.cookies.delete !== undefined) cookiePerms.delete = finalConfig.cookies.delete;
@@ -399,7 +450,7 @@ function buildAdapters(config?: ViteMcpAdapterConfig): AdapterDefinition[] {
   }
 
   if (finalConfig.localStorage.enabled !== false) {
-    const lsPerms: { read?: boolean; write?: boolean; delete?: boolean } = {};
+    const lsPerms: ActionPermissions = {};
     if (finalConfig.localStorage.read !== undefined) lsPerms.read = finalConfig.localStorage.read;
     if (finalConfig.localStorage.write !== undefined) lsPerms.write = finalConfig.localStorage.write;
     if (finalConfig.localStorage.delete !== undefined) lsPerms.delete = finalConfig.localStorage.delete;
@@ -407,7 +458,7 @@ function buildAdapters(config?: ViteMcpAdapterConfig): AdapterDefinition[] {
   }
 
   if (finalConfig.sessionStorage.enabled !== false) {
-    const ssPerms: { read?: boolean; write?: boolean; delete?: boolean } = {};
+    const ssPerms: ActionPermissions = {};
     if (finalConfig.sessionStorage.read !== undefined) ssPerms.read = finalConfig.sessionStorage.read;
     if (finalConfig.sessionStorage.write !== undefined) ssPerms.write = finalConfig.sessionStorage.write;
     if (finalConfig.sessionStorage.delete !== undefined) ssPerms.delete = finalConfig.sessionStorage.delete;
@@ -415,7 +466,7 @@ function buildAdapters(config?: ViteMcpAdapterConfig): AdapterDefinition[] {
   }
 
   if (finalConfig.cache.enabled !== false) {
-    const cachePerms: { read?: boolean; write?: boolean; delete?: boolean } = {};
+    const cachePerms: ActionPermissions = {};
     if (finalConfig.cache.read !== undefined) cachePerms.read = finalConfig.cache.read;
     if (finalConfig.cache.write !== undefined) cachePerms.write = finalConfig.cache.write;
     if (finalConfig.cache.delete !== undefined) cachePerms.delete = finalConfig.cache.delete;
@@ -423,13 +474,29 @@ function buildAdapters(config?: ViteMcpAdapterConfig): AdapterDefinition[] {
   }
 
   if (finalConfig.indexedDB.enabled !== false) {
-    const idbPerms: { read?: boolean; write?: boolean; delete?: boolean } = {};
+    const idbPerms: ActionPermissions = {};
     if (finalConfig.indexedDB.read !== undefined) idbPerms.read = finalConfig.indexedDB.read;
     if (finalConfig.indexedDB.write !== undefined) idbPerms.write = finalConfig.indexedDB.write;
     if (finalConfig.indexedDB.delete !== undefined) idbPerms.delete = finalConfig.indexedDB.delete;
     adapters.push(restrictAdapter(indexedDBAdapter, idbPerms));
   }
 
+  if (finalConfig.serviceWorker.enabled !== false) {
+    const swPerms: ActionPermissions = {};
+    if (finalConfig.serviceWorker.read !== undefined) swPerms.read = finalConfig.serviceWorker.read;
+    if (finalConfig.serviceWorker.write !== undefined) swPerms.write = finalConfig.serviceWorker.write;
+    if (finalConfig.serviceWorker.delete !== undefined) swPerms.delete = finalConfig.serviceWorker.delete;
+    adapters.push(restrictAdapter(serviceWorkerAdapter, swPerms));
+  }
+
+  if (finalConfig.storageSnapshot.enabled !== false) {
+    const snapshotPerms: ActionPermissions = {};
+    if (finalConfig.storageSnapshot.read !== undefined) snapshotPerms.read = finalConfig.storageSnapshot.read;
+    if (finalConfig.storageSnapshot.write !== undefined) snapshotPerms.write = finalConfig.storageSnapshot.write;
+    if (finalConfig.storageSnapshot.delete !== undefined) snapshotPerms.delete = finalConfig.storageSnapshot.delete;
+    adapters.push(restrictAdapter({ ...storageSnapshotAdapter, server: snapshotServerMethods }, snapshotPerms));
+  }
+
   return adapters;
 }
 
@@ -438,15 +505,37 @@ export function viteMcp<
 >(
   options: ViteMcpOptions<TAdapters> = {} as ViteMcpOptions<TAdapters>
 ): PluginOption {
-  let adapters = options.adapters || buildAdapters(options.adapterConfig);
+  // Snapshots live in Vite's cache dir, which is only known once the dev server starts
+  let snapshotStore: SnapshotStore | null = null;
+  const snapshotServerMethods = createSnapshotServerMethods(() => snapshotStore);
+
+  let adapters = options.adapters
+    ? options.adapters.map((adapter) =>
+      adapter === storageSnapshotAdapter ? { ...storageSnapshotAdapter, server: snapshotServerMethods } : adapter
+    )
+    : buildAdapters(options.adapterConfig, snapshotServerMethods);
+
+  for (const adapter of adapters) {
+    if (!adapter.handler && !adapter.browserEntry) {
+      throw new Error(`Adapter ${adapter.name} needs either a handler or a browserEntry`);
+    }
+  }
   const transformModule = options.transformModule;
   const disableConsoleCapture = options.disableConsoleCapture === true;
+  const disableNetworkCapture = options.disableNetworkCapture === true;
+  const prompts = options.prompts ?? [];
+  const serverName = options.name ?? "vite-mcp";
+  const routes = resolveMcpRoutes(options.endpoint, options.routes);
+  const auth = resolveMcpAuth(options.auth);
+  const confirmTimeout = options.confirmTimeout ?? CONFIRM_TIMEOUT_MS;
+  const defaultTimeout = options.timeout ?? TOOL_CALL_TIMEOUT_MS;
+  const bridgeWait = options.waitForBridge ?? 0;
 
   if (options.adapters && options.adapterConfig) {
-    const configMap: Record<string, { read?: boolean; write?: boolean; delete?: boolean }> = {};
+    const configMap: Record<string, ActionPermissions> = {};
 
     if (options.adapterConfig.cookies) {
-      const cookiePerms: { read?: boolean; write?: boolean; delete?: boolean } = {};
+      const cookiePerms: ActionPermissions = {};
       if (options.adapterConfig.cookies.read !== undefined) cookiePerms.read = options.adapterConfig.cookies.read;
       if (options.adapterConfig.cookies.write !== undefined) cookiePerms.write = options.adapterConfig.cookies.write;
       if (options.adapterConfig.cookies.delete !== undefined) cookiePerms.delete = options.adapterConfig.cookies.delete;
@@ -454,7 +543,7 @@ export function viteMcp<
     }
 
     if (options.adapterConfig.localStorage) {
-      const lsPerms: { read?: boolean; write?: boolean; delete?: boolean } = {};
+      const lsPerms: ActionPermissions = {};
       if (options.adapterConfig.localStorage.read !== undefined) lsPerms.read = options.adapterConfig.localStorage.read;
       if (options.adapterConfig.localStorage.write !== undefined) lsPerms.write = options.adapterConfig.localStorage.write;
       if (options.adapterConfig.localStorage.delete !== undefined) lsPerms.delete = options.adapterConfig.localStorage.delete;
@@ -462,7 +551,7 @@ export function viteMcp<
     }
 
     if (options.adapterConfig.sessionStorage) {
-      const ssPerms: { read?: boolean; write?: boolean; delete?: boolean } = {};
+      const ssPerms: ActionPermissions = {};
       if (options.adapterConfig.sessionStorage.read !== undefined) ssPerms.read = options.adapterConfig.sessionStorage.read;
       if (options.adapterConfig.sessionStorage.write !== undefined) ssPerms.write = options.adapterConfig.sessionStorage.write;
       if (options.adapterConfig.sessionStorage.delete !== undefined) ssPerms.delete = options.adapterConfig.sessionStorage.delete;
@@ -470,7 +559,7 @@ export function viteMcp<
     }
 
     if (options.adapterConfig.cache) {
-      const cachePerms: { read?: boolean; write?: boolean; delete?: boolean } = {};
+      const cachePerms: ActionPermissions = {};
       if (options.adapterConfig.cache.read !== undefined) cachePerms.read = options.adapterConfig.cache.read;
       if (options.adapterConfig.cache.write !== undefined) cachePerms.write = options.adapterConfig.cache.write;
       if (options.adapterConfig.cache.delete !== undefined) cachePerms.delete = options.adapterConfig.cache.delete;
@@ -478,13 +567,29 @@ export function viteMcp<
     }
 
     if (options.adapterConfig.indexedDB) {
-      const idbPerms: { read?: boolean; write?: boolean; delete?: boolean } = {};
+      const idbPerms: ActionPermissions = {};
       if (options.adapterConfig.indexedDB.read !== undefined) idbPerms.read = options.adapterConfig.indexedDB.read;
       if (options.adapterConfig.indexedDB.write !== undefined) idbPerms.write = options.adapterConfig.indexedDB.write;
       if (options.adapterConfig.indexedDB.delete !== undefined) idbPerms.delete = options.adapterConfig.indexedDB.delete;
       configMap["indexed_db"] = idbPerms;
     }
 
+    if (options.adapterConfig.serviceWorker) {
+      const swPerms: ActionPermissions = {};
+      if (options.adapterConfig.serviceWorker.read !== undefined) swPerms.read = options.adapterConfig.serviceWorker.read;
+      if (options.adapterConfig.serviceWorker.write !== undefined) swPerms.write = options.adapterConfig.serviceWorker.write;
+      if (options.adapterConfig.serviceWorker.delete !== undefined) swPerms.delete = options.adapterConfig.serviceWorker.delete;
+      configMap["service_worker"] = swPerms;
+    }
+
+    if (options.adapterConfig.storageSnapshot) {
+      const snapshotPerms: ActionPermissions = {};
+      if (options.adapterConfig.storageSnapshot.read !== undefined) snapshotPerms.read = options.adapterConfig.storageSnapshot.read;
+      if (options.adapterConfig.storageSnapshot.write !== undefined) snapshotPerms.write = options.adapterConfig.storageSnapshot.write;
+      if (options.adapterConfig.storageSnapshot.delete !== undefined) snapshotPerms.delete = options.adapterConfig.storageSnapshot.delete;
+      configMap["storage_snapshot"] = snapshotPerms;
+    }
+
     adapters = adapters.map((adapter) => {
       const perms = configMap[adapter.name];
       if (perms && ACTION_PERMISSIONS[adapter.name]) {
@@ -495,39 +600,164 @@ export function viteMcp<
   }
 
   let viteServer: ViteDevServer | null = null;
+  let stackMapper: StackMapper | null = null;
+  let auditLog: AuditLog | null = null;
   const pendingToolCalls = new Map<string, Deferred<CallToolResult>>();
+  const toolCallProgress = new Map<string, NonNullable<ToolCallContext["progress"]>>();
+  const clientRegistry = new ClientRegistry();
+
+  function getClientRegistry(): ClientRegistry {
+    if (viteServer?.ws) {
+      clientRegistry.prune(viteServer.ws.clients);
+    }
+    return clientRegistry;
+  }
+
+  // Calls made while no tab is connected, woken by the next `mcp:bridge-ready`
+  const bridgeWaiters = new Set<() => void>();
+  let lastBridgeReadyAt: number | null = null;
+
+  function waitForBridgeReady(timeout: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        bridgeWaiters.delete(done);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const timer = setTimeout(done, timeout);
+      bridgeWaiters.add(done);
+      signal?.addEventListener("abort", done, { once: true });
+    });
+  }
 
   // Cache bridge code to avoid repeated file I/O
   let cachedBridgeCode: string | null = null;
   let isDevMode = false;
+  let projectRoot = process.cwd();
+
+  /**
+   * Send one tool call to every registered tab and wait until each one
+   * answers or the deadline passes.
+   */
+  async function broadcastToolCall(
+    name: string,
+    params: { [key: string]: unknown },
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<CallToolResult> {
+    const clients = viteServer?.ws ? getClientRegistry().all() : [];
+
+    if (clients.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "No browser bridges registered. Make sure the browser page is open and the dev server is running.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const callId = `${Date.now()}${Math.random()}`;
+    const startedAt = Date.now();
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<"timeout">((resolve) => {
+      deadlineTimer = setTimeout(() => resolve("timeout"), timeout);
+      signal?.addEventListener("abort", () => resolve("timeout"), { once: true });
+    });
+
+    const outcomes = await Promise.all(
+      clients.map(async ({ info, socket }): Promise<ClientCallOutcome> => {
+        const id = `${callId}:${info.clientId}`;
+        const deferred = new Deferred<CallToolResult>();
+        pendingToolCalls.set(id, deferred);
+
+        try {
+          socket.send("mcp:tool-call", { id, name, params, clientId: info.clientId });
+          const result = await Promise.race([deferred.promise, deadline]);
+          const durationMs = Date.now() - startedAt;
+          if (result === "timeout") {
+            socket.send("mcp:tool-cancel", { id, reason: signal?.aborted ? "cancelled" : "timeout" });
+            return { client: info, durationMs, status: "timeout" };
+          }
+          return { client: info, durationMs, status: result.isError ? "error" : "ok", result };
+        } catch (error) {
+          return {
+            client: info,
+            durationMs: Date.now() - startedAt,
+            status: "error",
+            error: error instanceof Error ? error.message : String(error),
+          };
+        } finally {
+          pendingToolCalls.delete(id);
+        }
+      })
+    );
+
+    clearTimeout(deadlineTimer);
+    return combineClientResults(name, outcomes);
+  }
 
   async function dispatchToolCall(
     name: string,
-    params: { [key: string]: unknown }
+    params: { [key: string]: unknown },
+    options: {
+      clientId?: string | undefined;
+      broadcast?: boolean;
+      timeout?: number | undefined;
+      signal?: AbortSignal | undefined;
+      progress?: ToolCallContext["progress"] | undefined;
+    } = {}
   ): Promise<CallToolResult> {
+    if (bridgeWait > 0 && viteServer?.ws && getClientRegistry().size === 0 && !options.signal?.aborted) {
+      await waitForBridgeReady(bridgeWait, options.signal);
+    }
+    if (options.signal?.aborted) {
+      return { content: [{ type: "text", text: "Tool call was cancelled by the client" }], isError: true };
+    }
+
+    if (options.broadcast) {
+      return broadcastToolCall(name, params || {}, options.timeout ?? BROADCAST_TIMEOUT_MS, options.signal);
+    }
+
     try {
       const id = `${Date.now()}${Math.random()}`;
       const deferred = new Deferred<CallToolResult>();
       pendingToolCalls.set(id, deferred);
+      if (options.progress) {
+        toolCallProgress.set(id, options.progress);
+      }
 
-      const timeout = setTimeout(() => {
+      // Set once the call is sent, so an abandoned call can be stopped in the same tab
+      let cancelInBrowser: ((reason: "timeout" | "cancelled") => void) | undefined;
+      const abandon = (reason: "timeout" | "cancelled", text: string) => {
         const pending = pendingToolCalls.get(id);
         if (pending) {
           pendingToolCalls.delete(id);
-          const errorResult: CallToolResult = {
-            content: [
-              {
-                type: "text",
-                text: "Tool call timeout: Browser bridge may not be ready. Make sure the browser page is open and the dev server is running.",
-              },
-            ],
-            isError: true,
-          };
-          pending.resolve(errorResult);
+          cancelInBrowser?.(reason);
+          pending.resolve({ content: [{ type: "text", text }], isError: true });
         }
-      }, 60000);
+      };
+
+      const timeoutMs = options.timeout ?? defaultTimeout;
+      const timeout = setTimeout(
+        () =>
+          abandon(
+            "timeout",
+            `Tool call timeout after ${timeoutMs} ms: Browser bridge may not be ready. Make sure the browser page is open and the dev server is running.`
+          ),
+        timeoutMs
+      );
+      const onAbort = () => abandon("cancelled", "Tool call was cancelled by the client");
+      options.signal?.addEventListener("abort", onAbort, { once: true });
 
-      deferred.promise.finally(() => clearTimeout(timeout));
+      deferred.promise.finally(() => {
+        clearTimeout(timeout);
+        options.signal?.removeEventListener("abort", onAbort);
+        toolCallProgress.delete(id);
+      });
 
       if (!viteServer?.ws) {
         console.log("[vite-mcp]", "Bridge: Bridge not ready because HMR not available.");
@@ -555,7 +785,27 @@ export function viteMcp<
             content: [
               {
                 type: "text",
-                text: "No WebSocket clients connected. Make sure the browser page is open and the dev server is running.",
+                text: `No WebSocket clients connected${bridgeWait > 0 ? ` within ${bridgeWait} ms` : ""}. Make sure the browser page is open and the dev server is running.`,
+              },
+            ],
+            isError: true,
+          };
+          deferred.resolve(errorResult);
+          return deferred.promise;
+        }
+
+        const registry = getClientRegistry();
+        const target = options.clientId
+          ? registry.get(options.clientId)
+          : registry.pickDefault();
+
+        if (options.clientId && !target) {
+          pendingToolCalls.delete(id);
+          const errorResult: CallToolResult = {
+            content: [
+              {
+                type: "text",
+                text: `Client not found: ${options.clientId}. Use the list_clients tool to see connected browser tabs.`,
               },
             ],
             isError: true,
@@ -564,11 +814,36 @@ export function viteMcp<
           return deferred.promise;
         }
 
-        const payload = { id, name, params: params || {} };
         if (!params || typeof params !== 'object') {
           console.warn(`[vite-mcp] Invalid params for tool ${name}:`, params);
         }
-        (viteServer.ws as any).send("mcp:tool-call", payload);
+
+        // Sockets are connected but none has registered a bridge, so there is no single tab to send to
+        if (!target) {
+          pendingToolCalls.delete(id);
+          const errorResult: CallToolResult = {
+            content: [
+              {
+                type: "text",
+                text: `No vite-mcp bridge has registered yet${bridgeWait > 0 ? ` within ${bridgeWait} ms` : ""}. Reload the browser page so the bridge connects.`,
+              },
+            ],
+            isError: true,
+          };
+          deferred.resolve(errorResult);
+          return deferred.promise;
+        }
+
+        target.socket.send("mcp:tool-call", {
+          id,
+          name,
+          params: params || {},
+          clientId: target.info.clientId,
+        });
+        cancelInBrowser = (reason) => target.socket.send("mcp:tool-cancel", { id, reason });
+        if (options.signal?.aborted) {
+          onAbort();
+        }
       } catch (error) {
         pendingToolCalls.delete(id);
         const errorResult: CallToolResult = {
@@ -598,201 +873,335 @@ export function viteMcp<
     }
   }
 
-  const createMcpServer = () => {
-    const server = new ViteMcpServer({
-      name: "vite-mcp",
-      version: PACKAGE_VERSION,
-      adapters: Array.from(adapters),
-    });
-
-    for (const adapter of adapters) {
-      server.registerAdapter(
-        adapter,
-        async (input: { [key: string]: unknown }) => {
-          try {
-            const result = await dispatchToolCall(adapter.name, input);
+  function normalizeAdapterResult(
+    adapter: AdapterDefinition,
+    result: CallToolResult
+  ): CallToolResult {
+    if (result.structuredContent) {
+      return result;
+    }
 
-            if (result.structuredContent) {
-              return result;
-            }
+    // Images and other non-text blocks are kept next to the re-serialized JSON
+    const mediaContent = (result.content || []).filter((block) => block.type !== "text");
 
-            if (
-              result.content &&
-              result.content.length > 0 &&
-              result.content[0]?.type === "text"
-            ) {
-              try {
-                const parsed = JSON.parse(result.content[0].text);
-                if (adapter.outputSchema && typeof adapter.outputSchema.parse === "function") {
-                  try {
-                    const validated = adapter.outputSchema.parse(parsed);
-                    return {
-                      structuredContent: validated as Record<string, unknown>,
-                      content: [
-                        {
-                          type: "text",
-                          text: JSON.stringify(validated),
-                        },
-                      ],
-                    };
-                  } catch (parseError) {
-                    log(`Output schema validation failed for ${adapter.name}, returning unvalidated result: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-                    return {
-                      structuredContent: parsed as Record<string, unknown>,
-                      content: [
-                        {
-                          type: "text",
-                          text: JSON.stringify(parsed),
-                        },
-                      ],
-                    };
-                  }
-                }
-                return {
-                  content: [
-                    {
-                      type: "text",
-                      text: JSON.stringify(parsed),
-                    },
-                  ],
-                };
-              } catch {
-                if (adapter.outputSchema) {
-                  log(`Failed to parse result for ${adapter.name}, but output schema is defined. Returning default structure.`);
-                  if (adapter.name === "read-console") {
-                    return {
-                      structuredContent: { logs: [] } as Record<string, unknown>,
-                      content: result.content,
-                    };
-                  }
-                  try {
-                    const defaultStructure = adapter.outputSchema.parse({});
-                    return {
-                      structuredContent: defaultStructure as Record<string, unknown>,
-                      content: result.content,
-                    };
-                  } catch {
-                    return {
-                      structuredContent: { logs: [] } as Record<string, unknown>,
-                      content: result.content,
-                    };
-                  }
-                }
-                return result;
-              }
-            }
-            if (adapter.outputSchema && !result.structuredContent) {
-              log(`No structured content for ${adapter.name} but output schema is defined. Returning default structure.`);
-              if (adapter.name === "read-console") {
-                return {
-                  structuredContent: { logs: [] } as Record<string, unknown>,
-                  content: result.content || [],
-                };
-              }
-              try {
-                const defaultStructure = adapter.outputSchema.parse({});
-                return {
-                  structuredContent: defaultStructure as Record<string, unknown>,
-                  content: result.content || [],
-                };
-              } catch {
-                return {
-                  structuredContent: { logs: [] } as Record<string, unknown>,
-                  content: result.content || [],
-                };
-              }
-            }
-            return result;
-          } catch (error) {
+    if (
+      result.content &&
+      result.content.length > 0 &&
+      result.content[0]?.type === "text"
+    ) {
+      try {
+        const parsed = JSON.parse(result.content[0].text);
+        if (adapter.outputSchema && typeof adapter.outputSchema.parse === "function") {
+          try {
+            const validated = adapter.outputSchema.parse(parsed);
+            return {
+              structuredContent: validated as Record<string, unknown>,
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(validated),
+                },
+                ...mediaContent,
+              ],
+            };
+          } catch (parseError) {
+            log(`Output schema validation failed for ${adapter.name}, returning unvalidated result: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
             return {
+              structuredContent: parsed as Record<string, unknown>,
               content: [
                 {
                   type: "text",
-                  text: error instanceof Error ? error.message : String(error),
+                  text: JSON.stringify(parsed),
                 },
+                ...mediaContent,
               ],
-              isError: true,
             };
           }
         }
-      );
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(parsed),
+            },
+            ...mediaContent,
+          ],
+        };
+      } catch {
+        if (adapter.outputSchema) {
+          log(`Failed to parse result for ${adapter.name}, but output schema is defined. Returning default structure.`);
+          if (adapter.name === "read-console") {
+            return {
+              structuredContent: { logs: [] } as Record<string, unknown>,
+              content: result.content,
+            };
+          }
+          try {
+            const defaultStructure = adapter.outputSchema.parse({});
+            return {
+              structuredContent: defaultStructure as Record<string, unknown>,
+              content: result.content,
+            };
+          } catch {
+            return {
+              structuredContent: { logs: [] } as Record<string, unknown>,
+              content: result.content,
+            };
+          }
+        }
+        return result;
+      }
     }
+    if (adapter.outputSchema && !result.structuredContent) {
+      log(`No structured content for ${adapter.name} but output schema is defined. Returning default structure.`);
+      if (adapter.name === "read-console") {
+        return {
+          structuredContent: { logs: [] } as Record<string, unknown>,
+          content: result.content || [],
+        };
+      }
+      try {
+        const defaultStructure = adapter.outputSchema.parse({});
+        return {
+          structuredContent: defaultStructure as Record<string, unknown>,
+          content: result.content || [],
+        };
+      } catch {
+        return {
+          structuredContent: { logs: [] } as Record<string, unknown>,
+          content: result.content || [],
+        };
+      }
+    }
+    return result;
+  }
 
-    return server;
-  };
+  /**
+   * Extra time a call needs when its action waits for the developer's approval,
+   * so the whole confirmation window fits on top of the usual timeout.
+   */
+  function confirmationWindow(adapter: AdapterDefinition | undefined, params: { [key: string]: unknown }): number {
+    const needsConfirmation = adapter !== undefined && confirmedActions.get(adapter)?.includes(String(params["action"])) === true;
+    return needsConfirmation ? confirmTimeout : 0;
+  }
 
-  const adaptersWithComponents = adapters.filter(
-    ({ component }) => component instanceof Function
-  );
-  const webComponentRegistrations = adaptersWithComponents
-    .map(
-      ({ name, component }) =>
-        `(${registerAndAppendWebComponent.toString()})(${JSON.stringify(
-          name
-        )}, ${component});`
-    )
-    .join("\n");
+  async function callAdapter(
+    adapter: AdapterDefinition,
+    params: { [key: string]: unknown },
+    clientId?: string,
+    context: ToolCallContext = {}
+  ): Promise<CallToolResult> {
+    const timeout = (adapter.timeout ?? defaultTimeout) + confirmationWindow(adapter, params);
+    const raw = await dispatchToolCall(adapter.name, params, {
+      clientId,
+      timeout,
+      signal: context.signal,
+      progress: context.progress,
+    });
+    const result: CallToolResult = {
+      ...normalizeAdapterResult(adapter, raw),
+      ...(raw._meta ? { _meta: raw._meta } : {}),
+    };
 
-  return {
-    name: "vite-mcp",
-    enforce: "pre",
-    configResolved(config) {
-      isDevMode = config.mode === "development";
-    },
-    resolveId(id: string) {
-      const normalizedId = id.split("?")[0];
+    if (adapter.name === consoleAdapter.name && params["sourceMap"] === true && stackMapper) {
+      return await mapConsoleResult(stackMapper, result);
+    }
+    return result;
+  }
 
-      if (
-        normalizedId === VIRTUAL_MCP_ID ||
-        normalizedId === "/virtual:mcp" ||
-        normalizedId === "virtual:mcp"
-      ) {
-        return RESOLVED_BRIDGE_ID + ".ts";
+  const promptContext: PromptContext = {
+    async callTool(name, params = {}) {
+      const adapter = adapters.find((candidate) => candidate.name === name);
+      if (!adapter) {
+        return `(The ${name} tool is not enabled)`;
       }
-      if (id === BRIDGE_PATH) {
-        return RESOLVED_BRIDGE_ID + ".ts";
-      }
-      if (id === RESOLVED_BRIDGE_ID || id === RESOLVED_BRIDGE_ID + ".ts") {
-        return RESOLVED_BRIDGE_ID + ".ts";
+
+      const parsed = adapter.inputSchema.safeParse(params);
+      if (!parsed.success) {
+        return `(Invalid input for ${name}: ${parsed.error.issues.map((issue) => issue.message).join(", ")})`;
       }
 
-      // Resolve bridge/index.js imports from browser-bridge.ts
-      // Handle both absolute and relative paths
-      if (id === "/bridge/index.js" || id === "./bridge/index.js" || id === "../bridge/index.js" || id.includes("bridge/index")) {
-        const distBridgeIndex = join(DIST_DIR, "bridge", "index.js");
-        const srcBridgeIndex = join(SRC_DIR, "bridge", "index.ts");
+      const result = await callAdapter(adapter, parsed.data as { [key: string]: unknown });
+      const text = (result.content || [])
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .filter(Boolean)
+        .join("\n");
+      return result.isError ? `(${name} failed: ${text})` : text;
+    },
+  };
 
-        // Prefer compiled version from dist, fallback to source
-        if (existsSync(distBridgeIndex)) {
-          return distBridgeIndex;
-        }
-        if (existsSync(srcBridgeIndex)) {
-          return srcBridgeIndex;
-        }
+  function isResourceAllowed(adapter: AdapterDefinition, resource: AdapterResource): boolean {
+    const allowedActions = restrictedActions.get(adapter);
+    if (!allowedActions) {
+      return true;
+    }
+    // Resource reads happen in the background, so they never ask for approval
+    const confirmActions = confirmedActions.get(adapter) ?? [];
+    const actions = [resource.params?.({})["action"], resource.list?.params["action"]];
+    return actions.every(
+      (action) =>
+        action === undefined ||
+        (allowedActions.includes(String(action)) && !confirmActions.includes(String(action)))
+    );
+  }
+
+  // Resources are read from the default tab, like tool calls without a clientId
+  async function readAdapterResource(
+    adapter: AdapterDefinition,
+    params: { [key: string]: unknown },
+    uri: URL
+  ): Promise<ReadResourceResult> {
+    const input = adapter.inputSchema.parse(params) as { [key: string]: unknown };
+    const result = normalizeAdapterResult(adapter, await dispatchToolCall(adapter.name, input, { timeout: adapter.timeout }));
+    const text = (result.content || [])
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .filter(Boolean)
+      .join("\n");
+
+    if (result.isError) {
+      throw new Error(text || `Failed to read ${uri.href}`);
+    }
+
+    const contents: ReadResourceResult["contents"] = [];
+    if (result.structuredContent) {
+      contents.push({
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(result.structuredContent, null, 2),
+      });
+    } else if (text) {
+      contents.push({ uri: uri.href, mimeType: "text/plain", text });
+    }
+    for (const block of result.content || []) {
+      if (block.type === "image") {
+        contents.push({ uri: uri.href, mimeType: block.mimeType, blob: block.data });
       }
+    }
+    return { contents };
+  }
 
-      return undefined;
-    },
-    load(id: string) {
-      if (id === RESOLVED_BRIDGE_ID + ".ts") {
-        // During build, return empty module to prevent any code from being bundled
-        if (!isDevMode) {
-          return "";
+  async function listAdapterResources(
+    adapter: AdapterDefinition,
+    list: NonNullable<AdapterResource["list"]>
+  ): Promise<Array<{ uri: string; name: string }>> {
+    // Without a connected tab the call would only wait for the timeout
+    if (getClientRegistry().size === 0) {
+      return [];
+    }
+    const input = adapter.inputSchema.parse(list.params) as { [key: string]: unknown };
+    const result = normalizeAdapterResult(adapter, await dispatchToolCall(adapter.name, input, { timeout: adapter.timeout }));
+    if (result.isError || !result.structuredContent) {
+      return [];
+    }
+    return list.resources(result.structuredContent);
+  }
+
+  function audited(call: AuditCall, run: () => Promise<CallToolResult>): Promise<CallToolResult> {
+    return auditLog ? auditLog.record(call, run) : run();
+  }
+
+  const createMcpServer = () => {
+    const server = new ViteMcpServer({
+      name: serverName,
+      version: PACKAGE_VERSION,
+      adapters: Array.from(adapters),
+      routes,
+      auth,
+      bridgeStatus: () => ({ connected: getClientRegistry().size, lastReadyAt: lastBridgeReadyAt }),
+    });
+
+    server.registerTool(createListClientsTool(getClientRegistry));
+    const broadcastTool = createBroadcastTool(adapters, (name, params, timeout, signal) => {
+      const adapter = adapters.find((candidate) => candidate.name === name);
+      return dispatchToolCall(name, params, { broadcast: true, timeout: timeout + confirmationWindow(adapter, params), signal });
+    });
+    server.registerTool({
+      ...broadcastTool,
+      handler: (input, context) =>
+        audited({ tool: broadcastTool.name, params: input }, () => broadcastTool.handler(input, context)),
+    });
+    if (auditLog) {
+      server.registerTool(createHistoryTool(auditLog));
+    }
+
+    for (const adapter of adapters) {
+      server.registerAdapter(
+        withClientIdParam(adapter),
+        async (input: { [key: string]: unknown }, context) => {
+          const { clientId, ...params } = input;
+          const targetClientId = typeof clientId === "string" ? clientId : undefined;
+          const client = targetClientId
+            ? getClientRegistry().get(targetClientId)
+            : getClientRegistry().pickDefault();
+          const call: AuditCall = {
+            tool: adapter.name,
+            params,
+            ...(client ? { clientId: client.info.clientId, url: client.info.url } : {}),
+          };
+
+          return audited(call, async () => {
+            try {
+              return await callAdapter(adapter, params, targetClientId, context);
+            } catch (error) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: error instanceof Error ? error.message : String(error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+          });
         }
+      );
+    }
 
-        // Use cached bridge code if available
-        if (cachedBridgeCode !== null) {
-          return cachedBridgeCode;
+    // User prompts replace built-in prompts of the same name
+    const userPromptNames = new Set(prompts.map(({ name }) => name));
+    for (const prompt of [...builtinPrompts.filter(({ name }) => !userPromptNames.has(name)), ...prompts]) {
+      server.registerPrompt({
+        name: prompt.name,
+        ...(prompt.description ? { description: prompt.description } : {}),
+        ...(prompt.arguments ? { arguments: prompt.arguments } : {}),
+        handler: async (args) => {
+          const text = await prompt.build(args, promptContext);
+          return {
+            ...(prompt.description ? { description: prompt.description } : {}),
+            messages: [{ role: "user", content: { type: "text", text } }],
+          };
+        },
+      });
+    }
+
+    for (const adapter of adapters) {
+      for (const resource of adapter.resources ?? []) {
+        if (!isResourceAllowed(adapter, resource)) {
+          continue;
         }
+        const list = resource.list;
+        server.registerResource({
+          name: resource.name,
+          uri: resource.uri,
+          mimeType: resource.mimeType ?? "application/json",
+          ...(resource.description ? { description: resource.description } : {}),
+          ...(list ? { list: () => listAdapterResources(adapter, list) } : {}),
+          read: (uri, variables) => readAdapterResource(adapter, resource.params?.(variables) ?? {}, uri),
+        });
+      }
+    }
 
-        const serializedToolHandlers = adapters
-          .map(
-            ({ name, handler }) =>
-              `[${JSON.stringify(name)}, {handler: ${handler.toString()}}]`
-          )
-          .join(",");
+    return server;
+  };
+
+  // Installed before any app code runs so requests made during startup are captured
+  const networkCaptureCode =
+    !disableNetworkCapture && adapters.some(({ name }) => name === networkAdapter.name)
+      ? `(${installNetworkCapture.toString()})(${NETWORK_MAX_ENTRIES}, ${NETWORK_MAX_BODY_SIZE}, ${NETWORK_MAX_MESSAGES});`
+      : "";
 
-        const consoleCaptureScript = disableConsoleCapture ? '' : `
+  const consoleCaptureCode = disableConsoleCapture ? "" : `
 (function() {
   if (typeof window === "undefined") return;
   if (window.__mcpConsoleCaptureInitialized) return;
@@ -802,18 +1211,105 @@ export function viteMcp<
     window.__mcpConsoleEntries = [];
   }
   var consoleEntries = window.__mcpConsoleEntries;
+  var pushEntry = function(entry) {
+    consoleEntries.push(entry);
+    if (consoleEntries.length > 1000) consoleEntries.shift();
+    try {
+      window.dispatchEvent(new CustomEvent("mcp:resource-changed", { detail: { uris: ["vite://console"] } }));
+    } catch (e) {
+    }
+  };
   var captureEntry = function(level, args) {
     try {
       var entryArgs = Array.prototype.slice.call(args);
-      consoleEntries.push({ 
+      pushEntry({ 
         level: level, 
+        kind: "console",
         args: entryArgs, 
         timestamp: Date.now() 
       });
-      if (consoleEntries.length > 1000) consoleEntries.shift();
     } catch (e) {
     }
   };
+  var describeValue = function(value) {
+    if (typeof value === "string") return value;
+    try {
+      return JSON.stringify(value);
+    } catch (e) {
+      return String(value);
+    }
+  };
+  // Errors that never reach console.error: uncaught exceptions and resource
+  // load failures (capture phase, since element error events don't bubble)
+  window.addEventListener("error", function(event) {
+    try {
+      var target = event.target;
+      if (!(event instanceof ErrorEvent) && target && target !== window) {
+        var resourceUrl = target.currentSrc || target.src || target.href || "";
+        var tagName = target.tagName ? target.tagName.toLowerCase() : "resource";
+        var resourceMessage = "Failed to load " + tagName + (resourceUrl ? ": " + resourceUrl : "");
+        pushEntry({
+          level: "error",
+          kind: "resource",
+          args: [resourceMessage],
+          message: resourceMessage,
+          source: resourceUrl || undefined,
+          errorName: "ResourceError",
+          timestamp: Date.now()
+        });
+        return;
+      }
+      var error = event.error;
+      var message = event.message || (error && error.message) || "Uncaught error";
+      pushEntry({
+        level: "error",
+        kind: "uncaught",
+        args: [message],
+        message: message,
+        source: event.filename || undefined,
+        line: event.lineno || undefined,
+        column: event.colno || undefined,
+        stack: error && error.stack ? String(error.stack) : undefined,
+        errorName: (error && error.name) || "Error",
+        timestamp: Date.now()
+      });
+    } catch (e) {
+    }
+  }, true);
+  window.addEventListener("unhandledrejection", function(event) {
+    try {
+      var reason = event.reason;
+      var isError = reason instanceof Error;
+      var message = "Unhandled promise rejection: " + (isError ? reason.message : describeValue(reason));
+      pushEntry({
+        level: "error",
+        kind: "unhandledrejection",
+        args: [message],
+        message: message,
+        stack: isError && reason.stack ? String(reason.stack) : undefined,
+        errorName: isError ? reason.name : "UnhandledRejection",
+        timestamp: Date.now()
+      });
+    } catch (e) {
+    }
+  });
+  document.addEventListener("securitypolicyviolation", function(event) {
+    try {
+      var message = "Content Security Policy violation: " + event.violatedDirective + " blocked " + (event.blockedURI || "inline");
+      pushEntry({
+        level: "error",
+        kind: "csp",
+        args: [message],
+        message: message,
+        source: event.sourceFile || undefined,
+        line: event.lineNumber || undefined,
+        column: event.columnNumber || undefined,
+        errorName: "SecurityPolicyViolation",
+        timestamp: Date.now()
+      });
+    } catch (e) {
+    }
+  });
   var wrapConsoleMethod = function(method) {
     if (!console[method]) return;
     var original = console[method];
@@ -881,7 +1377,119 @@ export function viteMcp<
 })();
 `;
 
-        const bridgeCode = `${consoleCaptureScript}\n(${mcpBridge.toString()})(import.meta.hot, new Map([${serializedToolHandlers}]), ${Deferred.toString()});`;
+  const adaptersWithComponents = adapters.filter(
+    ({ component }) => component instanceof Function
+  );
+  const webComponentRegistrations = [
+    ...adaptersWithComponents.map(({ name, component }) => ({ name, component })),
+    ...(adapters.some((adapter) => confirmedActions.has(adapter))
+      ? [{ name: "mcp-confirm", component: confirmOverlayComponent }]
+      : []),
+  ]
+    .map(
+      ({ name, component }) =>
+        `(${registerAndAppendWebComponent.toString()})(${JSON.stringify(
+          name
+        )}, ${component});`
+    )
+    .join("\n");
+
+  return {
+    name: "vite-mcp",
+    enforce: "pre",
+    api: { routes, token: auth.token },
+    configResolved(config) {
+      isDevMode = config.mode === "development";
+      projectRoot = config.root;
+    },
+    resolveId(id: string) {
+      const normalizedId = id.split("?")[0];
+
+      if (
+        normalizedId === VIRTUAL_MCP_ID ||
+        normalizedId === "/virtual:mcp" ||
+        normalizedId === "virtual:mcp"
+      ) {
+        return RESOLVED_BRIDGE_ID + ".ts";
+      }
+      if (id === BRIDGE_PATH) {
+        return RESOLVED_BRIDGE_ID + ".ts";
+      }
+      if (id === RESOLVED_BRIDGE_ID || id === RESOLVED_BRIDGE_ID + ".ts") {
+        return RESOLVED_BRIDGE_ID + ".ts";
+      }
+
+      if (id === BUILTIN_BROWSER_ENTRY) {
+        const distHandlers = join(DIST_DIR, "bridge", "handlers.js");
+        return existsSync(distHandlers) ? distHandlers : join(SRC_DIR, "bridge", "handlers", "index.ts");
+      }
+
+      // Resolve bridge/index.js imports from browser-bridge.ts
+      // Handle both absolute and relative paths
+      if (id === "/bridge/index.js" || id === "./bridge/index.js" || id === "../bridge/index.js" || id.includes("bridge/index")) {
+        const distBridgeIndex = join(DIST_DIR, "bridge", "index.js");
+        const srcBridgeIndex = join(SRC_DIR, "bridge", "index.ts");
+
+        // Prefer compiled version from dist, fallback to source
+        if (existsSync(distBridgeIndex)) {
+          return distBridgeIndex;
+        }
+        if (existsSync(srcBridgeIndex)) {
+          return srcBridgeIndex;
+        }
+      }
+
+      return undefined;
+    },
+    load(id: string) {
+      if (id === RESOLVED_BRIDGE_ID + ".ts") {
+        // During build, return empty module to prevent any code from being bundled
+        if (!isDevMode) {
+          return "";
+        }
+
+        // Use cached bridge code if available
+        if (cachedBridgeCode !== null) {
+          return cachedBridgeCode;
+        }
+
+        const browserEntries = Array.from(
+          new Set(
+            adapters.flatMap(({ browserEntry }) =>
+              browserEntry ? [resolveBrowserEntry(browserEntry, projectRoot)] : []
+            )
+          )
+        );
+        const browserEntryImports = browserEntries
+          .map((entry, index) => `import * as __mcpBrowserEntry${index} from ${JSON.stringify(entry)};`)
+          .join("\n");
+
+        const serializedToolHandlers = adapters
+          .map((adapter) => {
+            const { name, handler, browserEntry } = adapter;
+            let handlerCode: string;
+            if (browserEntry) {
+              const entry = resolveBrowserEntry(browserEntry, projectRoot);
+              handlerCode = `__mcpResolveBrowserHandler(__mcpBrowserEntry${browserEntries.indexOf(entry)}, ${JSON.stringify(name)}, ${JSON.stringify(browserEntry)})`;
+            } else {
+              handlerCode = handler!.toString();
+            }
+            const allowedActions = restrictedActions.get(adapter);
+            const allowedActionsCode = allowedActions ? `, allowedActions: ${JSON.stringify(allowedActions)}` : "";
+            const confirmActions = confirmedActions.get(adapter);
+            const confirmActionsCode = confirmActions
+              ? `, confirmActions: ${JSON.stringify(confirmActions)}, confirmTimeout: ${confirmTimeout}`
+              : "";
+            return `[${JSON.stringify(name)}, {handler: ${handlerCode}${allowedActionsCode}${confirmActionsCode}}]`;
+          })
+          .join(",");
+
+
+        const browserEntryCode = browserEntryImports
+          ? `${browserEntryImports}\nconst __mcpResolveBrowserHandler = ${resolveBrowserHandler.toString()};\n`
+          : "";
+
+        const bridgeCode = `${browserEntryCode}${networkCaptureCode}\n${consoleCaptureCode}\n(${mcpBridge.toString()})(import.meta.hot, new Map([${serializedToolHandlers}]), ${Deferred.toString()});`;
 
         const fullCode =
           bridgeCode +
@@ -909,113 +1517,40 @@ export function viteMcp<
         return html;
       }
 
-      const consoleCaptureScript = disableConsoleCapture ? '' : `<script>
-(function() {
-  if (typeof window === "undefined") return;
-  if (window.__mcpConsoleCaptureInitialized) return;
-  window.__mcpConsoleCaptureInitialized = true;
-  
-  if (!window.__mcpConsoleEntries) {
-    window.__mcpConsoleEntries = [];
-  }
-  var consoleEntries = window.__mcpConsoleEntries;
-  var captureEntry = function(level, args) {
-    try {
-      var entryArgs = Array.prototype.slice.call(args);
-      consoleEntries.push({ 
-        level: level, 
-        args: entryArgs, 
-        timestamp: Date.now() 
-      });
-      if (consoleEntries.length > 1000) consoleEntries.shift();
-    } catch (e) {
-    }
-  };
-  var wrapConsoleMethod = function(method) {
-    if (!console[method]) return;
-    var original = console[method];
-    if (original && !original.__mcpWrapped) {
-      var wrapped = function() {
-        captureEntry(method, arguments);
-        return original.apply(console, arguments);
-      };
-      try {
-        Object.defineProperty(wrapped, 'name', { 
-          value: original.name || method, 
-          configurable: true
-        });
-        if (original.toString) {
-          Object.defineProperty(wrapped, 'toString', { 
-            value: function() { return original.toString(); },
-            configurable: true
-          });
-        }
-        Object.defineProperty(wrapped, 'length', {
-          value: original.length || 0,
-          configurable: true
-        });
-      } catch (e) {
-      }
-      try {
-        var proto = Object.getPrototypeOf(original);
-        if (proto) {
-          Object.setPrototypeOf(wrapped, proto);
-        }
-      } catch (e) {
-      }
-      try {
-        Object.defineProperty(console, method, {
-          value: wrapped,
-          writable: true,
-          configurable: true,
-          enumerable: true
-        });
-        Object.defineProperty(console[method], '__mcpWrapped', {
-          value: true,
-          configurable: true,
-          enumerable: false,
-          writable: false
-        });
-      } catch (e) {
-        console[method] = wrapped;
-        console[method].__mcpWrapped = true;
-      }
-    }
-  };
-  var methods = ["log", "info", "warn", "error", "debug"];
-  setTimeout(function() {
-    for (var i = 0; i < methods.length; i++) {
-      wrapConsoleMethod(methods[i]);
-    }
-  }, 0);
-  if (document.readyState === "loading") {
-    document.addEventListener("DOMContentLoaded", function() {
-      for (var i = 0; i < methods.length; i++) {
-        wrapConsoleMethod(methods[i]);
-      }
-    });
-  }
-})();
-</script>`;
+      const consoleCaptureScript = consoleCaptureCode ? `<script>${consoleCaptureCode}</script>` : "";
 
+      const networkCaptureScript = networkCaptureCode ? `<script>${networkCaptureCode}</script>` : "";
       const bridgeScript = `<script type="module" src="/virtual:mcp"></script>`;
+      const injectedScripts = `${networkCaptureScript}${consoleCaptureScript}${bridgeScript}`;
 
       if (html.includes("<head>")) {
-        return html.replace("<head>", `<head>${consoleCaptureScript}${bridgeScript}`);
+        return html.replace("<head>", `<head>${injectedScripts}`);
       }
       if (html.includes("</head>")) {
-        return html.replace("</head>", `${consoleCaptureScript}${bridgeScript}</head>`);
+        return html.replace("</head>", `${injectedScripts}</head>`);
       }
       if (html.includes("<body>")) {
-        return html.replace("<body>", `<body>${consoleCaptureScript}${bridgeScript}`);
+        return html.replace("<body>", `<body>${injectedScripts}`);
       }
-      return consoleCaptureScript + bridgeScript + html;
+      return injectedScripts + html;
     },
     configureServer(server: ViteDevServer) {
       viteServer = server;
+      if (options.auditLog !== false) {
+        auditLog = new AuditLog(join(server.config.cacheDir, AUDIT_LOG_FILE));
+      }
+      snapshotStore = new SnapshotStore(join(server.config.cacheDir, SNAPSHOT_DIR));
+      stackMapper = new StackMapper(server);
+
+      server.ws.on("mcp:bridge-ready", (data: BridgeReadyMessage, client) => {
+        const info = clientRegistry.register(client, data);
+        lastBridgeReadyAt = Date.now();
+        console.log("[vite-mcp]", info ? `Bridge ready! (client ${info.clientId})` : "Bridge ready!");
+        bridgeWaiters.forEach((wake) => wake());
+      });
 
-      server.ws.on("mcp:bridge-ready", () => {
-        console.log("[vite-mcp]", "Bridge ready!");
+      server.ws.on("mcp:bridge-update", (data: BridgeReadyMessage) => {
+        clientRegistry.update(data);
       });
 
       server.ws.on(
@@ -1043,13 +1578,24 @@ export function viteMcp<
         }
       );
 
-      server.ws.on("mcp:tool-server-call", async ({ id, name, params }) => {
+      server.ws.on(
+        "mcp:tool-progress",
+        (data: { id: string; progress: number; total?: number; message?: string }) => {
+          const progress = toolCallProgress.get(data.id);
+          if (progress && typeof data.progress === "number") {
+            progress(data.progress, data.total, data.message);
+          }
+        }
+      );
+
+      // Only the tab that made the call is waiting for the answer
+      server.ws.on("mcp:tool-server-call", async ({ id, name, params }, client) => {
         const [toolName, methodName] = name.split(":");
 
         const adapter = adapters.find((adapter) => adapter.name === toolName);
 
         if (!adapter) {
-          server.ws.send("mcp:tool-server-result", {
+          client.send("mcp:tool-server-result", {
             id,
             error: `Adapter not found: ${toolName}`,
           });
@@ -1059,7 +1605,7 @@ export function viteMcp<
         const method = adapter.server?.[methodName];
 
         if (!method) {
-          server.ws.send("mcp:tool-server-result", {
+          client.send("mcp:tool-server-result", {
             id,
             error: `Method not found: ${methodName}`,
           });
@@ -1068,9 +1614,9 @@ export function viteMcp<
 
         try {
           const result = await method(params);
-          server.ws.send("mcp:tool-server-result", { id, result });
+          client.send("mcp:tool-server-result", { id, result });
         } catch (error) {
-          server.ws.send("mcp:tool-server-result", {
+          client.send("mcp:tool-server-result", {
             id,
             error: error instanceof Error ? error.message : String(error),
           });
@@ -1080,21 +1626,33 @@ export function viteMcp<
       const mcpServer = createMcpServer();
       mcpServer.markInitialized();
 
+      server.ws.on("mcp:resource-changed", (data: { clientId?: string; uris?: string[] }) => {
+        // Resources are read from the default tab, so changes elsewhere are not visible
+        if (!data?.clientId || getClientRegistry().pickDefault()?.info.clientId !== data.clientId) {
+          return;
+        }
+        for (const uri of data.uris ?? []) {
+          void mcpServer.notifyResourceUpdated(uri);
+        }
+      });
+
+      const exposeOnNetwork = options.auth?.exposeOnNetwork ?? auth.token !== undefined;
+      if (isNetworkHost(server.config.server.host) && !exposeOnNetwork) {
+        log(
+          `MCP endpoint disabled because server.host exposes the dev server on the network. Set auth.token or auth.exposeOnNetwork to serve it.`
+        );
+        return;
+      }
+
+      if (auth.token) {
+        log(`MCP endpoint ${routes.endpoint} requires the header "Authorization: Bearer ${auth.token}"`);
+      }
+
       server.middlewares.use(async (req: any, res: any, next: any) => {
         try {
           const url = req.url || "";
-          const pathname = url.split("?")[0];
-          if (
-            pathname === MCP_PATH ||
-            pathname === `${MCP_PATH}/` ||
-            pathname === MCP_JSONRPC_PATH ||
-            pathname === `${MCP_JSONRPC_PATH}/` ||
-            pathname === MCP_SSE_PATH ||
-            pathname === `${MCP_SSE_PATH}/` ||
-            pathname === `${MCP_PATH}/health` ||
-            pathname === `${MCP_PATH}/health/` ||
-            pathname.startsWith(`${MCP_PATH}/`)
-          ) {
+          const pathname = url.split("?")[0] ?? "";
+          if (isMcpRoute(pathname, routes)) {
             await mcpServer.handleHTTP(req, res);
           } else {
             next();
@@ -0,0 +1,135 @@
+export interface PromptContext {
+  /**
+   * Run an adapter tool in the default browser tab and return its text output.
+   * Failures and disabled tools are reported in the returned text, never thrown.
+   */
+  callTool(name: string, params?: { [key: string]: unknown }): Promise<string>;
+}
+
+export interface PromptArgument {
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description?: string;
+  arguments?: { [name: string]: PromptArgument };
+  /** Builds the prompt text, usually from live browser state gathered with `context.callTool` */
+  build: (
+    args: { [name: string]: string | undefined },
+    context: PromptContext
+  ) => string | Promise<string>;
+}
+
+// Keeps one noisy adapter from crowding the rest of the prompt out of the context window
+const MAX_SECTION_LENGTH = 6000;
+
+export function promptSection(title: string, body: string): string {
+  const trimmed = body.trim() || "(empty)";
+  const text =
+    trimmed.length > MAX_SECTION_LENGTH
+      ? `${trimmed.slice(0, MAX_SECTION_LENGTH)}\n... (truncated, ${trimmed.length - MAX_SECTION_LENGTH} more characters)`
+      : trimmed;
+  return `## ${title}\n\n${text}`;
+}
+
+const debugCurrentPagePrompt: PromptDefinition = {
+  name: "debug-current-page",
+  description:
+    "Debug the page open in the browser, starting from its console errors, failed network requests and component tree",
+  arguments: {
+    problem: { description: "What is going wrong, in your own words" },
+  },
+  build: async ({ problem }, { callTool }) => {
+    const [errors, network, components] = await Promise.all([
+      callTool("read-console", { type: "error", tail: 30, sourceMap: true }),
+      callTool("network", { action: "list", failed: true, tail: 20 }),
+      callTool("component-tree", { maxDepth: 8 }),
+    ]);
+
+    return [
+      "Debug the page that is currently open in the browser.",
+      problem ? `Reported problem: ${problem}` : "",
+      promptSection("Console errors", errors),
+      promptSection("Failed network requests", network),
+      promptSection("Route and component tree", components),
+      [
+        "Work through it step by step:",
+        "1. Identify the first error and follow its stack trace into the source files.",
+        "2. Check whether a failed request explains it (status, response body).",
+        "3. Use the dom tool with `component` to inspect the component that rendered the broken UI.",
+        "4. Fix the cause in the source, then verify with read-console, interact or screenshot after the hot update.",
+      ].join("\n"),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  },
+};
+
+const auditPerformancePrompt: PromptDefinition = {
+  name: "audit-performance",
+  description: "Audit the performance of the page open in the browser using its Web Vitals, timings and network activity",
+  arguments: {
+    focus: { description: "Metric or area to focus on, e.g. LCP, bundle size, API latency" },
+  },
+  build: async ({ focus }, { callTool }) => {
+    const [performance, network] = await Promise.all([
+      callTool("performance", { includeResourceTimings: true, includeNavigationTiming: true, includeWebVitals: true }),
+      callTool("network", { action: "list", tail: 50 }),
+    ]);
+
+    return [
+      "Audit the performance of the page that is currently open in the browser.",
+      focus ? `Focus on: ${focus}` : "",
+      promptSection("Performance metrics", performance),
+      promptSection("Recent network requests", network),
+      [
+        "Report:",
+        "1. Web Vitals that miss the \"good\" thresholds and what drives them.",
+        "2. The slowest and largest resources and requests, and whether they block rendering.",
+        "3. Concrete changes in this codebase (code splitting, lazy loading, caching, fewer requests), ordered by expected impact.",
+        "Keep in mind that a Vite dev server serves unbundled modules, so judge load times relative to each other rather than as production numbers.",
+      ].join("\n"),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  },
+};
+
+const explainStorageStatePrompt: PromptDefinition = {
+  name: "explain-storage-state",
+  description: "Explain what the app keeps in localStorage, sessionStorage, cookies and IndexedDB",
+  arguments: {
+    question: { description: "Specific question about the stored state" },
+  },
+  build: async ({ question }, { callTool }) => {
+    const [local, session, cookies, indexedDB] = await Promise.all([
+      callTool("local_storage", { action: "read" }),
+      callTool("session_storage", { action: "read" }),
+      callTool("cookie", { action: "read" }),
+      callTool("indexed_db", { action: "list_databases" }),
+    ]);
+
+    return [
+      "Explain the client-side state of the page that is currently open in the browser.",
+      question ? `Question: ${question}` : "",
+      promptSection("localStorage", local),
+      promptSection("sessionStorage", session),
+      promptSection("Cookies", cookies),
+      promptSection("IndexedDB databases", indexedDB),
+      [
+        "For each entry, find the code that reads and writes it and explain what it is for.",
+        "Point out stale, oversized, duplicated or sensitive values (tokens, personal data) and state that could get out of sync between the stores.",
+      ].join("\n"),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  },
+};
+
+export const builtinPrompts: PromptDefinition[] = [
+  debugCurrentPagePrompt,
+  auditPerformancePrompt,
+  explainStorageStatePrompt,
+];
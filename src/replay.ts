@@ -0,0 +1,183 @@
+import { join, resolve } from "node:path";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { AUDIT_LOG_FILE, latestSession, readAuditLog } from "./audit-log.js";
+import type { AuditEntry } from "./audit-log.js";
+import { parseStdioArgs, resolveEndpointUrl } from "./stdio.js";
+import type { StdioCliOptions } from "./stdio.js";
+
+export interface ReplayOptions {
+  /** Audit log to read; defaults to the one in the project's Vite cache dir */
+  log?: string;
+  /** Session to replay; defaults to the most recent one in the log */
+  session?: string;
+  from?: number;
+  to?: number;
+  tools?: string[];
+  skipErrors: boolean;
+  dryRun: boolean;
+  /** Pause between calls, in milliseconds */
+  delay: number;
+  endpoint: StdioCliOptions;
+}
+
+export const REPLAY_USAGE = `Usage: vite-mcp replay [options]
+
+Re-run the tool calls recorded in the audit log against the page open in the browser.
+
+Options:
+  --log <file>       Audit log (default: node_modules/.vite/${AUDIT_LOG_FILE.replace(/\\/g, "/")})
+  --session <id>     Session to replay (default: the most recent one)
+  --from <seq>       First call to replay
+  --to <seq>         Last call to replay
+  --tool <name>      Only replay calls of this tool (repeatable)
+  --skip-errors      Leave out calls that failed when they were recorded
+  --delay <ms>       Pause between calls (default: 0)
+  --dry-run          Print the calls without running them
+  --port, --host, --path, --url, --token, --root
+                     Dev server endpoint, as for vite-mcp stdio`;
+
+export function parseReplayArgs(args: string[]): ReplayOptions {
+  const options: Omit<ReplayOptions, "endpoint"> = { skipErrors: false, dryRun: false, delay: 0 };
+  const endpointArgs: string[] = [];
+
+  const number = (flag: string, raw: string | undefined) => {
+    const value = Number(raw);
+    if (raw === undefined || !Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid value for ${flag}: ${raw ?? "(missing)"}`);
+    }
+    return value;
+  };
+  const text = (flag: string, raw: string | undefined) => {
+    if (raw === undefined || raw.startsWith("--")) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    return raw;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    switch (arg) {
+      case "--log":
+        options.log = text(arg, args[++i]);
+        break;
+      case "--session":
+        options.session = text(arg, args[++i]);
+        break;
+      case "--from":
+        options.from = number(arg, args[++i]);
+        break;
+      case "--to":
+        options.to = number(arg, args[++i]);
+        break;
+      case "--tool":
+        options.tools = [...(options.tools ?? []), text(arg, args[++i])];
+        break;
+      case "--skip-errors":
+        options.skipErrors = true;
+        break;
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--delay":
+        options.delay = number(arg, args[++i]);
+        break;
+      default:
+        endpointArgs.push(arg);
+    }
+  }
+
+  const endpoint = parseStdioArgs(endpointArgs);
+  if (endpoint.start || endpoint.config) {
+    throw new Error("replay runs against an open page and does not start Vite; start the dev server first");
+  }
+  return { ...options, endpoint };
+}
+
+export function selectReplayEntries(entries: AuditEntry[], options: ReplayOptions): AuditEntry[] {
+  const session = options.session ?? latestSession(entries);
+  return entries.filter(
+    (entry) =>
+      entry.session === session &&
+      (options.from === undefined || entry.seq >= options.from) &&
+      (options.to === undefined || entry.seq <= options.to) &&
+      (!options.tools || options.tools.includes(entry.tool)) &&
+      !(options.skipErrors && entry.isError)
+  );
+}
+
+export async function runReplay(args: string[]): Promise<void> {
+  const options = parseReplayArgs(args);
+  const file = options.log ?? join(resolve(options.endpoint.root ?? "."), "node_modules", ".vite", AUDIT_LOG_FILE);
+
+  const entries = selectReplayEntries(await readAuditLog(file), options);
+  if (entries.length === 0) {
+    throw new Error(`No recorded calls to replay in ${file}`);
+  }
+
+  const describe = (entry: AuditEntry) => `#${entry.seq} ${entry.tool} ${JSON.stringify(entry.params)}`;
+
+  if (options.dryRun) {
+    for (const entry of entries) {
+      process.stdout.write(`${describe(entry)}\n`);
+    }
+    return;
+  }
+
+  const [{ Client }, { StreamableHTTPClientTransport }] = await Promise.all([
+    import("@modelcontextprotocol/sdk/client/index.js"),
+    import("@modelcontextprotocol/sdk/client/streamableHttp.js"),
+  ]);
+
+  const endpoint = resolveEndpointUrl(options.endpoint);
+  const token = options.endpoint.token ?? process.env["VITE_MCP_TOKEN"];
+  const client = new Client({ name: "vite-mcp-replay", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(
+    endpoint,
+    token ? { requestInit: { headers: { Authorization: `Bearer ${token}` } } } : undefined
+  );
+  // The client transport declares `sessionId` looser than exactOptionalPropertyTypes allows
+  await client.connect(transport as Transport);
+
+  // Recorded tab ids belong to the old page, so every call goes to the current default tab
+  let changed = 0;
+  try {
+    for (const entry of entries) {
+      const started = Date.now();
+      let isError: boolean;
+      let detail = "";
+      try {
+        const result = await client.callTool({ name: entry.tool, arguments: entry.params });
+        isError = result.isError === true;
+        if (isError) {
+          const first = (result.content as Array<{ type: string; text?: string }> | undefined)?.[0];
+          detail = first?.type === "text" && first.text ? `: ${first.text.slice(0, 200)}` : "";
+        }
+      } catch (error) {
+        isError = true;
+        detail = `: ${error instanceof Error ? error.message : String(error)}`;
+      }
+
+      const outcome = isError ? "error" : "ok";
+      const differs = isError !== entry.isError;
+      if (differs) {
+        changed++;
+      }
+      process.stdout.write(
+        `${describe(entry)} -> ${outcome} (${Date.now() - started} ms)${differs ? ` [recorded: ${entry.isError ? "error" : "ok"}]` : ""}${detail}\n`
+      );
+
+      if (options.delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, options.delay));
+      }
+    }
+  } finally {
+    await client.close();
+  }
+
+  process.stdout.write(
+    `Replayed ${entries.length} call${entries.length === 1 ? "" : "s"}${changed > 0 ? `, ${changed} with a different outcome than recorded` : ""}\n`
+  );
+  if (changed > 0) {
+    process.exitCode = 1;
+  }
+}
@@ -1,36 +1,172 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { randomUUID } from "node:crypto";
 import type { IncomingMessage, ServerResponse } from "http";
 import type { AdapterDefinition } from "./adapter/types.js";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { isAuthorized, isOriginAllowed } from "./auth.js";
+import type { McpAuth } from "./auth.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  CallToolResult,
+  GetPromptResult,
+  ReadResourceResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import * as z from "zod";
 
 if (typeof z === "undefined") {
   throw new Error("zod is not available. Please ensure zod is installed.");
 }
 
+/**
+ * Per-call context handed to tool handlers. `signal` aborts when the MCP client
+ * cancels the request or disconnects; `progress` is only set when the client
+ * asked for progress notifications.
+ */
+export interface ToolCallContext {
+  signal?: AbortSignal;
+  progress?: (progress: number, total?: number, message?: string) => void;
+}
+
+export type ToolHandler = (
+  input: { [key: string]: unknown },
+  context?: ToolCallContext
+) => Promise<CallToolResult>;
+
+/**
+ * A tool that runs on the dev server instead of being dispatched to the browser.
+ */
+export interface ServerToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: z.ZodSchema;
+  outputSchema?: z.ZodSchema;
+  handler: ToolHandler;
+}
+
+/**
+ * A read-only resource. URIs containing `{variables}` are registered as templates
+ * and `list` enumerates their concrete resources.
+ */
+export interface ServerResourceDefinition {
+  name: string;
+  uri: string;
+  description?: string;
+  mimeType?: string;
+  read: (uri: URL, variables: Record<string, string>) => Promise<ReadResourceResult>;
+  list?: () => Promise<Array<{ uri: string; name: string }>>;
+}
+
+/**
+ * A prompt template. Arguments are optional strings unless marked as required.
+ */
+export interface ServerPromptDefinition {
+  name: string;
+  description?: string;
+  arguments?: { [name: string]: { description?: string; required?: boolean } };
+  handler: (args: { [name: string]: string | undefined }) => Promise<GetPromptResult>;
+}
+
+/**
+ * HTTP routes served by the MCP middleware. Each route also matches with a trailing slash.
+ */
+export interface McpRoutes {
+  /** Streamable HTTP endpoint; a GET without a session returns server info */
+  endpoint: string;
+  sse: string;
+  health: string;
+  /** Extra paths that behave like `endpoint` */
+  aliases: string[];
+}
+
+export const DEFAULT_MCP_ENDPOINT = "/__mcp";
+
+function normalizeRoute(path: string): string {
+  const normalized = `/${path.trim().replace(/^\/+|\/+$/g, "")}`;
+  if (normalized === "/") {
+    throw new Error(`Invalid MCP route "${path}": it would capture every request to the dev server`);
+  }
+  return normalized;
+}
+
+/**
+ * Build the route table for an endpoint prefix. The legacy `/_mcp` alias is
+ * only kept for the default prefix.
+ */
+export function resolveMcpRoutes(
+  endpoint: string = DEFAULT_MCP_ENDPOINT,
+  overrides: Partial<Omit<McpRoutes, "endpoint">> = {}
+): McpRoutes {
+  const prefix = normalizeRoute(endpoint);
+  return {
+    endpoint: prefix,
+    sse: normalizeRoute(overrides.sse ?? `${prefix}/sse`),
+    health: normalizeRoute(overrides.health ?? `${prefix}/health`),
+    aliases: (overrides.aliases ?? (prefix === DEFAULT_MCP_ENDPOINT ? ["/_mcp"] : [])).map(normalizeRoute),
+  };
+}
+
+function matchesRoute(pathname: string, route: string): boolean {
+  return pathname === route || pathname === `${route}/`;
+}
+
+/**
+ * Whether a request path belongs to the MCP server rather than the app.
+ */
+export function isMcpRoute(pathname: string, routes: McpRoutes): boolean {
+  return (
+    matchesRoute(pathname, routes.endpoint) ||
+    pathname.startsWith(`${routes.endpoint}/`) ||
+    matchesRoute(pathname, routes.sse) ||
+    matchesRoute(pathname, routes.health) ||
+    routes.aliases.some((alias) => matchesRoute(pathname, alias))
+  );
+}
+
+/**
+ * Browser tabs with a connected bridge, as reported by the health endpoint.
+ */
+export interface BridgeStatus {
+  connected: number;
+  /** When a bridge last sent `mcp:bridge-ready`, in milliseconds since the epoch */
+  lastReadyAt: number | null;
+}
+
 export interface ViteMcpServerOptions {
   name: string;
   version: string;
   adapters: AdapterDefinition[];
+  routes?: McpRoutes;
+  auth?: McpAuth;
+  bridgeStatus?: () => BridgeStatus;
 }
 
 export class ViteMcpServer {
   private mcpServer: McpServer;
-  private adapterHandlers = new Map<
-    string,
-    (input: { [key: string]: unknown }) => Promise<CallToolResult>
-  >();
+  private adapterHandlers = new Map<string, ToolHandler>();
+  private serverTools = new Map<string, ServerToolDefinition>();
+  private resources = new Map<string, ServerResourceDefinition>();
+  private prompts = new Map<string, ServerPromptDefinition>();
+  // Resource URI -> ids of the sessions subscribed to it
+  private subscriptions = new Map<string, Set<string>>();
   private transports = new Map<string, StreamableHTTPServerTransport>();
   private connectedTransports = new Set<string>();
   private serverName: string;
   private serverVersion: string;
+  private routes: McpRoutes;
+  private auth: McpAuth;
+  private bridgeStatus: (() => BridgeStatus) | undefined;
   private isInitialized: boolean = false;
 
   constructor(options: ViteMcpServerOptions) {
     this.serverName = options.name;
     this.serverVersion = options.version;
+    this.routes = options.routes ?? resolveMcpRoutes();
+    this.auth = options.auth ?? {};
+    this.bridgeStatus = options.bridgeStatus;
 
     if (typeof z === "undefined") {
       throw new Error("zod is not available. Please ensure zod is installed.");
@@ -40,6 +176,97 @@ export class ViteMcpServer {
       name: options.name,
       version: options.version,
     });
+
+    this.mcpServer.server.registerCapabilities({ resources: { subscribe: true } });
+    this.mcpServer.server.setRequestHandler(SubscribeRequestSchema, (request, extra) => {
+      const sessions = this.subscriptions.get(request.params.uri) ?? new Set<string>();
+      sessions.add(extra.sessionId ?? "");
+      this.subscriptions.set(request.params.uri, sessions);
+      return {};
+    });
+    this.mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, (request, extra) => {
+      const sessions = this.subscriptions.get(request.params.uri);
+      sessions?.delete(extra.sessionId ?? "");
+      if (sessions?.size === 0) {
+        this.subscriptions.delete(request.params.uri);
+      }
+      return {};
+    });
+  }
+
+  /**
+   * Send `notifications/resources/updated` to every session subscribed to `uri`.
+   */
+  async notifyResourceUpdated(uri: string): Promise<void> {
+    const sessions = this.subscriptions.get(uri);
+    if (!sessions) {
+      return;
+    }
+
+    for (const sessionId of sessions) {
+      try {
+        if (!sessionId) {
+          // Transports without sessions only ever have one client
+          await this.mcpServer.server.sendResourceUpdated({ uri });
+          continue;
+        }
+        const transport = this.transports.get(sessionId);
+        if (!transport) {
+          sessions.delete(sessionId);
+          continue;
+        }
+        await transport.send({
+          jsonrpc: "2.0",
+          method: "notifications/resources/updated",
+          params: { uri },
+        });
+      } catch (error) {
+        console.error(`[vite-mcp] Failed to notify session about ${uri}:`, error);
+      }
+    }
+  }
+
+  private toolCallContext(extra?: RequestHandlerExtra<ServerRequest, ServerNotification>): ToolCallContext {
+    if (!extra) {
+      return {};
+    }
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return { signal: extra.signal };
+    }
+
+    // Responses are plain JSON, so HTTP sessions get progress on their standalone SSE stream
+    const sessionId = extra.sessionId;
+    return {
+      signal: extra.signal,
+      progress: (progress, total, message) => {
+        const notification: ServerNotification = {
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress,
+            ...(total !== undefined ? { total } : {}),
+            ...(message !== undefined ? { message } : {}),
+          },
+        };
+        const transport = sessionId ? this.transports.get(sessionId) : undefined;
+        const sent = transport
+          ? transport.send({ jsonrpc: "2.0", ...notification })
+          : extra.sendNotification(notification);
+        sent.catch((error: unknown) => {
+          console.error("[vite-mcp] Failed to send progress notification:", error);
+        });
+      },
+    };
+  }
+
+  private dropSubscriptions(sessionId: string): void {
+    for (const [uri, sessions] of this.subscriptions) {
+      sessions.delete(sessionId);
+      if (sessions.size === 0) {
+        this.subscriptions.delete(uri);
+      }
+    }
   }
 
   markInitialized(): void {
@@ -135,10 +362,7 @@ export class ViteMcpServer {
   //     }
   //   );
   // }
-  registerAdapter(
-    adapter: AdapterDefinition,
-    handler: (input: { [key: string]: unknown }) => Promise<CallToolResult>
-  ) {
+  registerAdapter(adapter: AdapterDefinition, handler: ToolHandler) {
     this.adapterHandlers.set(adapter.name, handler);
 
     if (!adapter.inputSchema) {
@@ -179,7 +403,7 @@ export class ViteMcpServer {
       this.mcpServer.registerTool(
         adapter.name,
         toolDefinition as any,
-        async (args: unknown) => {
+        async (args: unknown, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
           try {
             const input = args as { [key: string]: unknown };
 
@@ -203,7 +427,7 @@ export class ViteMcpServer {
             if (!handler) {
               throw new Error(`Adapter handler not found: ${adapter.name}`);
             }
-            return await handler(validatedInput);
+            return await handler(validatedInput, this.toolCallContext(extra));
           } catch (error) {
             if (error instanceof Error && error.message.startsWith("Invalid input")) {
               throw error;
@@ -235,7 +459,132 @@ export class ViteMcpServer {
   }
 
 
+  registerTool(tool: ServerToolDefinition) {
+    if (this.serverTools.has(tool.name) || this.adapterHandlers.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.serverTools.set(tool.name, tool);
+
+    const toolDefinition: {
+      title: string;
+      description: string;
+      inputSchema: z.ZodSchema;
+      outputSchema?: z.ZodSchema;
+    } = {
+      title: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+    };
+
+    if (tool.outputSchema) {
+      toolDefinition.outputSchema = tool.outputSchema;
+    }
+
+    this.mcpServer.registerTool(
+      tool.name,
+      toolDefinition as any,
+      async (args: unknown, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+        const parseResult = tool.inputSchema.safeParse(args ?? {});
+        if (!parseResult.success) {
+          const errorMessages = parseResult.error.issues.map((issue) => {
+            const path = issue.path.length > 0 ? issue.path.join(".") : "root";
+            return `${path}: ${issue.message}`;
+          });
+          throw new Error(`Invalid input for tool ${tool.name}: ${errorMessages.join(", ")}`);
+        }
+        return await tool.handler(parseResult.data as { [key: string]: unknown }, this.toolCallContext(extra));
+      }
+    );
+  }
+
+  registerResource(resource: ServerResourceDefinition) {
+    if (this.resources.has(resource.uri)) {
+      throw new Error(`Resource ${resource.uri} is already registered`);
+    }
+    this.resources.set(resource.uri, resource);
+
+    const metadata: { description?: string; mimeType?: string } = {};
+    if (resource.description) metadata.description = resource.description;
+    if (resource.mimeType) metadata.mimeType = resource.mimeType;
+
+    if (!UriTemplate.isTemplate(resource.uri)) {
+      this.mcpServer.registerResource(resource.name, resource.uri, metadata, (uri) =>
+        resource.read(uri, {})
+      );
+      return;
+    }
+
+    const list = resource.list;
+    const template = new ResourceTemplate(resource.uri, {
+      list: list
+        ? async () => ({
+          resources: (await list()).map((item) => ({
+            ...item,
+            ...(resource.mimeType ? { mimeType: resource.mimeType } : {}),
+          })),
+        })
+        : undefined,
+    });
+
+    this.mcpServer.registerResource(resource.name, template, metadata, (uri, variables) => {
+      const decoded: Record<string, string> = {};
+      for (const [name, value] of Object.entries(variables)) {
+        decoded[name] = decodeURIComponent(Array.isArray(value) ? value.join(",") : value);
+      }
+      return resource.read(uri, decoded);
+    });
+  }
+
+  registerPrompt(prompt: ServerPromptDefinition) {
+    if (this.prompts.has(prompt.name)) {
+      throw new Error(`Prompt ${prompt.name} is already registered`);
+    }
+    this.prompts.set(prompt.name, prompt);
+
+    const argsSchema: { [name: string]: z.ZodType<string | undefined> } = {};
+    for (const [name, argument] of Object.entries(prompt.arguments ?? {})) {
+      const schema = argument.required ? z.string() : z.string().optional();
+      argsSchema[name] = argument.description ? schema.describe(argument.description) : schema;
+    }
+
+    const config: { description?: string; argsSchema: typeof argsSchema } = { argsSchema };
+    if (prompt.description) config.description = prompt.description;
+
+    this.mcpServer.registerPrompt(prompt.name, config as any, async (args: unknown) =>
+      prompt.handler((args ?? {}) as { [name: string]: string | undefined })
+    );
+  }
+
   async handleHTTP(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const origin = req.headers.origin;
+    if (!isOriginAllowed(origin, this.auth)) {
+      res.writeHead(403, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: `Origin ${origin} is not allowed to access the MCP endpoint` },
+        id: null
+      }));
+      return;
+    }
+    if (origin) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Vary", "Origin");
+    }
+
+    // Preflight requests never carry credentials, so they are answered without the token
+    if (req.method !== "OPTIONS" && !isAuthorized(req.headers.authorization, this.auth)) {
+      res.writeHead(401, {
+        "Content-Type": "application/json",
+        "WWW-Authenticate": 'Bearer realm="vite-mcp"',
+      });
+      res.end(JSON.stringify({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: "Missing or invalid bearer token in the Authorization header" },
+        id: null
+      }));
+      return;
+    }
+
     if (!this.isReady()) {
       if (!res.headersSent) {
         res.writeHead(503, { "Content-Type": "application/json" });
@@ -256,11 +605,10 @@ export class ViteMcpServer {
     }
 
     const url = req.url || "";
-    const pathname = url.split("?")[0];
-    const isSSEEndpoint = pathname === "/__mcp/sse" || pathname === "/__mcp/sse/";
+    const pathname = url.split("?")[0] ?? "";
+    const isSSEEndpoint = matchesRoute(pathname, this.routes.sse);
 
     try {
-      res.setHeader("Access-Control-Allow-Origin", "*");
       res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
       res.setHeader(
         "Access-Control-Allow-Headers",
@@ -278,9 +626,12 @@ export class ViteMcpServer {
         return;
       }
 
-      if (req.method === "GET" && !isSSEEndpoint) {
+      // A GET within a session opens the stream for notifications outside of a request
+      const sessionHeader = req.headers["mcp-session-id"];
+      const isHealthCheck = matchesRoute(pathname, this.routes.health);
+      const hasSession = typeof sessionHeader === "string" && this.transports.has(sessionHeader);
+      if (req.method === "GET" && !isSSEEndpoint && (isHealthCheck || !hasSession)) {
         try {
-          const isHealthCheck = pathname === "/__mcp/health" || pathname === "/__mcp/health/";
           res.setHeader("Content-Type", "application/json");
 
           if (isHealthCheck) {
@@ -291,6 +642,7 @@ export class ViteMcpServer {
                 status,
                 initialized: this.isInitialized,
                 adaptersRegistered: this.adapterHandlers.size,
+                ...(this.bridgeStatus ? { bridges: this.bridgeStatus() } : {}),
                 name: this.serverName,
                 version: this.serverVersion,
               })
@@ -302,6 +654,9 @@ export class ViteMcpServer {
                 name: this.serverName,
                 version: this.serverVersion,
                 adapters: Array.from(this.adapterHandlers.keys()),
+                tools: Array.from(this.serverTools.keys()),
+                resources: Array.from(this.resources.keys()),
+                prompts: Array.from(this.prompts.keys()),
                 ready: this.isReady(),
               })
             );
@@ -342,6 +697,8 @@ export class ViteMcpServer {
           onsessioninitialized: (id) => {
             try {
               this.transports.set(id, transport);
+              // Connected before the session id existed; connecting again would handle every message twice
+              this.connectedTransports.add(id);
             } catch (error) {
               console.error("[vite-mcp] Error initializing session:", error);
             }
@@ -350,6 +707,7 @@ export class ViteMcpServer {
             try {
               this.transports.delete(id);
               this.connectedTransports.delete(id);
+              this.dropSubscriptions(id);
             } catch (error) {
               console.error("[vite-mcp] Error closing session:", error);
             }
@@ -361,6 +719,7 @@ export class ViteMcpServer {
             if (transport.sessionId) {
               this.transports.delete(transport.sessionId);
               this.connectedTransports.delete(transport.sessionId);
+              this.dropSubscriptions(transport.sessionId);
             }
           } catch (error) {
             console.error("[vite-mcp] Error in transport onclose:", error);
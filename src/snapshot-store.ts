@@ -0,0 +1,91 @@
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ServerMethods } from "./bridge/bridge.js";
+
+export const SNAPSHOT_DIR = join("vite-mcp", "snapshots");
+
+const SNAPSHOT_NAME = /^[\w.-]{1,100}$/;
+
+export interface SnapshotInfo {
+  name: string;
+  /** Size of the snapshot file in bytes */
+  size: number;
+  savedAt: number;
+}
+
+/**
+ * Storage snapshots taken by the `storage_snapshot` adapter, one JSON file per
+ * name, so they outlive the page and the dev server run that captured them.
+ */
+export class SnapshotStore {
+  constructor(readonly dir: string) {}
+
+  async save(name: string, snapshot: unknown): Promise<SnapshotInfo> {
+    const file = this.file(name);
+    const json = JSON.stringify(snapshot);
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(file, json);
+    return { name, size: Buffer.byteLength(json), savedAt: Date.now() };
+  }
+
+  async load(name: string): Promise<unknown> {
+    try {
+      return JSON.parse(await readFile(this.file(name), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`Snapshot "${name}" not found`);
+      }
+      throw error;
+    }
+  }
+
+  /** Saved snapshots, most recent first */
+  async list(): Promise<SnapshotInfo[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const snapshots = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) => {
+          const stats = await stat(join(this.dir, file));
+          return { name: file.slice(0, -".json".length), size: stats.size, savedAt: stats.mtimeMs };
+        })
+    );
+    return snapshots.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  private file(name: string): string {
+    if (!SNAPSHOT_NAME.test(name)) {
+      throw new Error(`Invalid snapshot name "${name}": use up to 100 letters, digits, "-", "_" and "."`);
+    }
+    return join(this.dir, `${name}.json`);
+  }
+}
+
+/**
+ * Server methods the `storage_snapshot` browser handler reaches through `this.server`.
+ * The store is looked up on each call because the cache dir is only known once Vite starts.
+ */
+export function createSnapshotServerMethods(getStore: () => SnapshotStore | null): ServerMethods {
+  const store = () => {
+    const snapshotStore = getStore();
+    if (!snapshotStore) {
+      throw new Error("Snapshots are only available while the dev server is running");
+    }
+    return snapshotStore;
+  };
+
+  return {
+    save: async (args) => ({ ...(await store().save(String(args?.["name"]), args?.["snapshot"])) }),
+    load: async (args) => ({ snapshot: await store().load(String(args?.["name"])) }),
+    list: async () => ({ snapshots: await store().list() }),
+  };
+}
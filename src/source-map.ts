@@ -0,0 +1,144 @@
+import type { ViteDevServer } from "vite";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { TraceMap, originalPositionFor } from "@jridgewell/trace-mapping";
+import type { SourceMapInput } from "@jridgewell/trace-mapping";
+import { dirname, isAbsolute, relative, resolve } from "path";
+
+// Location part of a stack frame: "at fn (url:1:2)" in Chromium, "fn@url:1:2" in Firefox and Safari
+const FRAME_LOCATION_PATTERN = /(https?:\/\/[^\s()@]+?):(\d+):(\d+)/g;
+
+export interface SourceLocation {
+  source: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Maps browser locations of served modules back to the original source using
+ * the source maps of the dev server's transform results.
+ */
+export class StackMapper {
+  private traceMaps = new WeakMap<object, TraceMap>();
+
+  constructor(private server: ViteDevServer) { }
+
+  async mapLocation(url: string, line: number, column: number): Promise<SourceLocation | undefined> {
+    let moduleUrl: string;
+    try {
+      const parsed = new URL(url);
+      moduleUrl = parsed.pathname + parsed.search;
+    } catch {
+      return undefined;
+    }
+
+    const mod = await this.server.moduleGraph.getModuleByUrl(moduleUrl);
+    const map = mod?.transformResult?.map;
+    if (!mod?.file || !map || !("mappings" in map)) {
+      return undefined;
+    }
+
+    let traceMap = this.traceMaps.get(map);
+    if (!traceMap) {
+      traceMap = new TraceMap(map as SourceMapInput);
+      this.traceMaps.set(map, traceMap);
+    }
+
+    // Stack columns are 1-based, source map columns are 0-based
+    const original = originalPositionFor(traceMap, { line, column: Math.max(column - 1, 0) });
+    if (original.source === null || original.line === null || original.column === null) {
+      return undefined;
+    }
+
+    const file = isAbsolute(original.source)
+      ? original.source
+      : resolve(dirname(mod.file), original.source);
+    const fromRoot = relative(this.server.config.root, file);
+
+    return {
+      source: (fromRoot && !fromRoot.startsWith("..") && !isAbsolute(fromRoot) ? fromRoot : file).replace(/\\/g, "/"),
+      line: original.line,
+      column: original.column + 1,
+    };
+  }
+
+  /**
+   * Rewrite every `url:line:column` location in a stack trace or message.
+   * Locations without a source map are left untouched.
+   */
+  async mapStack(text: string): Promise<string> {
+    const matches = Array.from(text.matchAll(FRAME_LOCATION_PATTERN));
+    if (matches.length === 0) {
+      return text;
+    }
+
+    const mapped = await Promise.all(
+      matches.map(([, url, line, column]) =>
+        this.mapLocation(url!, Number(line), Number(column)).catch(() => undefined)
+      )
+    );
+
+    let index = 0;
+    return text.replace(FRAME_LOCATION_PATTERN, (location) => {
+      const original = mapped[index++];
+      return original ? `${original.source}:${original.line}:${original.column}` : location;
+    });
+  }
+}
+
+/**
+ * Apply source maps to a read-console result: stack traces, error locations,
+ * string arguments and the text content.
+ */
+export async function mapConsoleResult(
+  mapper: StackMapper,
+  result: CallToolResult
+): Promise<CallToolResult> {
+  const logs = (result.structuredContent as { logs?: Array<Record<string, unknown>> } | undefined)?.logs;
+
+  const mappedLogs = logs
+    ? await Promise.all(
+      logs.map(async (entry) => {
+        const mappedEntry = { ...entry };
+
+        if (typeof entry["stack"] === "string") {
+          mappedEntry["stack"] = await mapper.mapStack(entry["stack"]);
+        }
+
+        if (
+          typeof entry["source"] === "string" &&
+          typeof entry["line"] === "number" &&
+          typeof entry["column"] === "number"
+        ) {
+          const original = await mapper
+            .mapLocation(entry["source"], entry["line"], entry["column"])
+            .catch(() => undefined);
+          if (original) {
+            mappedEntry["source"] = original.source;
+            mappedEntry["line"] = original.line;
+            mappedEntry["column"] = original.column;
+          }
+        }
+
+        if (Array.isArray(entry["args"])) {
+          mappedEntry["args"] = await Promise.all(
+            entry["args"].map((arg) => (typeof arg === "string" ? mapper.mapStack(arg) : arg))
+          );
+        }
+
+        return mappedEntry;
+      })
+    )
+    : undefined;
+
+  const content = await Promise.all(
+    (result.content || []).map(async (block) =>
+      block.type === "text" ? { ...block, text: await mapper.mapStack(block.text) } : block
+    )
+  );
+
+  const mapped: CallToolResult = { ...result, content };
+  if (mappedLogs) {
+    mapped.structuredContent = { ...result.structuredContent, logs: mappedLogs };
+  }
+  return mapped;
+}
@@ -0,0 +1,236 @@
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { ViteDevServer } from "vite";
+import { DEFAULT_MCP_ENDPOINT } from "./server.js";
+import type { McpRoutes } from "./server.js";
+
+export interface StdioCliOptions {
+  /** Full URL of the MCP endpoint; overrides host, port and path */
+  url?: string;
+  host: string;
+  port: number;
+  /** Endpoint path; defaults to the plugin's endpoint with --start, otherwise /__mcp */
+  path?: string;
+  /** Start a Vite dev server in-process instead of connecting to a running one */
+  start: boolean;
+  root?: string;
+  config?: string;
+  /** Bearer token for the endpoint; defaults to $VITE_MCP_TOKEN, or the plugin's token with --start */
+  token?: string;
+}
+
+export const STDIO_USAGE = `Usage: vite-mcp stdio [options]
+
+Proxy MCP messages between stdio and the vite-mcp endpoint of a Vite dev server.
+
+Options:
+  --port <port>      Dev server port (default: 5173)
+  --host <host>      Dev server host (default: localhost)
+  --path <path>      MCP endpoint path (default: the plugin's endpoint, /__mcp)
+  --url <url>        Full MCP endpoint URL, overrides --host, --port and --path
+  --start            Start the Vite dev server with the plugin loaded
+  --root <dir>       Project root for --start (default: current directory)
+  --config <file>    Vite config file for --start
+  --token <token>    Bearer token for the endpoint (default: $VITE_MCP_TOKEN)
+  -h, --help         Show this help`;
+
+export function parseStdioArgs(args: string[]): StdioCliOptions {
+  const options: StdioCliOptions = { host: "localhost", port: 5173, start: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    const [flag, inlineValue] = arg.startsWith("--") && arg.includes("=")
+      ? [arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1)]
+      : [arg, undefined];
+
+    const value = () => {
+      const next = inlineValue ?? args[++i];
+      if (next === undefined || (inlineValue === undefined && next.startsWith("--"))) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case "--port": {
+        const raw = value();
+        const port = Number(raw);
+        if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+          throw new Error(`Invalid port: ${raw}`);
+        }
+        options.port = port;
+        break;
+      }
+      case "--host":
+        options.host = value();
+        break;
+      case "--path": {
+        const path = value();
+        options.path = path.startsWith("/") ? path : `/${path}`;
+        break;
+      }
+      case "--url":
+        options.url = new URL(value()).toString();
+        break;
+      case "--start":
+        options.start = true;
+        break;
+      case "--root":
+        options.root = value();
+        break;
+      case "--config":
+        options.config = value();
+        break;
+      case "--token":
+        options.token = value();
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+export function resolveEndpointUrl(options: StdioCliOptions): URL {
+  if (options.url) {
+    return new URL(options.url);
+  }
+  return new URL(options.path ?? DEFAULT_MCP_ENDPOINT, `http://${options.host}:${options.port}`);
+}
+
+// The proxy never looks at session ids, and the SDK's client and server
+// transports disagree on how optional `sessionId` is
+type ProxyTransport = Omit<Transport, "sessionId">;
+
+/**
+ * Forward JSON-RPC messages between two transports until either side closes.
+ * Requests that cannot be delivered to the remote side are answered with an
+ * error so the local client does not wait for a response that never comes.
+ */
+export async function proxyTransports(
+  local: ProxyTransport,
+  remote: ProxyTransport,
+  describeRemote = "the Vite dev server"
+): Promise<void> {
+  let closed = false;
+  const closeBoth = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    void local.close().catch(() => {});
+    void remote.close().catch(() => {});
+  };
+
+  local.onmessage = (message: JSONRPCMessage) => {
+    remote.send(message).catch((error: unknown) => {
+      if ("method" in message && "id" in message) {
+        void local.send({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: {
+            code: -32000,
+            message: `Could not reach ${describeRemote}: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        });
+      } else {
+        process.stderr.write(`[vite-mcp] Failed to forward message: ${error instanceof Error ? error.message : String(error)}\n`);
+      }
+    });
+  };
+  remote.onmessage = (message: JSONRPCMessage) => {
+    void local.send(message);
+  };
+
+  remote.onerror = (error: Error) => {
+    process.stderr.write(`[vite-mcp] ${error.message}\n`);
+  };
+  local.onerror = (error: Error) => {
+    process.stderr.write(`[vite-mcp] ${error.message}\n`);
+  };
+
+  local.onclose = closeBoth;
+  remote.onclose = closeBoth;
+
+  await remote.start();
+  await local.start();
+}
+
+/**
+ * Start a Vite dev server for the project, adding the plugin when the
+ * project's config does not already load it.
+ */
+export async function startViteServer(options: StdioCliOptions): Promise<ViteDevServer> {
+  const { createServer, createLogger } = await import("vite");
+  const { viteMcp } = await import("./index.js");
+
+  // stdout carries the MCP protocol, so everything Vite prints goes to stderr
+  const logger = createLogger("info");
+  logger.info = (message) => process.stderr.write(`${message}\n`);
+
+  const inlineConfig = {
+    clearScreen: false,
+    customLogger: logger,
+    server: { port: options.port, host: options.host },
+    ...(options.root ? { root: options.root } : {}),
+    ...(options.config ? { configFile: options.config } : {}),
+  };
+
+  let server = await createServer(inlineConfig);
+  if (!server.config.plugins.some((plugin) => plugin.name === "vite-mcp")) {
+    await server.close();
+    server = await createServer({ ...inlineConfig, plugins: [viteMcp()] });
+  }
+
+  await server.listen();
+  return server;
+}
+
+export async function runStdio(args: string[]): Promise<void> {
+  const options = parseStdioArgs(args);
+
+  // Plugin and Vite logging must not end up in the protocol stream
+  console.log = console.error;
+  console.info = console.error;
+
+  const [{ StdioServerTransport }, { StreamableHTTPClientTransport }] = await Promise.all([
+    import("@modelcontextprotocol/sdk/server/stdio.js"),
+    import("@modelcontextprotocol/sdk/client/streamableHttp.js"),
+  ]);
+
+  let viteServer: ViteDevServer | undefined;
+  let endpoint = resolveEndpointUrl(options);
+  let token = options.token ?? process.env["VITE_MCP_TOKEN"];
+
+  if (options.start) {
+    viteServer = await startViteServer(options);
+    const local = viteServer.resolvedUrls?.local[0];
+    const plugin = viteServer.config.plugins.find(({ name }) => name === "vite-mcp");
+    const api = plugin?.api as { routes?: McpRoutes; token?: string } | undefined;
+    if (local && !options.url) {
+      endpoint = new URL(options.path ?? api?.routes?.endpoint ?? DEFAULT_MCP_ENDPOINT, local);
+    }
+    token ??= api?.token;
+  }
+
+  process.stderr.write(`[vite-mcp] Proxying stdio to ${endpoint}\n`);
+
+  const local = new StdioServerTransport();
+  const remote = new StreamableHTTPClientTransport(
+    endpoint,
+    token ? { requestInit: { headers: { Authorization: `Bearer ${token}` } } } : undefined
+  );
+
+  const shutdown = async () => {
+    await remote.terminateSession().catch(() => {});
+    await remote.close().catch(() => {});
+    await viteServer?.close();
+    process.exit(0);
+  };
+  process.stdin.on("end", () => void shutdown());
+  process.on("SIGINT", () => void shutdown());
+  process.on("SIGTERM", () => void shutdown());
+
+  await proxyTransports(local, remote, `the Vite dev server at ${endpoint.origin}`);
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AuditLog, createHistoryTool, readAuditLog } from "../src/audit-log.js";
+import type { AuditEntry } from "../src/audit-log.js";
+import { parseReplayArgs, selectReplayEntries } from "../src/replay.js";
+
+describe("Audit Log", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "vite-mcp-audit-"));
+    file = join(dir, "vite-mcp", "audit.jsonl");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("Recording", () => {
+    it("should append one JSON line per call in call order", async () => {
+      const log = new AuditLog(file);
+      await log.record(
+        { tool: "local_storage", params: { action: "read" }, clientId: "tab-1", url: "http://localhost:5173/" },
+        async () => ({ content: [{ type: "text", text: '{"items":[]}' }] })
+      );
+      await log.record({ tool: "local_storage", params: { action: "clear" } }, async () => ({
+        content: [{ type: "text", text: "Storage is locked" }],
+        isError: true,
+      }));
+
+      const [read, clear] = await log.read();
+      expect((await readFile(file, "utf-8")).trim().split("\n")).toHaveLength(2);
+      expect(read).toMatchObject({
+        session: log.session,
+        seq: 1,
+        tool: "local_storage",
+        params: { action: "read" },
+        clientId: "tab-1",
+        url: "http://localhost:5173/",
+        isError: false,
+      });
+      expect(read!.resultSize).toBeGreaterThan(0);
+      expect(read!.durationMs).toBeGreaterThanOrEqual(0);
+      expect(clear).toMatchObject({ seq: 2, isError: true, error: "Storage is locked" });
+    });
+
+    it("should record thrown errors as failed calls", async () => {
+      const log = new AuditLog(file);
+      const result = await log.record({ tool: "cookie", params: {} }, async () => {
+        throw new Error("Bridge disconnected");
+      });
+
+      expect(result.isError).toBe(true);
+      expect((await log.read())[0]).toMatchObject({ isError: true, error: "Bridge disconnected" });
+    });
+
+    it("should skip partial lines and treat a missing file as empty", async () => {
+      expect(await readAuditLog(join(dir, "missing.jsonl"))).toEqual([]);
+
+      const log = new AuditLog(file);
+      await log.record({ tool: "cookie", params: {} }, async () => ({ content: [] }));
+      await log.read();
+      await appendFile(file, '{"session":"x","se');
+
+      expect(await readAuditLog(file)).toHaveLength(1);
+    });
+  });
+
+  describe("History Tool", () => {
+    it("should return the current session filtered by tool and errors", async () => {
+      const earlier = new AuditLog(file);
+      await earlier.record({ tool: "cookie", params: {} }, async () => ({ content: [] }));
+
+      const log = new AuditLog(file);
+      await log.record({ tool: "cookie", params: { action: "read" } }, async () => ({ content: [] }));
+      await log.record({ tool: "cookie", params: { action: "remove" } }, async () => ({ content: [], isError: true }));
+      await log.record({ tool: "network", params: {} }, async () => ({ content: [] }));
+
+      const tool = createHistoryTool(log);
+      const current = await tool.handler({ tool: "cookie" });
+      expect(current.structuredContent).toMatchObject({ count: 2, session: log.session, file });
+
+      const errors = await tool.handler({ errorsOnly: true });
+      expect((errors.structuredContent!["entries"] as AuditEntry[]).map(({ params }) => params)).toEqual([
+        { action: "remove" },
+      ]);
+
+      const all = await tool.handler({ session: "all", tail: 10 });
+      expect(all.structuredContent!["count"]).toBe(4);
+    });
+  });
+
+  describe("Replay", () => {
+    const entry = (session: string, seq: number, tool: string, isError = false): AuditEntry => ({
+      session,
+      seq,
+      timestamp: 0,
+      tool,
+      params: {},
+      durationMs: 1,
+      resultSize: 2,
+      isError,
+    });
+    const entries = [
+      entry("a", 1, "cookie"),
+      entry("b", 1, "local_storage"),
+      entry("b", 2, "interact", true),
+      entry("b", 3, "interact"),
+      entry("b", 4, "screenshot"),
+    ];
+
+    it("should replay the most recent session by default", () => {
+      const selected = selectReplayEntries(entries, parseReplayArgs([]));
+      expect(selected.map(({ seq }) => seq)).toEqual([1, 2, 3, 4]);
+      expect(selected.every(({ session }) => session === "b")).toBe(true);
+    });
+
+    it("should narrow the replay by session, range, tool and outcome", () => {
+      expect(selectReplayEntries(entries, parseReplayArgs(["--session", "a"]))).toHaveLength(1);
+      expect(
+        selectReplayEntries(entries, parseReplayArgs(["--from", "2", "--to", "3"])).map(({ seq }) => seq)
+      ).toEqual([2, 3]);
+      expect(
+        selectReplayEntries(entries, parseReplayArgs(["--tool", "interact", "--skip-errors"])).map(({ seq }) => seq)
+      ).toEqual([3]);
+    });
+
+    it("should pass endpoint options through and reject --start", () => {
+      const options = parseReplayArgs(["--port", "3000", "--token", "secret", "--dry-run"]);
+      expect(options.endpoint).toMatchObject({ port: 3000, token: "secret" });
+      expect(options.dryRun).toBe(true);
+      expect(() => parseReplayArgs(["--start"])).toThrow("does not start Vite");
+      expect(() => parseReplayArgs(["--from", "x"])).toThrow("Invalid value for --from: x");
+    });
+  });
+});
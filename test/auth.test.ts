@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod";
+import { ViteMcpServer } from "../src/server.js";
+import { isAuthorized, isNetworkHost, isOriginAllowed, resolveMcpAuth } from "../src/auth.js";
+import type { McpAuth } from "../src/auth.js";
+import type { AdapterDefinition } from "../src/adapter/types.js";
+
+const pingAdapter: AdapterDefinition = {
+  name: "ping",
+  description: "Ping the page",
+  inputSchema: z.object({}),
+  handler: async () => ({ content: [] }),
+};
+
+describe("Auth", () => {
+  describe("Token", () => {
+    it("should generate a token when requested", () => {
+      const { token } = resolveMcpAuth({ token: true });
+      expect(token).toMatch(/^[\w-]{32}$/);
+      expect(resolveMcpAuth({ token: true }).token).not.toBe(token);
+    });
+
+    it("should not require a token by default", () => {
+      expect(resolveMcpAuth().token).toBeUndefined();
+      expect(isAuthorized(undefined, {})).toBe(true);
+    });
+
+    it("should reject an empty configured token", () => {
+      expect(() => resolveMcpAuth({ token: " " })).toThrow("must not be empty");
+    });
+
+    it("should check the bearer token", () => {
+      const auth: McpAuth = { token: "secret" };
+      expect(isAuthorized("Bearer secret", auth)).toBe(true);
+      expect(isAuthorized("bearer secret", auth)).toBe(true);
+      expect(isAuthorized("Bearer wrong", auth)).toBe(false);
+      expect(isAuthorized("Basic secret", auth)).toBe(false);
+      expect(isAuthorized(undefined, auth)).toBe(false);
+    });
+  });
+
+  describe("Origins", () => {
+    it("should allow loopback origins and non-browser clients by default", () => {
+      expect(isOriginAllowed(undefined, {})).toBe(true);
+      expect(isOriginAllowed("http://localhost:5173", {})).toBe(true);
+      expect(isOriginAllowed("http://127.0.0.1:3000", {})).toBe(true);
+      expect(isOriginAllowed("http://[::1]:5173", {})).toBe(true);
+      expect(isOriginAllowed("https://evil.example", {})).toBe(false);
+      expect(isOriginAllowed("http://localhost.evil.example", {})).toBe(false);
+      expect(isOriginAllowed("null", {})).toBe(false);
+    });
+
+    it("should only allow listed origins when configured", () => {
+      const auth = resolveMcpAuth({ allowedOrigins: ["https://inspector.example/"] });
+      expect(isOriginAllowed("https://inspector.example", auth)).toBe(true);
+      expect(isOriginAllowed("http://localhost:5173", auth)).toBe(false);
+      expect(isOriginAllowed("https://evil.example", { allowedOrigins: ["*"] })).toBe(true);
+    });
+  });
+
+  describe("Network Hosts", () => {
+    it("should detect hosts that expose the dev server on the network", () => {
+      expect(isNetworkHost(undefined)).toBe(false);
+      expect(isNetworkHost("localhost")).toBe(false);
+      expect(isNetworkHost("127.0.0.1")).toBe(false);
+      expect(isNetworkHost("::1")).toBe(false);
+      expect(isNetworkHost(true)).toBe(true);
+      expect(isNetworkHost("0.0.0.0")).toBe(true);
+      expect(isNetworkHost("192.168.1.20")).toBe(true);
+    });
+  });
+
+  describe("Server", () => {
+    let http: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise((resolve) => (http ? http.close(resolve) : resolve(undefined)));
+      http = undefined;
+    });
+
+    async function start(auth: McpAuth): Promise<string> {
+      const server = new ViteMcpServer({ name: "test", version: "1.0.0", adapters: [], auth });
+      server.registerAdapter(pingAdapter, async () => ({ content: [] }));
+      server.markInitialized();
+      http = createServer((req, res) => void server.handleHTTP(req, res));
+      await new Promise<void>((resolve) => http!.listen(0, "127.0.0.1", resolve));
+      return `http://127.0.0.1:${(http.address() as AddressInfo).port}/__mcp`;
+    }
+
+    it("should require the bearer token", async () => {
+      const url = await start({ token: "secret" });
+
+      const rejected = await fetch(url);
+      expect(rejected.status).toBe(401);
+      expect(rejected.headers.get("www-authenticate")).toContain("Bearer");
+
+      const accepted = await fetch(url, { headers: { Authorization: "Bearer secret" } });
+      expect(accepted.status).toBe(200);
+    });
+
+    it("should answer preflight requests without the token", async () => {
+      const url = await start({ token: "secret" });
+      const response = await fetch(url, { method: "OPTIONS", headers: { Origin: "http://localhost:5173" } });
+      expect(response.status).toBe(200);
+      expect(response.headers.get("access-control-allow-origin")).toBe("http://localhost:5173");
+    });
+
+    it("should reject browser requests from other origins", async () => {
+      const url = await start({});
+      const response = await fetch(url, { headers: { Origin: "https://evil.example" } });
+      expect(response.status).toBe(403);
+      expect(response.headers.get("access-control-allow-origin")).toBeNull();
+    });
+  });
+});
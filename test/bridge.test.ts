@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { join } from "node:path";
+import { mcpBridge, resolveBrowserHandler } from "../src/bridge/bridge.js";
+import { BUILTIN_BROWSER_ENTRY } from "../src/adapter/builtin.js";
+import builtinHandlers from "../src/bridge/handlers/index.js";
+import { viteMcp } from "../src/index.js";
+
+const context = { server: {} };
+
+describe("Browser Bridge", () => {
+  describe("Navigation", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it("should send one client update and one components change per route change", () => {
+      vi.useFakeTimers();
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      const window = Object.assign(new EventTarget(), {
+        location: { href: "http://localhost:5173/" },
+        history: { pushState: vi.fn(), replaceState: vi.fn() } as unknown as History,
+      });
+      vi.stubGlobal("window", window);
+      vi.stubGlobal("document", { title: "App", visibilityState: "visible", addEventListener: () => {}, querySelector: () => null });
+      vi.stubGlobal("Storage", class {});
+      const hot = { send: vi.fn(), on: vi.fn() };
+      mcpBridge(hot, new Map());
+
+      const navigations: Array<() => void> = [
+        () => window.dispatchEvent(new Event("popstate")),
+        () => window.dispatchEvent(new Event("hashchange")),
+        () => window.history.pushState({}, "", "/next"),
+      ];
+      for (const navigate of navigations) {
+        hot.send.mockClear();
+        navigate();
+        vi.advanceTimersByTime(100);
+
+        expect(hot.send.mock.calls).toEqual([
+          ["mcp:bridge-update", expect.objectContaining({ url: "http://localhost:5173/" })],
+          ["mcp:resource-changed", expect.objectContaining({ uris: ["vite://components"] })],
+        ]);
+      }
+    });
+  });
+
+  describe("resolveBrowserHandler", () => {
+    it("should use a default-exported function as the handler", async () => {
+      const handler = resolveBrowserHandler(
+        { default: async () => ({ content: [{ type: "text", text: "single" }] }) },
+        "flags",
+        "./flags.ts"
+      );
+      const result = await handler.call(context, {});
+      expect(result.content[0]).toEqual({ type: "text", text: "single" });
+    });
+
+    it("should look up handlers keyed by adapter name", async () => {
+      const entry = {
+        default: {
+          flags: async () => ({ content: [{ type: "text" as const, text: "flags" }] }),
+          user: async () => ({ content: [{ type: "text" as const, text: "user" }] }),
+        },
+      };
+      const result = await resolveBrowserHandler(entry, "user", "./entry.ts").call(context, {});
+      expect(result.content[0]).toEqual({ type: "text", text: "user" });
+    });
+
+    it("should reject calls when the entry has no matching handler", async () => {
+      const handler = resolveBrowserHandler({ default: {} }, "flags", "./flags.ts");
+      await expect(handler.call(context, {})).rejects.toThrow(
+        "Browser entry ./flags.ts does not export a handler for flags"
+      );
+    });
+  });
+
+  describe("Built-in browser handlers", () => {
+    function startPlugin() {
+      const plugin = viteMcp({ auditLog: false }) as any;
+      plugin.configResolved({ mode: "development", root: "/app" });
+      return plugin;
+    }
+
+    it("should import the shared handlers module once for the adapters that use it", () => {
+      const code: string = startPlugin().load("\0vite-mcp-bridge.ts");
+
+      expect(code.match(/import \* as __mcpBrowserEntry\d+ from "vite-mcp\/bridge\/handlers";/g)).toHaveLength(1);
+      expect(code).toContain('__mcpResolveBrowserHandler(__mcpBrowserEntry0, "indexed_db", "vite-mcp/bridge/handlers")');
+    });
+
+    it("should resolve the shared handlers module to the sources when the package is not built", () => {
+      expect(startPlugin().resolveId(BUILTIN_BROWSER_ENTRY)).toBe(join(__dirname, "..", "src", "bridge", "handlers", "index.ts"));
+    });
+
+    it("should export a handler for every built-in adapter that uses the shared module", () => {
+      const code: string = startPlugin().load("\0vite-mcp-bridge.ts");
+      const names = [...code.matchAll(/__mcpResolveBrowserHandler\(__mcpBrowserEntry\d+, "([^"]+)"/g)].map(([, name]) => name!);
+
+      expect(names.length).toBeGreaterThan(0);
+      for (const name of names) {
+        expect(typeof (builtinHandlers as { [name: string]: unknown })[name]).toBe("function");
+      }
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  BROADCAST_TIMEOUT_MS,
+  broadcastOutputSchema,
+  combineClientResults,
+  createBroadcastTool,
+} from "../src/broadcast.js";
+import type { BridgeClientInfo } from "../src/client-registry.js";
+import { localStorageAdapter } from "../src/adapter/local-storage.js";
+
+function createClient(clientId: string): BridgeClientInfo {
+  return {
+    clientId,
+    url: `http://localhost:5173/${clientId}`,
+    title: clientId,
+    visibility: "visible",
+    connectedAt: 0,
+    lastActiveAt: 0,
+  };
+}
+
+function textResult(value: unknown, isError = false): CallToolResult {
+  const result: CallToolResult = {
+    content: [{ type: "text", text: JSON.stringify(value) }],
+  };
+  if (isError) {
+    result.isError = true;
+  }
+  return result;
+}
+
+describe("Broadcast", () => {
+  describe("combineClientResults", () => {
+    it("should key results by client id and report each outcome separately", () => {
+      const combined = combineClientResults("local_storage", [
+        { client: createClient("a"), durationMs: 5, status: "ok", result: textResult({ action: "read", items: [] }) },
+        { client: createClient("b"), durationMs: 7, status: "error", result: textResult({ error: "denied" }, true) },
+        { client: createClient("c"), durationMs: 9, status: "error", error: "Tool not found" },
+        { client: createClient("d"), durationMs: 100, status: "timeout" },
+      ]);
+
+      const output = broadcastOutputSchema.parse(combined.structuredContent);
+      expect(combined.isError).toBeUndefined();
+      expect(output.summary).toEqual({ total: 4, ok: 1, error: 2, timeout: 1 });
+      expect(output.clients["a"]?.result).toEqual({ action: "read", items: [] });
+      expect(output.clients["b"]?.error).toBe("denied");
+      expect(output.clients["c"]?.error).toBe("Tool not found");
+      expect(output.clients["d"]?.status).toBe("timeout");
+    });
+
+    it("should prefer structured content over the text block", () => {
+      const combined = combineClientResults("read-console", [
+        {
+          client: createClient("a"),
+          durationMs: 1,
+          status: "ok",
+          result: { structuredContent: { logs: [] }, content: [{ type: "text", text: "No console logs found." }] },
+        },
+      ]);
+
+      const output = broadcastOutputSchema.parse(combined.structuredContent);
+      expect(output.clients["a"]?.result).toEqual({ logs: [] });
+    });
+  });
+
+  describe("Tool", () => {
+    it("should validate params against the adapter input schema", async () => {
+      const dispatch = vi.fn();
+      const tool = createBroadcastTool([localStorageAdapter], dispatch);
+
+      const result = await tool.handler({ tool: "local_storage", params: { action: "drop" } });
+
+      expect(result.isError).toBe(true);
+      expect(dispatch).not.toHaveBeenCalled();
+    });
+
+    it("should dispatch with the default deadline", async () => {
+      const dispatch = vi.fn(async () => textResult({}));
+      const tool = createBroadcastTool([localStorageAdapter], dispatch);
+
+      await tool.handler({ tool: "local_storage", params: { action: "read" } });
+
+      expect(dispatch).toHaveBeenCalledWith("local_storage", { action: "read" }, BROADCAST_TIMEOUT_MS, undefined);
+    });
+
+    it("should reject unknown tools", async () => {
+      const tool = createBroadcastTool([localStorageAdapter], vi.fn());
+      const result = await tool.handler({ tool: "missing" });
+      expect(result.isError).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+import { mcpBridge } from "../src/bridge/bridge.js";
+import type { AdapterDefinition } from "../src/adapter/types.js";
+import { startPlugin } from "./plugin-server.js";
+
+function setupBridge(handler: (this: { signal: AbortSignal }) => Promise<unknown>) {
+  const noop = () => {};
+  vi.stubGlobal("window", {
+    addEventListener: noop,
+    dispatchEvent: noop,
+    location: { href: "http://localhost:5173/" },
+    history: { pushState: noop, replaceState: noop },
+  });
+  vi.stubGlobal("document", {
+    title: "App",
+    visibilityState: "visible",
+    addEventListener: noop,
+    querySelector: () => null,
+  });
+  vi.stubGlobal("Storage", class {});
+
+  const listeners: { [event: string]: (data: any) => void } = {};
+  const hot = {
+    send: vi.fn(),
+    on: (event: string, listener: (data: any) => void) => {
+      listeners[event] = listener;
+    },
+  };
+  mcpBridge(hot, new Map([["slow", { handler: handler as any }]]));
+
+  const results = () => hot.send.mock.calls.filter(([event]) => event === "mcp:tool-result");
+  return { listeners, results };
+}
+
+const slowAdapter: AdapterDefinition = {
+  name: "slow",
+  description: "Never answers",
+  inputSchema: z.object({}),
+  handler: async () => ({ content: [] }),
+};
+
+describe("Cancellation", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe("Bridge", () => {
+    it("should abort the handler's signal and drop the result", async () => {
+      let signal: AbortSignal | undefined;
+      const { listeners, results } = setupBridge(function () {
+        signal = this.signal;
+        return new Promise((_resolve, reject) => {
+          this.signal.addEventListener("abort", () => reject(this.signal.reason));
+        });
+      });
+
+      listeners["mcp:tool-call"]!({ id: "call-1", name: "slow", params: {} });
+      listeners["mcp:tool-cancel"]!({ id: "call-1", reason: "cancelled" });
+
+      expect(signal?.aborted).toBe(true);
+      expect((signal?.reason as DOMException).name).toBe("AbortError");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(results()).toEqual([]);
+    });
+
+    it("should ignore cancellations for finished calls", async () => {
+      const { listeners, results } = setupBridge(async () => ({ content: [] }));
+
+      listeners["mcp:tool-call"]!({ id: "call-1", name: "slow", params: {} });
+      await vi.waitFor(() => expect(results()).toHaveLength(1));
+
+      expect(() => listeners["mcp:tool-cancel"]!({ id: "call-1" })).not.toThrow();
+    });
+  });
+
+  describe("Plugin", () => {
+    it("should use the adapter's timeout and cancel the call in the browser", async () => {
+      const { client, sent, close } = await startPlugin({
+        adapters: [{ ...slowAdapter, timeout: 50 }],
+        timeout: 10_000,
+      });
+      try {
+        const result = await client.callTool({ name: "slow", arguments: {} });
+
+        expect(result.isError).toBe(true);
+        expect(JSON.stringify(result.content)).toContain("timeout after 50 ms");
+        const [call] = sent("mcp:tool-call");
+        expect(sent("mcp:tool-cancel")).toEqual([{ id: call.id, reason: "timeout" }]);
+      } finally {
+        await close();
+      }
+    });
+
+    it("should forward client cancellation to the browser", async () => {
+      const { client, sent, close } = await startPlugin({ adapters: [slowAdapter], timeout: 10_000 });
+      try {
+        const controller = new AbortController();
+        const pending = client.callTool({ name: "slow", arguments: {} }, undefined, { signal: controller.signal });
+        await vi.waitFor(() => expect(sent("mcp:tool-call")).toHaveLength(1));
+
+        controller.abort();
+        await expect(pending).rejects.toThrow();
+
+        await vi.waitFor(() => expect(sent("mcp:tool-cancel")).toEqual([{ id: expect.any(String), reason: "cancelled" }]));
+      } finally {
+        await close();
+      }
+    });
+  });
+});
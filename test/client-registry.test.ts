@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { WebSocketClient } from "vite";
+import { z } from "zod";
+import type { AdapterDefinition } from "../src/adapter/types.js";
+import { ClientRegistry, createListClientsTool } from "../src/client-registry.js";
+import { startPlugin } from "./plugin-server.js";
+
+const echoAdapter: AdapterDefinition = {
+  name: "echo",
+  description: "Answered by the test",
+  inputSchema: z.object({}),
+  handler: async () => ({ content: [] }),
+};
+
+function createSocket(): WebSocketClient {
+  return { send: vi.fn(), socket: {} } as unknown as WebSocketClient;
+}
+
+describe("Client Registry", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("Registration", () => {
+    it("should register clients that report a clientId", () => {
+      const registry = new ClientRegistry();
+      const info = registry.register(createSocket(), {
+        clientId: "tab-1",
+        url: "http://localhost:5173/",
+        title: "App",
+        visibility: "visible",
+      });
+
+      expect(info?.clientId).toBe("tab-1");
+      expect(registry.size).toBe(1);
+      expect(registry.list()[0]?.url).toBe("http://localhost:5173/");
+    });
+
+    it("should ignore bridges without a clientId", () => {
+      const registry = new ClientRegistry();
+      expect(registry.register(createSocket(), {})).toBeUndefined();
+      expect(registry.size).toBe(0);
+    });
+
+    it("should drop clients whose socket disconnected", () => {
+      const registry = new ClientRegistry();
+      const connected = createSocket();
+      registry.register(connected, { clientId: "tab-1" });
+      registry.register(createSocket(), { clientId: "tab-2" });
+
+      registry.prune(new Set([connected]));
+
+      expect(registry.list().map((info) => info.clientId)).toEqual(["tab-1"]);
+    });
+  });
+
+  describe("Default Target", () => {
+    it("should prefer a visible tab over a hidden one", () => {
+      const registry = new ClientRegistry();
+      registry.register(createSocket(), { clientId: "visible", visibility: "visible" });
+      registry.register(createSocket(), { clientId: "hidden", visibility: "hidden" });
+
+      expect(registry.pickDefault()?.info.clientId).toBe("visible");
+    });
+
+    it("should prefer the most recently active visible tab", () => {
+      vi.useFakeTimers();
+      const registry = new ClientRegistry();
+      vi.setSystemTime(1000);
+      registry.register(createSocket(), { clientId: "tab-1", visibility: "visible" });
+      vi.setSystemTime(2000);
+      registry.register(createSocket(), { clientId: "tab-2", visibility: "visible" });
+      expect(registry.pickDefault()?.info.clientId).toBe("tab-2");
+
+      vi.setSystemTime(3000);
+      registry.update({ clientId: "tab-1", visibility: "visible" });
+      expect(registry.pickDefault()?.info.clientId).toBe("tab-1");
+    });
+  });
+
+  describe("list_clients Tool", () => {
+    it("should mark the default client", async () => {
+      const registry = new ClientRegistry();
+      registry.register(createSocket(), { clientId: "tab-1", visibility: "hidden" });
+      registry.register(createSocket(), { clientId: "tab-2", visibility: "visible" });
+
+      const tool = createListClientsTool(() => registry);
+      const result = await tool.handler({});
+      const output = tool.outputSchema!.parse(result.structuredContent) as {
+        clients: Array<{ clientId: string; default: boolean }>;
+        count: number;
+      };
+
+      expect(output.count).toBe(2);
+      expect(output.clients.find((client) => client.default)?.clientId).toBe("tab-2");
+    });
+  });
+
+  describe("Plugin", () => {
+    const calls = (tab: { send: ReturnType<typeof vi.fn> }) =>
+      tab.send.mock.calls.filter(([event]) => event === "mcp:tool-call").map(([, data]) => data);
+
+    it("should send each call to one registered tab", async () => {
+      const { client, socket, listeners, addTab, close } = await startPlugin({ adapters: [echoAdapter], timeout: 10_000 });
+      const hidden = addTab({ clientId: "tab-2", visibility: "hidden" });
+      const answer = (tab: { send: ReturnType<typeof vi.fn> }, text: string) =>
+        listeners["mcp:tool-result"]!({ id: calls(tab).at(-1).id, result: { content: [{ type: "text", text }] } }, tab);
+      try {
+        const targeted = client.callTool({ name: "echo", arguments: { clientId: "tab-2" } });
+        await vi.waitFor(() => expect(calls(hidden)).toHaveLength(1));
+        answer(hidden, "from tab-2");
+        expect((await targeted).content).toEqual([{ type: "text", text: "from tab-2" }]);
+        expect(calls(hidden)[0].clientId).toBe("tab-2");
+
+        // Without a clientId the call goes to the default tab, the visible one
+        const fallback = client.callTool({ name: "echo", arguments: {} });
+        await vi.waitFor(() => expect(calls(socket)).toHaveLength(1));
+        answer(socket, "from tab-1");
+        expect((await fallback).content).toEqual([{ type: "text", text: "from tab-1" }]);
+        expect(calls(socket)[0].clientId).toBe("tab-1");
+        expect(calls(hidden)).toHaveLength(1);
+
+        const unknown = await client.callTool({ name: "echo", arguments: { clientId: "tab-3" } });
+        expect(unknown.isError).toBe(true);
+        expect(JSON.stringify(unknown.content)).toContain("Client not found: tab-3");
+      } finally {
+        await close();
+      }
+    });
+
+    it("should not broadcast while no bridge has registered", async () => {
+      const { client, addTab, close } = await startPlugin({ adapters: [echoAdapter], timeout: 10_000 }, { connected: false });
+      const tabs = [addTab(), addTab()];
+      try {
+        const result = await client.callTool({ name: "echo", arguments: {} });
+
+        expect(result.isError).toBe(true);
+        expect(JSON.stringify(result.content)).toContain("No vite-mcp bridge has registered yet");
+        expect(tabs.flatMap(calls)).toEqual([]);
+      } finally {
+        await close();
+      }
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mcpBridge } from "../src/bridge/bridge.js";
+import { viteMcp } from "../src/index.js";
+import { startPlugin } from "./plugin-server.js";
+
+type Decision = "approved" | "denied" | "timeout";
+
+function setupBridge(overlay: { request?: (request: unknown) => Promise<Decision> } | null) {
+  const noop = () => {};
+  vi.stubGlobal("window", {
+    addEventListener: noop,
+    dispatchEvent: noop,
+    location: { href: "http://localhost:5173/" },
+    history: { pushState: noop, replaceState: noop },
+  });
+  vi.stubGlobal("document", {
+    title: "App",
+    visibilityState: "visible",
+    addEventListener: noop,
+    querySelector: (selector: string) => (selector === "mcp-confirm-element" ? overlay : null),
+    createElement: () => ({}),
+    body: { appendChild: (node: unknown) => node },
+  });
+  vi.stubGlobal("Storage", class {});
+
+  const listeners: { [event: string]: (data: any) => void } = {};
+  const hot = {
+    send: vi.fn(),
+    on: (event: string, listener: (data: any) => void) => {
+      listeners[event] = listener;
+    },
+  };
+  const handler = vi.fn(async () => ({ content: [{ type: "text" as const, text: "cleared" }] }));
+  mcpBridge(
+    hot,
+    new Map([
+      ["local_storage", { handler, allowedActions: ["read", "clear"], confirmActions: ["clear"], confirmTimeout: 5000 }],
+    ])
+  );
+
+  const call = async (action: string) => {
+    listeners["mcp:tool-call"]!({ id: "call-1", name: "local_storage", params: { action } });
+    await vi.waitFor(() => {
+      expect(hot.send.mock.calls.some(([event]) => event === "mcp:tool-result")).toBe(true);
+    });
+    return hot.send.mock.calls.find(([event]) => event === "mcp:tool-result")![1];
+  };
+
+  return { handler, call };
+}
+
+describe("Confirm Permission", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe("Bridge", () => {
+    it("should run confirm actions once the developer approves them", async () => {
+      const request = vi.fn(async () => "approved" as const);
+      const { handler, call } = setupBridge({ request });
+
+      const message = await call("clear");
+
+      expect(request).toHaveBeenCalledWith({
+        tool: "local_storage",
+        action: "clear",
+        timeout: 5000,
+        signal: expect.any(AbortSignal),
+        params: { action: "clear" },
+      });
+      expect(handler).toHaveBeenCalled();
+      expect(message.result._meta["vite-mcp/confirmation"]).toEqual({
+        status: "approved",
+        tool: "local_storage",
+        action: "clear",
+      });
+    });
+
+    it("should return the denial as a structured result", async () => {
+      const { handler, call } = setupBridge({ request: async () => "denied" });
+
+      const message = await call("clear");
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(message.result.isError).toBe(true);
+      expect(message.result.structuredContent).toEqual({
+        confirmation: { status: "denied", tool: "local_storage", action: "clear" },
+      });
+    });
+
+    it("should report timeouts and missing overlays", async () => {
+      expect((await setupBridge({ request: async () => "timeout" }).call("clear")).result.structuredContent)
+        .toMatchObject({ confirmation: { status: "timeout" } });
+      vi.unstubAllGlobals();
+      expect((await setupBridge(null).call("clear")).result.structuredContent)
+        .toMatchObject({ confirmation: { status: "unavailable" } });
+    });
+
+    it("should not ask before other actions", async () => {
+      const request = vi.fn(async () => "approved" as const);
+      const { handler, call } = setupBridge({ request });
+
+      await call("read");
+
+      expect(request).not.toHaveBeenCalled();
+      expect(handler).toHaveBeenCalled();
+    });
+  });
+
+  describe("Plugin", () => {
+    function loadBridge(options: Parameters<typeof viteMcp>[0]): string {
+      const plugin = viteMcp(options) as any;
+      plugin.configResolved({ mode: "development", root: "/app" });
+      return plugin.load("\0vite-mcp-bridge.ts");
+    }
+
+    it("should pass confirm actions to the bridge and register the overlay", () => {
+      const code = loadBridge({ adapterConfig: { localStorage: { delete: "confirm" } }, confirmTimeout: 10000 });
+
+      expect(code).toContain('confirmActions: ["remove","clear"], confirmTimeout: 10000');
+      expect(code).toContain('"mcp-confirm"');
+    });
+
+    it("should leave the overlay out when nothing needs approval", () => {
+      expect(loadBridge({})).not.toContain('"mcp-confirm"');
+    });
+
+    it("should give broadcast confirm actions the confirmation window on top of the deadline", async () => {
+      const { client, listeners, sent, close } = await startPlugin({
+        adapterConfig: { localStorage: { delete: "confirm" } },
+        confirmTimeout: 500,
+      });
+      try {
+        const broadcast = (action: string) =>
+          client.callTool({ name: "broadcast", arguments: { tool: "local_storage", params: { action }, timeout: 100 } });
+
+        const pending = broadcast("clear");
+        await vi.waitFor(() => expect(sent("mcp:tool-call")).toHaveLength(1));
+        // The developer approves after the broadcast deadline alone would have passed
+        await new Promise((resolve) => setTimeout(resolve, 250));
+        const [call] = sent("mcp:tool-call");
+        listeners["mcp:tool-result"]!({ id: call.id, result: { content: [{ type: "text", text: '{"action":"clear"}' }] } }, null);
+
+        const cleared = (await pending).structuredContent as { summary: { ok: number; timeout: number } };
+        expect(cleared.summary).toMatchObject({ ok: 1, timeout: 0 });
+
+        const read = (await broadcast("read")).structuredContent as { summary: { ok: number; timeout: number } };
+        expect(read.summary).toMatchObject({ ok: 0, timeout: 1 });
+      } finally {
+        await close();
+      }
+    });
+  });
+});
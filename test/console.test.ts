@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import {
   consoleAdapter,
   consoleAdapterInputSchema,
@@ -232,5 +232,60 @@ describe("Console Adapter", () => {
       }
     });
   });
-});
 
+  describe("Captured Errors", () => {
+    const entries = [
+      { level: "log", kind: "console", args: ["ready"], timestamp: 1 },
+      { level: "error", kind: "console", args: ["boom"], timestamp: 2 },
+      {
+        level: "error",
+        kind: "uncaught",
+        args: ["x is undefined"],
+        message: "x is undefined",
+        source: "http://localhost:5173/src/main.ts",
+        line: 12,
+        column: 5,
+        stack: "TypeError: x is undefined\n    at main.ts:12:5",
+        errorName: "TypeError",
+        timestamp: 3,
+      },
+      {
+        level: "error",
+        kind: "unhandledrejection",
+        args: ["Unhandled promise rejection: nope"],
+        message: "Unhandled promise rejection: nope",
+        errorName: "UnhandledRejection",
+        timestamp: 4,
+      },
+    ];
+
+    beforeEach(() => {
+      (globalThis as any).window = { __mcpConsoleEntries: entries };
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).window;
+    });
+
+    it("should accept a single kind or a list of kinds", () => {
+      expect(consoleAdapterInputSchema.safeParse({ kind: "uncaught" }).success).toBe(true);
+      expect(consoleAdapterInputSchema.safeParse({ kind: ["uncaught", "csp"] }).success).toBe(true);
+      expect(consoleAdapterInputSchema.safeParse({ kind: "network" }).success).toBe(false);
+    });
+
+    it("should include uncaught errors when filtering by error level", async () => {
+      const result = await consoleAdapter.handler!.call({ server: {} }, { type: "error" });
+      const output = consoleAdapterOutputSchema.parse(result.structuredContent);
+      expect(output.logs.map((log) => log.kind)).toEqual(["console", "uncaught", "unhandledrejection"]);
+      expect(output.logs[1]).toMatchObject({ source: "http://localhost:5173/src/main.ts", line: 12, column: 5, errorName: "TypeError" });
+    });
+
+    it("should filter by kind", async () => {
+      const result = await consoleAdapter.handler!.call({ server: {} }, { kind: ["uncaught", "unhandledrejection"] });
+      const output = consoleAdapterOutputSchema.parse(result.structuredContent);
+      expect(output.logs).toHaveLength(2);
+      expect(result.content[0]).toMatchObject({ type: "text" });
+      expect((result.content[0] as { text: string }).text).toContain("[uncaught] TypeError: x is undefined (http://localhost:5173/src/main.ts:12:5)");
+    });
+  });
+});
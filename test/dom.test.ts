@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { domAdapter, domAdapterInputSchema, domAdapterOutputSchema } from "../src/adapter/dom.js";
+import { h, installFakeDom, type FakeElement } from "./fake-dom.js";
+
+async function query(params: { [key: string]: unknown }) {
+  const result = await domAdapter.handler!.call({ server: {} }, params);
+  expect(result.isError).toBeUndefined();
+  const data = domAdapterOutputSchema.parse(result.structuredContent);
+  return { data, summary: (result.content[0] as { text: string }).text };
+}
+
+describe("DOM Adapter", () => {
+  describe("Input Schema Validation", () => {
+    it("should accept a CSS selector with options", () => {
+      const result = domAdapterInputSchema.safeParse({
+        selector: "button.primary",
+        limit: "5",
+        styles: ["display", "color"],
+        includeHtml: false,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.limit).toBe(5);
+      }
+    });
+
+    it("should accept an xpath or a component name", () => {
+      expect(domAdapterInputSchema.safeParse({ xpath: "//main//h1" }).success).toBe(true);
+      expect(domAdapterInputSchema.safeParse({ component: "TodoList" }).success).toBe(true);
+    });
+
+    it("should reject a limit below 1", () => {
+      expect(domAdapterInputSchema.safeParse({ selector: "div", limit: 0 }).success).toBe(false);
+    });
+  });
+
+  describe("Output Schema Validation", () => {
+    it("should accept an element with an accessibility summary", () => {
+      const result = domAdapterOutputSchema.safeParse({
+        total: 1,
+        count: 1,
+        elements: [
+          {
+            index: 0,
+            selector: "#save",
+            tagName: "button",
+            id: "save",
+            classes: ["primary"],
+            attributes: { id: "save", class: "primary" },
+            text: "Save",
+            html: '<button id="save" class="primary">Save</button>',
+            htmlSize: 47,
+            boundingBox: { x: 10, y: 20, width: 80, height: 32 },
+            visible: true,
+            inViewport: true,
+            styles: { display: "inline-block" },
+            accessibility: { role: "button", name: "Save", states: [], focusable: true, hidden: false },
+            components: ["Toolbar", "App"],
+          },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("Handler", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should return an error outside the browser", async () => {
+      const result = await domAdapter.handler!.call({ server: {} }, { selector: "body" });
+      expect(result.isError).toBe(true);
+    });
+
+    it("should require a selector, xpath or component", async () => {
+      installFakeDom(h("body"));
+      const result = await domAdapter.handler!.call({ server: {} }, {});
+
+      expect(result.isError).toBe(true);
+      expect((result.content[0] as { text: string }).text).toContain("Provide a selector, xpath or component to query");
+    });
+
+    it("should describe elements matched by a selector with their accessibility summary", async () => {
+      const body = h(
+        "body",
+        {},
+        h(
+          "main",
+          {},
+          h("h2", {}, "Checkout"),
+          h("label", { for: "email" }, "Email"),
+          h("input", { id: "email", type: "email", required: "" }),
+          h("button", { class: "primary" }, "  Pay\n  now "),
+          h("button", { class: "ghost", disabled: "", "aria-describedby": "hint" }, "Cancel"),
+          h("p", { id: "hint" }, "Nothing is charged yet")
+        ),
+        h("div", { "aria-hidden": "true" }, h("button", { "aria-label": "Close" }, "×"))
+      );
+      installFakeDom(body);
+      body.children[0]!.children[4]!.style = { color: "gray" };
+
+      const { data, summary } = await query({ selector: "button, input, h2", styles: ["color"] });
+
+      expect(data.total).toBe(5);
+      expect(data.elements.map((element) => [element.selector, element.accessibility])).toEqual([
+        ["body > main > h2", { role: "heading", name: "Checkout", states: ["level 2"], focusable: false, hidden: false }],
+        ["#email", { role: "textbox", name: "Email", states: ["required"], focusable: true, hidden: false }],
+        ["body > main > button:nth-of-type(1)", { role: "button", name: "Pay now", states: [], focusable: true, hidden: false }],
+        [
+          "body > main > button:nth-of-type(2)",
+          { role: "button", name: "Cancel", states: ["disabled"], focusable: false, hidden: false, description: "Nothing is charged yet" },
+        ],
+        ["body > div > button", { role: "button", name: "Close", states: [], focusable: true, hidden: true }],
+      ]);
+      expect(data.elements[2]).toMatchObject({
+        tagName: "button",
+        classes: ["primary"],
+        text: "Pay now",
+        html: '<button class="primary">  Pay\n  now </button>',
+        visible: true,
+        inViewport: true,
+        styles: { color: "" },
+      });
+      expect(data.elements[3]!.styles).toEqual({ color: "gray" });
+      expect(summary).toBe(
+        [
+          "Matched 5 element(s), showing 5:",
+          '1. heading "Checkout" body > main > h2 [level 2, in viewport]',
+          '2. textbox "Email" #email [required, in viewport]',
+          '3. button "Pay now" body > main > button:nth-of-type(1) [in viewport]',
+          '4. button "Cancel" body > main > button:nth-of-type(2) [disabled, in viewport]',
+          '5. button "Close" body > div > button [hidden]',
+        ].join("\n")
+      );
+    });
+
+    it("should honour the limit and truncate long text and HTML", async () => {
+      installFakeDom(h("body", {}, ...Array.from({ length: 3 }, () => h("p", {}, "x".repeat(50)))));
+      const { data } = await query({ selector: "p", limit: 2, maxTextLength: 10, maxHtmlLength: 20, includeStyles: false });
+
+      expect(data).toMatchObject({ total: 3, count: 2 });
+      expect(data.elements[0]).toMatchObject({ text: "x".repeat(10), textTruncated: true, htmlSize: 57, htmlTruncated: true });
+      expect(data.elements[0]!.html).toHaveLength(20);
+      expect(data.elements[0]!.styles).toBeUndefined();
+    });
+
+    it("should keep only elements from an XPath snapshot", async () => {
+      const heading = h("h1", {}, "Title");
+      installFakeDom(h("body", {}, heading));
+      const evaluate = vi.fn(() => {
+        const nodes = [{ nodeType: 3 }, heading];
+        return { snapshotLength: nodes.length, snapshotItem: (index: number) => nodes[index] ?? null };
+      });
+      (document as unknown as { evaluate: typeof evaluate }).evaluate = evaluate;
+
+      const { data } = await query({ xpath: "//h1/text() | //h1" });
+
+      expect(evaluate).toHaveBeenCalledWith("//h1/text() | //h1", document, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+      expect(data.elements.map((element) => element.selector)).toEqual(["body > h1"]);
+    });
+
+    it("should find the top-level nodes rendered by a React component and list their owners", async () => {
+      const app = { type: function App() {}, return: null };
+      const list = { type: { displayName: "TodoList" }, return: app, alternate: null as unknown };
+      const listAlternate = { ...list, alternate: list };
+      list.alternate = listAlternate;
+      const host = (fiber: object) => ({ type: "li", return: fiber });
+
+      const items = [h("li", {}, "Milk"), h("li", {}, h("span", {}, "Eggs"))];
+      const footer = h("footer", {}, "2 items");
+      installFakeDom(h("body", {}, h("ul", {}, ...items), footer));
+      const attach = (element: FakeElement, fiber: object) => ((element as unknown as { [key: string]: unknown })["__reactFiber$k1"] = fiber);
+      // The span sees the alternate fiber, as after a re-render
+      attach(items[0]!, host(list));
+      attach(items[1]!, host(list));
+      attach(items[1]!.children[0]!, host({ type: "li", return: listAlternate }));
+      attach(footer, host(app));
+
+      const { data, summary } = await query({ component: "TodoList" });
+
+      expect(data.elements.map((element) => [element.text, element.components])).toEqual([
+        ["Milk", ["TodoList", "App"]],
+        ["Eggs", ["TodoList", "App"]],
+      ]);
+      expect(summary).toContain('1. listitem "Milk" body > ul > li:nth-of-type(1) <TodoList>');
+    });
+
+    it("should read Vue 3 and Vue 2 component owners", async () => {
+      const vue3 = h("section", {}, h("span", {}, "v3"));
+      const vue2 = h("aside", {}, h("span", {}, "v2"));
+      installFakeDom(h("body", {}, vue3, vue2));
+      Object.assign(vue3, { __vueParentComponent: { type: { __name: "Card" }, parent: { type: { name: "Page" }, parent: null } } });
+      Object.assign(vue2, { __vue__: { $options: { _componentTag: "legacy-panel" }, $parent: { $options: { name: "Root" } } } });
+
+      const { data } = await query({ selector: "span" });
+
+      expect(data.elements.map((element) => element.components)).toEqual([
+        ["Card", "Page"],
+        ["legacy-panel", "Root"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,468 @@
+import { vi } from "vitest";
+
+type Child = FakeElement | string;
+
+const VOID_ELEMENTS = new Set(["input", "img", "br", "hr", "meta", "link"]);
+
+interface Compound {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: Array<{ name: string; value?: string }>;
+  not: Compound[];
+  nthOfType?: number;
+}
+
+// Selectors as the adapters use them: tag, #id, .class, [attr], [attr=value], :not(),
+// :nth-of-type(), descendant and child combinators, and comma-separated lists
+function parseCompound(text: string): Compound {
+  const compound: Compound = { classes: [], attributes: [], not: [] };
+  let rest = text;
+  while (rest) {
+    let match: RegExpExecArray | null;
+    if ((match = /^(\*|[a-zA-Z][\w-]*)/.exec(rest))) {
+      if (match[1] !== "*") compound.tag = match[1]!.toLowerCase();
+    } else if ((match = /^#([\w-]+)/.exec(rest))) {
+      compound.id = match[1]!;
+    } else if ((match = /^\.([\w-]+)/.exec(rest))) {
+      compound.classes.push(match[1]!);
+    } else if ((match = /^\[([\w-]+)(?:=(?:'([^']*)'|"([^"]*)"|([^\]]*)))?\]/.exec(rest))) {
+      compound.attributes.push({ name: match[1]!, ...(match[0].includes("=") ? { value: match[2] ?? match[3] ?? match[4]! } : {}) });
+    } else if ((match = /^:not\(([^()]*)\)/.exec(rest))) {
+      compound.not.push(parseCompound(match[1]!));
+    } else if ((match = /^:nth-of-type\((\d+)\)/.exec(rest))) {
+      compound.nthOfType = Number(match[1]);
+    } else {
+      throw new Error(`Unsupported selector: ${text}`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+  return compound;
+}
+
+function parseSelector(selector: string): Array<{ compounds: Compound[]; combinators: string[] }> {
+  return selector.split(",").map((complex) => {
+    const compounds: Compound[] = [];
+    const combinators: string[] = [];
+    for (const token of complex.trim().replace(/\s*>\s*/g, " > ").split(/\s+/)) {
+      if (token === ">") {
+        combinators[compounds.length - 1] = ">";
+      } else {
+        combinators[compounds.length - 1] ??= " ";
+        compounds.push(parseCompound(token));
+      }
+    }
+    return { compounds, combinators };
+  });
+}
+
+function matchesCompound(element: FakeElement, compound: Compound): boolean {
+  if (compound.tag && element.tagName.toLowerCase() !== compound.tag) return false;
+  if (compound.id && element.id !== compound.id) return false;
+  if (compound.classes.some((name) => !element.classList.includes(name))) return false;
+  if (compound.attributes.some(({ name, value }) => (value === undefined ? !element.hasAttribute(name) : element.getAttribute(name) !== value))) {
+    return false;
+  }
+  if (compound.not.some((inner) => matchesCompound(element, inner))) return false;
+  if (compound.nthOfType !== undefined) {
+    const siblings = element.parentElement?.children.filter((child) => child.tagName === element.tagName) ?? [element];
+    if (siblings.indexOf(element) + 1 !== compound.nthOfType) return false;
+  }
+  return true;
+}
+
+function matchesSelector(element: FakeElement, selector: string): boolean {
+  return parseSelector(selector).some(({ compounds, combinators }) => {
+    const matchAt = (candidate: FakeElement, index: number): boolean => {
+      if (!matchesCompound(candidate, compounds[index]!)) return false;
+      if (index === 0) return true;
+      if (combinators[index - 1] === ">") {
+        return candidate.parentElement !== null && matchAt(candidate.parentElement, index - 1);
+      }
+      for (let ancestor = candidate.parentElement; ancestor; ancestor = ancestor.parentElement) {
+        if (matchAt(ancestor, index - 1)) return true;
+      }
+      return false;
+    };
+    return matchAt(element, compounds.length - 1);
+  });
+}
+
+export class FakeElement extends EventTarget {
+  readonly nodeType = 1;
+  readonly tagName: string;
+  parentElement: FakeElement | null = null;
+  childNodes: Child[] = [];
+  rect = { x: 0, y: 0, width: 100, height: 20 };
+  style: { [property: string]: string } = {};
+  scrolledIntoView = 0;
+  private readonly attributeMap = new Map<string, string>();
+
+  constructor(tagName: string, attributes: { [name: string]: string } = {}, children: Child[] = []) {
+    super();
+    this.tagName = tagName.toUpperCase();
+    for (const [name, value] of Object.entries(attributes)) {
+      this.attributeMap.set(name, value);
+    }
+    children.forEach((child) => this.append(child));
+  }
+
+  append(child: Child) {
+    if (typeof child !== "string") {
+      child.parentElement = this;
+    }
+    this.childNodes.push(child);
+  }
+
+  get children(): FakeElement[] {
+    return this.childNodes.filter((child): child is FakeElement => typeof child !== "string");
+  }
+
+  get id() {
+    return this.getAttribute("id") ?? "";
+  }
+
+  get classList(): string[] {
+    return (this.getAttribute("class") ?? "").split(/\s+/).filter(Boolean);
+  }
+
+  get attributes() {
+    return [...this.attributeMap].map(([name, value]) => ({ name, value }));
+  }
+
+  getAttribute(name: string) {
+    return this.attributeMap.get(name) ?? null;
+  }
+
+  hasAttribute(name: string) {
+    return this.attributeMap.has(name);
+  }
+
+  setAttribute(name: string, value: string) {
+    this.attributeMap.set(name, value);
+  }
+
+  get disabled() {
+    return this.hasAttribute("disabled");
+  }
+
+  get required() {
+    return this.hasAttribute("required");
+  }
+
+  get readOnly() {
+    return this.hasAttribute("readonly");
+  }
+
+  get isContentEditable() {
+    return this.hasAttribute("contenteditable");
+  }
+
+  get textContent(): string {
+    return this.childNodes.map((child) => (typeof child === "string" ? child : child.textContent)).join("");
+  }
+
+  set textContent(text: string) {
+    this.childNodes = [text];
+  }
+
+  get innerText() {
+    return this.textContent;
+  }
+
+  get outerHTML(): string {
+    const tag = this.tagName.toLowerCase();
+    const attributes = this.attributes.map(({ name, value }) => ` ${name}="${value}"`).join("");
+    if (VOID_ELEMENTS.has(tag)) {
+      return `<${tag}${attributes}>`;
+    }
+    const inner = this.childNodes.map((child) => (typeof child === "string" ? child : child.outerHTML)).join("");
+    return `<${tag}${attributes}>${inner}</${tag}>`;
+  }
+
+  get isConnected(): boolean {
+    let root: FakeElement = this;
+    while (root.parentElement) {
+      root = root.parentElement;
+    }
+    return root.tagName === "HTML";
+  }
+
+  get form(): FakeElement | null {
+    return this.closest("form");
+  }
+
+  getBoundingClientRect() {
+    const { x, y, width, height } = this.rect;
+    return { x, y, width, height, top: y, left: x, right: x + width, bottom: y + height };
+  }
+
+  matches(selector: string) {
+    return matchesSelector(this, selector);
+  }
+
+  closest(selector: string): FakeElement | null {
+    for (let element: FakeElement | null = this; element; element = element.parentElement) {
+      if (element.matches(selector)) return element;
+    }
+    return null;
+  }
+
+  querySelectorAll(selector: string): FakeElement[] {
+    const found: FakeElement[] = [];
+    const walk = (element: FakeElement) => {
+      for (const child of element.children) {
+        if (child.matches(selector)) found.push(child);
+        walk(child);
+      }
+    };
+    walk(this);
+    return found;
+  }
+
+  querySelector(selector: string) {
+    return this.querySelectorAll(selector)[0] ?? null;
+  }
+
+  focus() {
+    fakeDocument().activeElement = this;
+  }
+
+  blur() {
+    const document = fakeDocument();
+    if (document.activeElement === this) {
+      document.activeElement = document.body;
+    }
+  }
+
+  scrollIntoView() {
+    this.scrolledIntoView++;
+  }
+}
+
+export class FakeHTMLElement extends FakeElement {}
+
+export class FakeButtonElement extends FakeHTMLElement {}
+
+export class FakeFormElement extends FakeHTMLElement {
+  requestSubmit() {
+    this.dispatchEvent(new Event("submit", { cancelable: true }));
+  }
+}
+
+export class FakeOptionElement extends FakeHTMLElement {
+  selected = this.hasAttribute("selected");
+
+  get value() {
+    return this.getAttribute("value") ?? this.textContent;
+  }
+
+  get label() {
+    return this.textContent;
+  }
+}
+
+export class FakeInputElement extends FakeHTMLElement {
+  private currentValue = this.getAttribute("value") ?? "";
+  private currentChecked = this.hasAttribute("checked");
+
+  get type() {
+    return (this.getAttribute("type") ?? "text").toLowerCase();
+  }
+
+  get value() {
+    return this.currentValue;
+  }
+
+  set value(value: string) {
+    this.currentValue = value;
+  }
+
+  get checked() {
+    return this.currentChecked;
+  }
+
+  set checked(checked: boolean) {
+    this.currentChecked = checked;
+  }
+
+  get labels(): FakeElement[] {
+    const document = fakeDocument();
+    const byFor = this.id ? document.querySelectorAll(`label[for=${this.id}]`) : [];
+    const wrapping = this.closest("label");
+    return wrapping ? [...byFor, wrapping] : byFor;
+  }
+
+  // Clicking a checkbox toggles it unless a listener cancels the click
+  override dispatchEvent(event: Event): boolean {
+    const toggles = event.type === "click" && (this.type === "checkbox" || this.type === "radio");
+    const before = this.currentChecked;
+    if (toggles) {
+      this.currentChecked = this.type === "radio" ? true : !before;
+    }
+    const allowed = super.dispatchEvent(event);
+    if (toggles && !allowed) {
+      this.currentChecked = before;
+    }
+    return allowed;
+  }
+}
+
+export class FakeTextAreaElement extends FakeInputElement {
+  override get type() {
+    return "textarea";
+  }
+}
+
+export class FakeSelectElement extends FakeHTMLElement {
+  get multiple() {
+    return this.hasAttribute("multiple");
+  }
+
+  get options(): FakeOptionElement[] {
+    return this.children.filter((child): child is FakeOptionElement => child instanceof FakeOptionElement);
+  }
+
+  get selectedOptions() {
+    return this.options.filter((option) => option.selected);
+  }
+
+  get value() {
+    return this.selectedOptions[0]?.value ?? "";
+  }
+
+  set value(value: string) {
+    this.options.forEach((option) => (option.selected = option.value === value));
+  }
+}
+
+const elementClasses: { [tag: string]: new (tag: string, attributes: { [name: string]: string }, children: Child[]) => FakeElement } = {
+  button: FakeButtonElement,
+  form: FakeFormElement,
+  input: FakeInputElement,
+  option: FakeOptionElement,
+  select: FakeSelectElement,
+  textarea: FakeTextAreaElement,
+};
+
+/** Build an element tree: `h("button", { id: "save" }, "Save")` */
+export function h(tag: string, attributes: { [name: string]: string } = {}, ...children: Child[]): FakeElement {
+  const ElementClass = elementClasses[tag] ?? FakeHTMLElement;
+  return new ElementClass(tag, attributes, children);
+}
+
+export interface FakeDocument {
+  documentElement: FakeElement;
+  body: FakeElement;
+  activeElement: FakeElement | null;
+  querySelectorAll(selector: string): FakeElement[];
+  querySelector(selector: string): FakeElement | null;
+  getElementById(id: string): FakeElement | null;
+  evaluate?: (...args: unknown[]) => unknown;
+}
+
+let currentDocument: FakeDocument | undefined;
+
+function fakeDocument(): FakeDocument {
+  if (!currentDocument) {
+    throw new Error("Call installFakeDom first");
+  }
+  return currentDocument;
+}
+
+// A class, since matchers check `instanceof Node`
+class FakeNode {
+  static readonly ELEMENT_NODE = 1;
+  static readonly TEXT_NODE = 3;
+}
+
+// Event already owns bubbles, cancelable and composed; the other init fields are copied over
+class FakeUIEvent extends Event {
+  constructor(type: string, init: { [key: string]: unknown } = {}) {
+    super(type, init);
+    for (const [key, value] of Object.entries(init)) {
+      if (!(key in this)) {
+        (this as unknown as { [key: string]: unknown })[key] = value;
+      }
+    }
+  }
+}
+class FakeMouseEvent extends FakeUIEvent {}
+class FakePointerEvent extends FakeMouseEvent {}
+class FakeKeyboardEvent extends FakeUIEvent {}
+class FakeInputEvent extends FakeUIEvent {}
+class FakeFocusEvent extends FakeUIEvent {}
+
+/**
+ * Stub `window`, `document` and the DOM classes the browser handlers use, with
+ * `body` as the page content. `mutate()` notifies every connected MutationObserver.
+ */
+export function installFakeDom(body: FakeElement, { url = "http://localhost:5173/" } = {}) {
+  const documentElement = h("html", {}, body);
+  const document: FakeDocument = {
+    documentElement,
+    body,
+    activeElement: body,
+    querySelectorAll: (selector) => [
+      ...(documentElement.matches(selector) ? [documentElement] : []),
+      ...documentElement.querySelectorAll(selector),
+    ],
+    querySelector: (selector) => document.querySelectorAll(selector)[0] ?? null,
+    getElementById: (id) => documentElement.querySelector(`#${id}`),
+  };
+  currentDocument = document;
+
+  const window = Object.assign(new EventTarget(), {
+    location: { href: url },
+    innerWidth: 1024,
+    innerHeight: 768,
+    scrollX: 0,
+    scrollY: 0,
+    scrollTo: vi.fn(({ left, top }: { left: number; top: number }) => {
+      window.scrollX = left;
+      window.scrollY = top;
+    }),
+    getComputedStyle: (element: FakeElement) => {
+      const style: { [property: string]: string } = { display: "block", visibility: "visible", opacity: "1", ...element.style };
+      return { ...style, getPropertyValue: (property: string) => style[property] ?? "" };
+    },
+  });
+
+  const observers = new Set<{ callback: () => void }>();
+  class FakeMutationObserver {
+    constructor(private readonly callback: () => void) {}
+    observe() {
+      observers.add(this);
+    }
+    disconnect() {
+      observers.delete(this);
+    }
+  }
+
+  vi.stubGlobal("window", window);
+  vi.stubGlobal("document", document);
+  vi.stubGlobal("Node", FakeNode);
+  vi.stubGlobal("XPathResult", { ORDERED_NODE_SNAPSHOT_TYPE: 7 });
+  vi.stubGlobal("CSS", { escape: (value: string) => value });
+  vi.stubGlobal("HTMLElement", FakeHTMLElement);
+  vi.stubGlobal("HTMLButtonElement", FakeButtonElement);
+  vi.stubGlobal("HTMLFormElement", FakeFormElement);
+  vi.stubGlobal("HTMLInputElement", FakeInputElement);
+  vi.stubGlobal("HTMLOptionElement", FakeOptionElement);
+  vi.stubGlobal("HTMLSelectElement", FakeSelectElement);
+  vi.stubGlobal("HTMLTextAreaElement", FakeTextAreaElement);
+  vi.stubGlobal("SVGElement", class {});
+  vi.stubGlobal("MouseEvent", FakeMouseEvent);
+  vi.stubGlobal("PointerEvent", FakePointerEvent);
+  vi.stubGlobal("KeyboardEvent", FakeKeyboardEvent);
+  vi.stubGlobal("InputEvent", FakeInputEvent);
+  vi.stubGlobal("FocusEvent", FakeFocusEvent);
+  vi.stubGlobal("MutationObserver", FakeMutationObserver);
+  vi.stubGlobal("requestAnimationFrame", (callback: () => void) => setTimeout(callback, 0));
+
+  return {
+    window,
+    document,
+    mutate: () => [...observers].forEach((observer) => observer.callback()),
+  };
+}
@@ -0,0 +1,199 @@
+export type Key = number | string;
+
+export const cmp = (a: Key, b: Key) => (a < b ? -1 : a > b ? 1 : 0);
+
+export interface StoreData {
+  keyPath: string | null;
+  autoIncrement: boolean;
+  indexes: Array<{ name: string; keyPath: string; unique: boolean; multiEntry: boolean }>;
+  records: Map<Key, unknown>;
+  nextKey: number;
+}
+
+/**
+ * In-memory IndexedDB whose transactions commit or roll back as a whole. Keys are
+ * numbers or strings, and unique indexes are not enforced.
+ */
+export function createFakeIndexedDB() {
+  const databases = new Map<string, { version: number; stores: Map<string, StoreData> }>();
+  const blocked = new Set<string>();
+  const pendingDeletes: string[] = [];
+
+  function transaction(stores: Map<string, StoreData>, done: (committed: boolean) => void) {
+    const working = new Map(
+      [...stores].map(([name, data]) => [name, { ...data, indexes: [...data.indexes], records: new Map(data.records) }])
+    );
+    const queue: Array<() => void> = [];
+    let aborted = false;
+
+    const storeApi = (data: StoreData) => {
+      const request = (run: () => unknown) => {
+        if (aborted) {
+          throw new DOMException("The transaction has finished", "TransactionInactiveError");
+        }
+        const req: { result: unknown; error: unknown; onsuccess?: () => void; onerror?: () => void } = { result: undefined, error: null };
+        queue.push(() => {
+          try {
+            req.result = run();
+            req.onsuccess?.();
+          } catch (error) {
+            req.error = error;
+            req.onerror?.();
+            tx.abort();
+          }
+        });
+        return req;
+      };
+      const write = (value: { [key: string]: unknown }, key: Key | undefined, overwrite: boolean) => {
+        if (data.keyPath !== null && key !== undefined) {
+          throw new DOMException("The object store uses in-line keys and the key parameter was provided", "DataError");
+        }
+        return request(() => {
+          let recordKey = (data.keyPath === null ? key : value[data.keyPath]) as Key | undefined;
+          if (recordKey === undefined && data.autoIncrement) {
+            recordKey = data.nextKey++;
+          }
+          if (!overwrite && data.records.has(recordKey!)) {
+            throw new DOMException("Key already exists in the object store", "ConstraintError");
+          }
+          data.records.set(recordKey!, value);
+          return recordKey;
+        });
+      };
+      const sorted = () => [...data.records].sort(([a], [b]) => cmp(a, b));
+      return {
+        keyPath: data.keyPath,
+        autoIncrement: data.autoIncrement,
+        indexNames: data.indexes.map((index) => index.name),
+        index: (name: string) => data.indexes.find((index) => index.name === name),
+        createIndex: (name: string, keyPath: string, options: { unique: boolean; multiEntry: boolean }) =>
+          data.indexes.push({ name, keyPath, ...options }),
+        put: (value: { [key: string]: unknown }, key?: Key) => write(value, key, true),
+        add: (value: { [key: string]: unknown }, key?: Key) => write(value, key, false),
+        delete: (key: Key) => request(() => data.records.delete(key) && undefined),
+        getAll: () => request(() => sorted().map(([, value]) => value)),
+        getAllKeys: () => request(() => sorted().map(([key]) => key)),
+      };
+    };
+
+    const tx = {
+      oncomplete: undefined as undefined | (() => void),
+      onabort: undefined as undefined | (() => void),
+      abort: () => {
+        if (!aborted) {
+          aborted = true;
+          setTimeout(() => {
+            tx.onabort?.();
+            done(false);
+          }, 0);
+        }
+      },
+      objectStore: (name: string) => {
+        const data = working.get(name);
+        if (!data) {
+          throw new DOMException(`No objectStore named ${name} in this database`, "NotFoundError");
+        }
+        return storeApi(data);
+      },
+      createObjectStore: (name: string, options: { keyPath: string | null; autoIncrement: boolean }) => {
+        working.set(name, { ...options, indexes: [], records: new Map(), nextKey: 1 });
+        return tx.objectStore(name);
+      },
+    };
+
+    setTimeout(() => {
+      while (queue.length > 0 && !aborted) {
+        queue.shift()!();
+      }
+      if (!aborted) {
+        stores.clear();
+        working.forEach((data, name) => stores.set(name, data));
+        tx.oncomplete?.();
+        done(true);
+      }
+    }, 0);
+    return tx;
+  }
+
+  const connection = (entry: { version: number; stores: Map<string, StoreData> }) => ({
+    version: entry.version,
+    objectStoreNames: [...entry.stores.keys()],
+    transaction: () => transaction(entry.stores, () => {}),
+    close: () => {},
+  });
+
+  const indexedDB = {
+    cmp,
+    databases: async () => [...databases].map(([name, { version }]) => ({ name, version })),
+    open: (name: string, version?: number) => {
+      const request: {
+        result: unknown;
+        error: unknown;
+        transaction: unknown;
+        onsuccess?: () => void;
+        onerror?: () => void;
+        onupgradeneeded?: (event: { oldVersion: number }) => void;
+      } = { result: undefined, error: null, transaction: null };
+      setTimeout(() => {
+        const existing = databases.get(name);
+        const target = version ?? existing?.version ?? 1;
+        if (existing && target < existing.version) {
+          request.error = new DOMException("The requested version is less than the existing version", "VersionError");
+          request.onerror?.();
+          return;
+        }
+        if (existing && target === existing.version) {
+          request.result = connection(existing);
+          request.onsuccess?.();
+          return;
+        }
+        const entry = existing ?? { version: 0, stores: new Map<string, StoreData>() };
+        const upgrade = transaction(entry.stores, (committed) => {
+          request.transaction = null;
+          if (!committed) {
+            request.error = new DOMException("The upgrade was aborted", "AbortError");
+            request.onerror?.();
+            return;
+          }
+          entry.version = target;
+          databases.set(name, entry);
+          request.result = connection(entry);
+          request.onsuccess?.();
+        });
+        request.transaction = upgrade;
+        request.result = { createObjectStore: upgrade.createObjectStore };
+        request.onupgradeneeded?.({ oldVersion: existing?.version ?? 0 });
+      }, 0);
+      return request;
+    },
+    deleteDatabase: (name: string) => {
+      const request: { onsuccess?: () => void; onblocked?: () => void } = {};
+      setTimeout(() => {
+        // A connection the page never closes keeps the delete pending
+        if (blocked.has(name)) {
+          pendingDeletes.push(name);
+          request.onblocked?.();
+          return;
+        }
+        databases.delete(name);
+        request.onsuccess?.();
+      }, 0);
+      return request;
+    },
+  };
+
+  const seed = (name: string, stores: { [store: string]: Partial<StoreData> & { records?: Map<Key, unknown> } }) => {
+    databases.set(name, {
+      version: 1,
+      stores: new Map(
+        Object.entries(stores).map(([storeName, data]) => [
+          storeName,
+          { keyPath: null, autoIncrement: false, indexes: [], records: new Map(), nextKey: 1, ...data },
+        ])
+      ),
+    });
+  };
+  const records = (name: string, store: string) => Object.fromEntries(databases.get(name)?.stores.get(store)?.records ?? []);
+  const block = (name: string) => blocked.add(name);
+  return { indexedDB, databases, seed, records, block, pendingDeletes };
+}
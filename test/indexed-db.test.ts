@@ -0,0 +1,503 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { indexedDBAdapter } from "../src/adapter/indexed-db.js";
+import { indexedDBHandler } from "../src/bridge/handlers/indexed-db.js";
+import { viteMcp } from "../src/index.js";
+import { cmp, createFakeIndexedDB } from "./fake-indexed-db.js";
+import type { Key } from "./fake-indexed-db.js";
+
+interface Range {
+  lower?: Key;
+  upper?: Key;
+  lowerOpen: boolean;
+  upperOpen: boolean;
+}
+
+const keyRange = {
+  only: (key: Key): Range => ({ lower: key, upper: key, lowerOpen: false, upperOpen: false }),
+  bound: (lower: Key, upper: Key, lowerOpen = false, upperOpen = false): Range => ({ lower, upper, lowerOpen, upperOpen }),
+  lowerBound: (lower: Key, lowerOpen = false): Range => ({ lower, lowerOpen, upperOpen: false }),
+  upperBound: (upper: Key, upperOpen = false): Range => ({ upper, lowerOpen: false, upperOpen }),
+};
+
+function inRange(key: Key, range?: Range) {
+  if (!range) {
+    return true;
+  }
+  const lower = range.lower === undefined ? 1 : cmp(key, range.lower);
+  const upper = range.upper === undefined ? -1 : cmp(key, range.upper);
+  return (range.lowerOpen ? lower > 0 : lower >= 0) && (range.upperOpen ? upper < 0 : upper <= 0);
+}
+
+// Just enough of IndexedDB's cursor semantics to exercise paging: ordering, ranges, directions and jumps
+function openCursor(entries: Array<{ key: Key; primaryKey: Key; value: unknown }>, range: Range | undefined, direction: IDBCursorDirection) {
+  const reverse = direction.startsWith("prev");
+  let rows = entries
+    .filter((entry) => inRange(entry.key, range))
+    .sort((a, b) => cmp(a.key, b.key) || cmp(a.primaryKey, b.primaryKey));
+  if (direction.endsWith("unique")) {
+    rows = rows.filter((row, i) => i === 0 || cmp(rows[i - 1]!.key, row.key) !== 0);
+  }
+  if (reverse) {
+    rows.reverse();
+  }
+  const order = (a: Key, b: Key) => cmp(a, b) * (reverse ? -1 : 1);
+
+  const request: { result: unknown; onsuccess?: () => void; onerror?: () => void } = { result: null };
+  let position = 0;
+  const visited: number[] = [];
+  const move = (next: number) => {
+    position = next;
+    const row = rows[position];
+    request.result = row ? { ...row, continue: step, continuePrimaryKey, advance } : null;
+    if (row) {
+      visited.push(position);
+    }
+    setTimeout(() => request.onsuccess?.(), 0);
+  };
+  const seek = (matches: (row: { key: Key; primaryKey: Key }) => boolean) => {
+    const next = rows.findIndex((row, i) => i > position && matches(row));
+    move(next === -1 ? rows.length : next);
+  };
+  function step(key?: Key) {
+    seek((row) => key === undefined || order(row.key, key) >= 0);
+  }
+  function continuePrimaryKey(key: Key, primaryKey: Key) {
+    seek((row) => (order(row.key, key) || order(row.primaryKey, primaryKey)) >= 0);
+  }
+  function advance(count: number) {
+    move(position + count);
+  }
+  move(0);
+  return { request, visited };
+}
+
+function setupDatabase(users: Array<{ id: number; team: string; profile: { name: string; age: number } }>) {
+  const cursors: Array<{ visited: number[] }> = [];
+  const store = {
+    openCursor: (range: Range | undefined, direction: IDBCursorDirection) => {
+      const cursor = openCursor(users.map((user) => ({ key: user.id, primaryKey: user.id, value: user })), range, direction);
+      cursors.push(cursor);
+      return cursor.request;
+    },
+    index: (name: string) => {
+      if (name !== "team") {
+        throw new Error(`No index named ${name}`);
+      }
+      return {
+        openCursor: (range: Range | undefined, direction: IDBCursorDirection) => {
+          const cursor = openCursor(users.map((user) => ({ key: user.team, primaryKey: user.id, value: user })), range, direction);
+          cursors.push(cursor);
+          return cursor.request;
+        },
+      };
+    },
+  };
+  const transaction = { objectStore: () => store, abort: vi.fn() };
+  const db = { transaction: () => transaction, close: vi.fn() };
+  const indexedDB = {
+    // Like the real cmp, throws for values that are not valid keys
+    cmp: (a: Key, b: Key) => {
+      if ([a, b].some((key) => typeof key !== "number" && typeof key !== "string")) {
+        throw new DOMException("The parameter is not a valid key.", "DataError");
+      }
+      return cmp(a, b);
+    },
+    open: () => {
+      const request: { result: unknown; onsuccess?: () => void } = { result: db };
+      setTimeout(() => request.onsuccess?.(), 0);
+      return request;
+    },
+  };
+  vi.stubGlobal("window", { indexedDB });
+  vi.stubGlobal("indexedDB", indexedDB);
+  vi.stubGlobal("IDBKeyRange", keyRange);
+  return { cursors, transaction, db };
+}
+
+function setupDatabases() {
+  const fake = createFakeIndexedDB();
+  vi.stubGlobal("window", { indexedDB: fake.indexedDB });
+  vi.stubGlobal("indexedDB", fake.indexedDB);
+  return fake;
+}
+
+async function run(params: { [key: string]: unknown }, context: object = {}) {
+  const result = await indexedDBHandler.call(context as any, params);
+  const data = JSON.parse((result.content[0] as { text: string }).text);
+  if (!result.isError) {
+    indexedDBAdapter.outputSchema!.parse(data);
+  }
+  return { isError: result.isError === true, data };
+}
+
+const query = (params: { [key: string]: unknown }, context?: object) =>
+  run({ action: "query", databaseName: "app", objectStoreName: "users", ...params }, context);
+
+const teams = ["red", "blue", "green"];
+const users = Array.from({ length: 30 }, (_, i) => ({
+  id: i + 1,
+  team: teams[i % 3]!,
+  profile: { name: `User ${i + 1}`, age: 20 + i },
+}));
+
+describe("IndexedDB Adapter", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Input Schema Validation", () => {
+    it("should accept a query with a range, paging and projection", () => {
+      const result = indexedDBAdapter.inputSchema.safeParse({
+        action: "query",
+        databaseName: "app",
+        objectStoreName: "users",
+        indexName: "team",
+        range: { lower: "a", upper: "m", upperOpen: true },
+        direction: "prevunique",
+        offset: "10",
+        limit: "25",
+        fields: ["profile.name"],
+        cursor: { key: "blue", primaryKey: 2 },
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.offset).toBe(10);
+        expect(result.data.limit).toBe(25);
+      }
+    });
+
+    it("should reject limits above 1000 and unknown directions", () => {
+      const base = { action: "query", databaseName: "app", objectStoreName: "users" };
+      expect(indexedDBAdapter.inputSchema.safeParse({ ...base, limit: 5000 }).success).toBe(false);
+      expect(indexedDBAdapter.inputSchema.safeParse({ ...base, direction: "sideways" }).success).toBe(false);
+    });
+  });
+
+  describe("list_databases", () => {
+    it("should list the databases of the page", async () => {
+      const { seed } = setupDatabases();
+      seed("app", {});
+      seed("cache", {});
+
+      const { data } = await run({ action: "list_databases" });
+
+      expect(data).toEqual({
+        action: "list_databases",
+        databases: [
+          { name: "app", version: 1 },
+          { name: "cache", version: 1 },
+        ],
+        count: 2,
+      });
+    });
+
+    it("should fail where the browser can't list databases", async () => {
+      const { indexedDB } = setupDatabases();
+      vi.stubGlobal("indexedDB", { ...indexedDB, databases: undefined });
+
+      const { isError, data } = await run({ action: "list_databases" });
+
+      expect(isError).toBe(true);
+      expect(data.error).toContain("Listing databases is not supported in this browser");
+    });
+  });
+
+  describe("query", () => {
+    beforeEach(() => {
+      setupDatabase(users);
+    });
+
+    it("should page through a key range with the continuation cursor", async () => {
+      const first = await query({ range: { lower: 5, upper: 20, upperOpen: true }, limit: 10 });
+      expect(first.data.records.map((record: { key: number }) => record.key)).toEqual([5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+      expect(first.data.nextCursor).toEqual({ key: 14, primaryKey: 14 });
+
+      const second = await query({ range: { lower: 5, upper: 20, upperOpen: true }, limit: 10, cursor: first.data.nextCursor });
+      expect(second.data.records.map((record: { key: number }) => record.key)).toEqual([15, 16, 17, 18, 19]);
+      expect(second.data.nextCursor).toBeNull();
+    });
+
+    it("should continue an index query inside a run of equal index keys", async () => {
+      const params = { indexName: "team", range: { only: "blue" }, direction: "prev", limit: 4 };
+      const first = await query(params);
+      const second = await query({ ...params, cursor: first.data.nextCursor });
+      const third = await query({ ...params, cursor: second.data.nextCursor });
+
+      const ids = [first, second, third].flatMap((page) => page.data.records.map((record: { primaryKey: number }) => record.primaryKey));
+      expect(ids).toEqual([29, 26, 23, 20, 17, 14, 11, 8, 5, 2]);
+      expect(first.data.records[0].key).toBe("blue");
+      expect(first.data.indexName).toBe("team");
+      expect(third.data.nextCursor).toBeNull();
+    });
+
+    it("should jump to the cursor instead of reading the records before it", async () => {
+      const { cursors } = setupDatabase(users);
+      await query({ limit: 2, cursor: { key: 25, primaryKey: 25 } });
+
+      expect(cursors[0]!.visited).toEqual([0, 24, 25, 26, 27]);
+    });
+
+    it("should skip the offset and keep only the requested fields", async () => {
+      const { data } = await query({ direction: "nextunique", indexName: "team", fields: ["profile.name", "missing"] });
+      expect(data.records).toEqual([
+        { key: "blue", primaryKey: 2, value: { profile: { name: "User 2" } } },
+        { key: "green", primaryKey: 3, value: { profile: { name: "User 3" } } },
+        { key: "red", primaryKey: 1, value: { profile: { name: "User 1" } } },
+      ]);
+
+      const skipped = await query({ offset: 27, fields: ["id"] });
+      expect(skipped.data.records.map((record: { value: unknown }) => record.value)).toEqual([{ id: 28 }, { id: 29 }, { id: 30 }]);
+    });
+
+    it("should report progress against the limit", async () => {
+      const progress = vi.fn();
+      await query({ limit: 2 }, { progress });
+
+      expect(progress.mock.calls).toEqual([
+        [1, 2],
+        [2, 2],
+      ]);
+    });
+
+    it("should reject a cursor whose keys are not valid keys", async () => {
+      const { cursors } = setupDatabase(users);
+      const { isError, data } = await query({ cursor: { key: true, primaryKey: 1 } });
+
+      expect(isError).toBe(true);
+      expect(data.error).toContain("Invalid cursor: key true is not a valid IndexedDB key");
+      expect(cursors).toHaveLength(0);
+    });
+
+    it("should settle when reading a record fails", async () => {
+      const { db } = setupDatabase(users);
+      const progress = () => {
+        throw new Error("progress failed");
+      };
+      const { isError, data } = await query({ limit: 2 }, { progress });
+
+      expect(isError).toBe(true);
+      expect(data.error).toBe("Failed to query records: progress failed");
+      expect(db.close).toHaveBeenCalled();
+    });
+
+    it("should return an error for an unknown index", async () => {
+      const { isError, data } = await query({ indexName: "email" });
+
+      expect(isError).toBe(true);
+      expect(data.error).toContain('index "email" of object store "users"');
+    });
+
+    it("should stop reading when the call is cancelled", async () => {
+      const { transaction } = setupDatabase(users);
+      const controller = new AbortController();
+      const pending = query({ limit: 1000 }, { signal: controller.signal });
+      controller.abort(new DOMException("cancelled", "AbortError"));
+
+      const { isError, data } = await pending;
+      expect(isError).toBe(true);
+      expect(data.error).toBe("cancelled");
+      expect(transaction.abort).toHaveBeenCalled();
+    });
+  });
+
+  describe("batch", () => {
+    it("should apply every operation in one transaction and return generated keys", async () => {
+      const { seed, records } = setupDatabases();
+      seed("app", {
+        users: { keyPath: "id", records: new Map<Key, unknown>([[1, { id: 1, name: "Ada" }], [2, { id: 2, name: "Alan" }]]) },
+        events: { autoIncrement: true },
+      });
+
+      const { isError, data } = await run({
+        action: "batch",
+        databaseName: "app",
+        objectStoreName: "users",
+        operations: [
+          { type: "put", value: { id: 1, name: "Ada Lovelace" } },
+          { type: "add", value: { id: 3, name: "Grace" } },
+          { type: "delete", key: 2 },
+          { type: "add", objectStoreName: "events", value: { kind: "seeded" } },
+        ],
+      });
+
+      expect(isError).toBe(false);
+      expect(data.results).toEqual([
+        { type: "put", objectStoreName: "users", key: 1 },
+        { type: "add", objectStoreName: "users", key: 3 },
+        { type: "delete", objectStoreName: "users", key: 2 },
+        { type: "add", objectStoreName: "events", key: 1 },
+      ]);
+      expect(records("app", "users")).toEqual({ 1: { id: 1, name: "Ada Lovelace" }, 3: { id: 3, name: "Grace" } });
+      expect(records("app", "events")).toEqual({ 1: { kind: "seeded" } });
+    });
+
+    it("should apply nothing when one operation fails", async () => {
+      const { seed, records } = setupDatabases();
+      seed("app", { users: { keyPath: "id", records: new Map<Key, unknown>([[1, { id: 1, name: "Ada" }]]) } });
+
+      const { isError, data } = await run({
+        action: "batch",
+        databaseName: "app",
+        objectStoreName: "users",
+        operations: [
+          { type: "put", value: { id: 2, name: "Alan" } },
+          { type: "add", value: { id: 1, name: "Duplicate" } },
+        ],
+      });
+
+      expect(isError).toBe(true);
+      expect(data.error).toContain("operations[1] (add in users) failed, no operations were applied");
+      expect(data.error).toContain("Key already exists");
+      expect(records("app", "users")).toEqual({ 1: { id: 1, name: "Ada" } });
+    });
+
+    it("should reject operations that miss their key or value before opening the database", async () => {
+      const { seed } = setupDatabases();
+      seed("app", { users: {} });
+      const open = vi.spyOn(indexedDB, "open");
+
+      const { isError, data } = await run({
+        action: "batch",
+        databaseName: "app",
+        objectStoreName: "users",
+        operations: [{ type: "put", key: 1, value: {} }, { type: "delete" }],
+      });
+
+      expect(isError).toBe(true);
+      expect(data.error).toBe("operations[1]: key is required for delete");
+      expect(open).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("export_database and import_database", () => {
+    const seedShop = (seed: ReturnType<typeof setupDatabases>["seed"]) =>
+      seed("shop", {
+        products: {
+          keyPath: "sku",
+          indexes: [{ name: "category", keyPath: "category", unique: false, multiEntry: false }],
+          records: new Map<Key, unknown>([
+            ["b-2", { sku: "b-2", category: "books" }],
+            ["a-1", { sku: "a-1", category: "apparel" }],
+          ]),
+        },
+        settings: { records: new Map<Key, unknown>([["theme", "dark"]]) },
+      });
+
+    it("should export the schema and records", async () => {
+      const { seed } = setupDatabases();
+      seedShop(seed);
+
+      const { data } = await run({ action: "export_database", databaseName: "shop" });
+
+      expect(data.recordCount).toBe(3);
+      expect(data.database).toEqual({
+        name: "shop",
+        version: 1,
+        objectStores: [
+          {
+            name: "products",
+            keyPath: "sku",
+            autoIncrement: false,
+            indexes: [{ name: "category", keyPath: "category", unique: false, multiEntry: false }],
+            records: [
+              { key: "a-1", value: { sku: "a-1", category: "apparel" } },
+              { key: "b-2", value: { sku: "b-2", category: "books" } },
+            ],
+          },
+          { name: "settings", keyPath: null, autoIncrement: false, indexes: [], records: [{ key: "theme", value: "dark" }] },
+        ],
+      });
+
+      const schemaOnly = await run({ action: "export_database", databaseName: "shop", schemaOnly: true });
+      expect(schemaOnly.data.database.objectStores[0].records).toBeUndefined();
+      expect(schemaOnly.data.recordCount).toBe(0);
+    });
+
+    it("should leave records JSON can't carry out of the export", async () => {
+      const { seed } = setupDatabases();
+      seed("shop", {
+        settings: {
+          records: new Map<Key, unknown>([
+            ["theme", "dark"],
+            ["updatedAt", new Date(0)],
+            ["recent", { skus: new Set(["a-1"]) }],
+          ]),
+        },
+      });
+
+      const { data } = await run({ action: "export_database", databaseName: "shop" });
+
+      expect(data.recordCount).toBe(1);
+      expect(data.database.objectStores[0].records).toEqual([{ key: "theme", value: "dark" }]);
+      expect(data.skipped).toEqual([
+        'shop/settings "recent" (Set at $.skus does not survive JSON)',
+        'shop/settings "updatedAt" (Date at $ does not survive JSON)',
+      ]);
+    });
+
+    it("should recreate an exported database under another name", async () => {
+      const { seed } = setupDatabases();
+      seedShop(seed);
+      const exported = await run({ action: "export_database", databaseName: "shop" });
+
+      const imported = await run({ action: "import_database", databaseName: "shop-copy", database: exported.data.database });
+      expect(imported.data).toEqual({ action: "import_database", success: true, databaseName: "shop-copy", version: 1, recordCount: 3 });
+
+      const copy = await run({ action: "export_database", databaseName: "shop-copy" });
+      expect(copy.data.database).toEqual({ ...exported.data.database, name: "shop-copy" });
+    });
+
+    it("should only overwrite an existing database with replace", async () => {
+      const { seed, records } = setupDatabases();
+      seedShop(seed);
+      const database = {
+        name: "shop",
+        version: 1,
+        objectStores: [{ name: "settings", keyPath: null, autoIncrement: false, indexes: [], records: [{ key: "theme", value: "light" }] }],
+      };
+
+      const refused = await run({ action: "import_database", database });
+      expect(refused.isError).toBe(true);
+      expect(refused.data.error).toBe('Database "shop" already exists; pass replace: true to overwrite it');
+      expect(records("shop", "settings")).toEqual({ theme: "dark" });
+
+      const replaced = await run({ action: "import_database", database, replace: true });
+      expect(replaced.isError).toBe(false);
+      expect(records("shop", "settings")).toEqual({ theme: "light" });
+      expect(records("shop", "products")).toEqual({});
+    });
+
+    it("should not create a database when exporting one that does not exist", async () => {
+      const { databases } = setupDatabases();
+
+      const { isError, data } = await run({ action: "export_database", databaseName: "missing" });
+
+      expect(isError).toBe(true);
+      expect(data.error).toBe('Database "missing" does not exist');
+      expect(databases.has("missing")).toBe(false);
+    });
+  });
+
+  describe("Permissions", () => {
+    it("should require both write and delete for batch and import_database", () => {
+      const plugin = viteMcp({ adapterConfig: { indexedDB: { write: "confirm", delete: false } } }) as any;
+      plugin.configResolved({ mode: "development", root: "/app" });
+      const code: string = plugin.load("\0vite-mcp-bridge.ts");
+
+      expect(code).toContain(
+        'allowedActions: ["list_databases","get_database_info","get_keys","query","get_entry","export_database","set_entry"]'
+      );
+      expect(code).toContain('confirmActions: ["set_entry"]');
+    });
+
+    it("should ask for approval once for actions in several confirmed categories", () => {
+      const plugin = viteMcp({ adapterConfig: { indexedDB: { write: "confirm", delete: "confirm" } } }) as any;
+      plugin.configResolved({ mode: "development", root: "/app" });
+      const code: string = plugin.load("\0vite-mcp-bridge.ts");
+
+      expect(code).toContain(
+        'confirmActions: ["set_entry","batch","import_database","delete_entry","clear_object_store","delete_database"]'
+      );
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  interactAdapter,
+  interactAdapterInputSchema,
+  interactAdapterOutputSchema,
+} from "../src/adapter/interact.js";
+import { h, installFakeDom, FakeInputElement, type FakeElement } from "./fake-dom.js";
+
+async function interact(params: { [key: string]: unknown }, signal?: AbortSignal) {
+  const result = await interactAdapter.handler!.call({ server: {}, ...(signal ? { signal } : {}) }, params);
+  const text = (result.content[0] as { text: string }).text;
+  if (result.isError) {
+    return { isError: true, error: JSON.parse(text).error as string };
+  }
+  return { isError: false, data: interactAdapterOutputSchema.parse(result.structuredContent), summary: text.split("\n")[0] };
+}
+
+function recordEvents(element: FakeElement, types: string[]) {
+  const events: string[] = [];
+  for (const type of types) {
+    element.addEventListener(type, (event) => {
+      const data = (event as Event & { data?: string; inputType?: string }).data ?? (event as Event & { key?: string }).key;
+      events.push(data === undefined ? type : `${type}:${data}`);
+    });
+  }
+  return events;
+}
+
+describe("Interact Adapter", () => {
+  describe("Input Schema Validation", () => {
+    it("should accept a click with a settle condition", () => {
+      const result = interactAdapterInputSchema.safeParse({
+        action: "click",
+        selector: "#save",
+        waitFor: "network",
+        timeout: "2000",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.timeout).toBe(2000);
+      }
+    });
+
+    it("should accept typing followed by a key press", () => {
+      const result = interactAdapterInputSchema.safeParse({
+        action: "type",
+        selector: "input[name=q]",
+        text: "hello",
+        key: "Enter",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept selecting several options", () => {
+      const result = interactAdapterInputSchema.safeParse({
+        action: "select",
+        selector: "select",
+        value: ["a", "b"],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject unknown actions and modifiers", () => {
+      expect(interactAdapterInputSchema.safeParse({ action: "drag", selector: "div" }).success).toBe(false);
+      expect(
+        interactAdapterInputSchema.safeParse({ action: "click", selector: "div", modifiers: ["Hyper"] }).success
+      ).toBe(false);
+    });
+
+    it("should cap the settle timeout", () => {
+      expect(interactAdapterInputSchema.safeParse({ action: "click", selector: "a", timeout: 60000 }).success).toBe(false);
+    });
+  });
+
+  describe("Output Schema Validation", () => {
+    it("should accept an interaction result", () => {
+      const result = interactAdapterOutputSchema.safeParse({
+        action: "type",
+        selector: "#name",
+        element: { tagName: "input", text: "", value: "Ada", disabled: false },
+        defaultPrevented: false,
+        activeElement: "input#name",
+        scroll: { x: 0, y: 120 },
+        waitFor: "dom",
+        settled: true,
+        waitedMs: 251,
+        url: "http://localhost:5173/",
+        navigated: false,
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("Handler", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should return an error outside the browser", async () => {
+      const result = await interactAdapter.handler!.call({ server: {} }, { action: "click", selector: "button" });
+      expect(result.isError).toBe(true);
+    });
+
+    it("should click with the full pointer sequence and report a prevented default", async () => {
+      const button = h("button", { id: "save", class: "primary" }, "Save");
+      installFakeDom(h("body", {}, button));
+      button.rect = { x: 10, y: 20, width: 80, height: 30 };
+      const events = recordEvents(button, [
+        "pointerover", "pointerenter", "mouseover", "mouseenter", "pointermove", "mousemove",
+        "pointerdown", "mousedown", "pointerup", "mouseup", "click",
+      ]);
+      let position: unknown;
+      button.addEventListener("click", (event) => {
+        const { clientX, clientY, detail } = event as MouseEvent;
+        position = { clientX, clientY, detail };
+        event.preventDefault();
+      });
+
+      const { data, summary } = await interact({ action: "click", selector: "#save", waitFor: "none" });
+
+      expect(events).toEqual([
+        "pointerover", "pointerenter", "mouseover", "mouseenter", "pointermove", "mousemove",
+        "pointerdown", "mousedown", "pointerup", "mouseup", "click",
+      ]);
+      expect(position).toEqual({ clientX: 50, clientY: 35, detail: 1 });
+      expect(button.scrolledIntoView).toBe(1);
+      expect(data).toMatchObject({
+        action: "click",
+        defaultPrevented: true,
+        settled: true,
+        navigated: false,
+        activeElement: "button#save.primary",
+        element: { tagName: "button", text: "Save", disabled: false },
+      });
+      expect(summary).toMatch(/^click #save \(default prevented\), settled \(none\) after \d+ms$/);
+    });
+
+    it("should refuse hidden or disabled elements unless forced", async () => {
+      const hidden = h("button", { id: "hidden" }, "Hidden");
+      hidden.style = { display: "none" };
+      const disabled = h("button", { id: "off", disabled: "" }, "Off");
+      installFakeDom(h("body", {}, hidden, disabled));
+      const clicks = recordEvents(disabled, ["click"]);
+
+      expect((await interact({ action: "click", selector: "#hidden" })).error).toBe(
+        "Element #hidden is not visible. Pass force: true to interact anyway"
+      );
+      expect((await interact({ action: "click", selector: "#off" })).error).toBe(
+        "Element #off is disabled. Pass force: true to interact anyway"
+      );
+      expect((await interact({ action: "click", selector: "#missing" })).error).toBe("No element matches selector: #missing");
+      expect(clicks).toEqual([]);
+
+      await interact({ action: "click", selector: "#off", force: true, waitFor: "none" });
+      expect(clicks).toEqual(["click"]);
+    });
+
+    it("should type through the native value setter so framework value trackers see the change", async () => {
+      const input = h("input", { id: "name", value: "old" });
+      installFakeDom(h("body", {}, input));
+      // React installs an instance setter to track values; writes through it are not reported as changes
+      const native = Object.getOwnPropertyDescriptor(FakeInputElement.prototype, "value")!;
+      const trackedWrites: string[] = [];
+      Object.defineProperty(input, "value", {
+        configurable: true,
+        get: () => native.get!.call(input),
+        set: (value: string) => {
+          trackedWrites.push(value);
+          native.set!.call(input, value);
+        },
+      });
+      const events = recordEvents(input, ["keydown", "keypress", "beforeinput", "input", "keyup", "change"]);
+      input.addEventListener("beforeinput", (event) => {
+        if ((event as InputEvent).data === "!") event.preventDefault();
+      });
+      const values: string[] = [];
+      input.addEventListener("input", () => values.push((input as FakeInputElement).value));
+
+      const { data } = await interact({ action: "type", selector: "#name", text: "Al!", waitFor: "none" });
+
+      expect(trackedWrites).toEqual([]);
+      expect(values).toEqual(["", "A", "Al"]);
+      expect(events).toEqual([
+        "input",
+        "keydown:A", "keypress:A", "beforeinput:A", "input:A", "keyup:A",
+        "keydown:l", "keypress:l", "beforeinput:l", "input:l", "keyup:l",
+        "keydown:!", "keypress:!", "beforeinput:!", "keyup:!",
+        "change",
+      ]);
+      expect(data).toMatchObject({ element: { tagName: "input", value: "Al" }, activeElement: "input#name" });
+    });
+
+    it("should submit the form when Enter is pressed after typing", async () => {
+      const input = h("input", { name: "q" });
+      const form = h("form", {}, input);
+      installFakeDom(h("body", {}, form));
+      form.addEventListener("submit", (event) => event.preventDefault());
+
+      const { data } = await interact({ action: "type", selector: "input[name=q]", text: "vite", key: "Enter", waitFor: "none" });
+
+      expect((input as FakeInputElement).value).toBe("vite");
+      expect(data).toMatchObject({ defaultPrevented: false, element: { value: "vite" } });
+    });
+
+    it("should fall back to the native checked setter when a handler cancels the click", async () => {
+      const checkbox = h("input", { id: "terms", type: "checkbox" });
+      installFakeDom(h("body", {}, checkbox));
+      checkbox.addEventListener("click", (event) => event.preventDefault());
+      const events = recordEvents(checkbox, ["input", "change"]);
+
+      const { data } = await interact({ action: "check", selector: "#terms", waitFor: "none" });
+
+      expect(data).toMatchObject({ defaultPrevented: true, element: { checked: true } });
+      expect(events).toEqual(["input", "change"]);
+    });
+
+    it("should wait until the DOM has been quiet for the idle time", async () => {
+      const { mutate } = installFakeDom(h("body", {}, h("button", {}, "Load")));
+      setTimeout(mutate, 30);
+
+      const { data } = await interact({ action: "click", selector: "button", waitFor: "dom", idleTime: 50, timeout: 2000 });
+
+      expect(data).toMatchObject({ waitFor: "dom", settled: true });
+      expect(data!.waitedMs).toBeGreaterThanOrEqual(75);
+      expect(data!.waitedMs).toBeLessThan(2000);
+    });
+
+    it("should stop waiting and report not settled when the call is aborted", async () => {
+      installFakeDom(h("body", {}, h("button", {}, "Open")));
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 30);
+
+      const { data, summary } = await interact(
+        { action: "click", selector: "button", waitForSelector: "#toast", timeout: 5000 },
+        controller.signal
+      );
+
+      expect(data).toMatchObject({ waitFor: "selector", settled: false });
+      expect(data!.waitedMs).toBeLessThan(1000);
+      expect(summary).toBe("click button, did not settle (selector) within 5000ms");
+    });
+
+    it("should settle once the awaited selector appears and on navigation", async () => {
+      const body = h("body", {}, h("button", {}, "Open"));
+      const { window } = installFakeDom(body);
+      setTimeout(() => body.append(h("div", { id: "toast" }, "Saved")), 30);
+
+      expect((await interact({ action: "click", selector: "button", waitForSelector: "#toast", timeout: 2000 })).data).toMatchObject({
+        settled: true,
+        navigated: false,
+      });
+
+      setTimeout(() => {
+        window.location.href = "http://localhost:5173/next";
+        window.dispatchEvent(new Event("pagehide"));
+      }, 30);
+      expect((await interact({ action: "click", selector: "button", waitFor: "network", timeout: 2000 })).data).toMatchObject({
+        settled: true,
+        navigated: true,
+        url: "http://localhost:5173/next",
+      });
+    });
+  });
+});
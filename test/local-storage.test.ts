@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { localStorageAdapter, sessionStorageAdapter } from "../src/adapter/index.js";
+import builtinHandlers from "../src/bridge/handlers/index.js";
+import { viteMcp } from "../src/index.js";
+
+// Items are own enumerable properties, as with the real Storage, so Object.keys() lists them
+function fakeStorage(initial: { [key: string]: string }) {
+  const storage = { ...initial };
+  Object.defineProperties(storage, {
+    length: { get: () => Object.keys(storage).length },
+    getItem: { value: (key: string) => (Object.prototype.hasOwnProperty.call(storage, key) ? storage[key] : null) },
+    setItem: { value: (key: string, value: string) => (storage[key] = String(value)) },
+    removeItem: { value: (key: string) => delete storage[key] },
+    clear: { value: () => Object.keys(storage).forEach((key) => delete storage[key]) },
+  });
+  return storage;
+}
+
+const cart = { cart: ["sku-1"], user: { name: "Ada" } };
+// lz-string output for JSON.stringify(cart)
+const compressed = {
+  base64: "N4IgxghgTgLiBcBtEBnA1gVwLQEYQF0AaEDFAUygVADsIBbMhEAQQBMIQBfToA==",
+  uri: "N4IgxghgTgLiBcBtEBnA1gVwLQEYQF0AaEDFAUygVADsIBbMhEAQQBMIQBfToA",
+};
+
+// `initial` goes into one storage and the other stays empty
+function setup(initial: { [key: string]: string }, storageName: "localStorage" | "sessionStorage" = "localStorage") {
+  const storage = fakeStorage(initial);
+  vi.stubGlobal("window", {});
+  vi.stubGlobal("localStorage", storageName === "localStorage" ? storage : fakeStorage({}));
+  vi.stubGlobal("sessionStorage", storageName === "sessionStorage" ? storage : fakeStorage({}));
+  return storage;
+}
+
+async function run(params: { [key: string]: unknown }, adapter = localStorageAdapter) {
+  const result = await builtinHandlers[adapter.name as "local_storage" | "session_storage"].call({} as any, params);
+  const data = JSON.parse((result.content[0] as { text: string }).text);
+  if (!result.isError) {
+    adapter.outputSchema.parse(data);
+  }
+  return { isError: result.isError === true, data };
+}
+
+describe("Web Storage", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Decoding", () => {
+    it("should return raw strings unless decode is set", async () => {
+      setup({ cart: JSON.stringify(cart) });
+      const { data } = await run({ action: "get", key: "cart" });
+
+      expect(data).toEqual({ action: "get", key: "cart", value: JSON.stringify(cart), size: 40 });
+    });
+
+    it("should detect JSON, base64 and lz-string values in auto mode", async () => {
+      setup({
+        json: JSON.stringify(cart),
+        base64: btoa(JSON.stringify(cart)),
+        compressed: compressed.base64,
+        uri: compressed.uri,
+        theme: "dark",
+        count: "2",
+      });
+      const { data } = await run({ action: "read", decode: "auto" });
+      const decoded = Object.fromEntries(data.items.map((item: any) => [item.key, [item.encoding, item.decoded]]));
+
+      expect(decoded).toEqual({
+        json: ["json", cart],
+        base64: ["base64", cart],
+        compressed: ["lz-string-base64", cart],
+        uri: ["lz-string-uri", cart],
+        theme: ["text", "dark"],
+        count: ["json", 2],
+      });
+    });
+
+    it("should return the decoded text when an explicit encoding does not wrap JSON", async () => {
+      setup({ greeting: btoa("hello"), raw: "hello" });
+
+      expect((await run({ action: "get", key: "greeting", decode: "base64" })).data).toMatchObject({ encoding: "base64", decoded: "hello" });
+      expect((await run({ action: "get", key: "raw", decode: "json" })).data).toMatchObject({ encoding: "text", decoded: "hello" });
+    });
+  });
+
+  describe("Query", () => {
+    it("should pull nested fields with JSONPath", async () => {
+      const order = { items: [{ sku: "a", qty: 1 }, { sku: "b", qty: 3 }], "ship to": { city: "Oslo" } };
+      setup({ order: btoa(JSON.stringify(order)) });
+
+      const query = async (path: string) => (await run({ action: "get", key: "order", query: path })).data.queryResult;
+      expect(await query("$.items[*].sku")).toEqual(["a", "b"]);
+      expect(await query("items[-1].qty")).toEqual([3]);
+      expect(await query("$['ship to'].city")).toEqual(["Oslo"]);
+      expect(await query("$.missing.field")).toEqual([]);
+    });
+
+    it("should reject an invalid query", async () => {
+      setup({ order: "{}" });
+      const { isError, data } = await run({ action: "get", key: "order", query: "$.items[" });
+
+      expect(isError).toBe(true);
+      expect(data.error).toContain('Invalid query "$.items["');
+    });
+  });
+
+  describe("Patch", () => {
+    it("should apply a JSON merge patch and keep the value's encoding", async () => {
+      const storage = setup({ json: JSON.stringify(cart), base64: btoa(JSON.stringify(cart)), compressed: compressed.base64 });
+      const patch = { user: { name: null, id: 7 }, cart: ["sku-2"] };
+      const expected = { cart: ["sku-2"], user: { id: 7 } };
+
+      for (const [key, encoding] of [["json", "json"], ["base64", "base64"], ["compressed", "lz-string-base64"]]) {
+        const { data } = await run({ action: "patch", key, patch });
+        expect(data).toMatchObject({ action: "patch", success: true, key, encoding, decoded: expected });
+        expect((await run({ action: "get", key, decode: "auto" })).data).toMatchObject({ encoding, decoded: expected });
+      }
+      expect(storage["json"]).toBe(JSON.stringify(expected));
+    });
+
+    it("should create a missing value and refuse to patch plain text", async () => {
+      const storage = setup({ theme: "dark" });
+
+      await run({ action: "patch", key: "settings", patch: { beta: true } });
+      expect(storage["settings"]).toBe('{"beta":true}');
+
+      const { isError, data } = await run({ action: "patch", key: "theme", patch: { mode: "dark" } });
+      expect(isError).toBe(true);
+      expect(data.error).toBe(`Value of "theme" is not JSON and can't be patched; use edit to replace it`);
+    });
+
+    it("should patch sessionStorage the same way", async () => {
+      const storage = setup({ step: '{"n":1}' }, "sessionStorage");
+      await run({ action: "patch", key: "step", patch: { n: 2 } }, sessionStorageAdapter);
+
+      expect(storage["step"]).toBe('{"n":2}');
+      expect(localStorage.length).toBe(0);
+    });
+
+    it("should put patch behind the write permission", () => {
+      const plugin = viteMcp({ auditLog: false, adapterConfig: { localStorage: { write: false } } }) as any;
+      plugin.configResolved({ mode: "development", root: "/app" });
+      const code: string = plugin.load("\0vite-mcp-bridge.ts");
+
+      expect(code).toContain('allowedActions: ["read","get","remove","clear"]');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  installNetworkCapture,
+  networkAdapter,
+  networkAdapterInputSchema,
+  networkAdapterOutputSchema,
+} from "../src/adapter/network.js";
+
+describe("Network Adapter", () => {
+  describe("Input Schema Validation", () => {
+    it("should accept list with filters", () => {
+      const result = networkAdapterInputSchema.safeParse({
+        action: "list",
+        url: "/api",
+        minStatus: "400",
+        type: "fetch",
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.minStatus).toBe(400);
+      }
+    });
+
+    it("should reject unknown actions", () => {
+      const result = networkAdapterInputSchema.safeParse({ action: "replay" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject unknown request types", () => {
+      const result = networkAdapterInputSchema.safeParse({ action: "list", type: "beacon" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("Capture Script", () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+      (globalThis as any).window = {
+        fetch: fetchMock,
+        location: { href: "http://localhost:5173/app" },
+      };
+      // Run the serialized script the same way the injected <script> does
+      new Function(`(${installNetworkCapture.toString()})(3, 8, 5);`)();
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).window;
+    });
+
+    async function callAdapter(params: Record<string, unknown>) {
+      const result = await networkAdapter.handler!.call({ server: {} }, params);
+      return networkAdapterOutputSchema.parse(result.structuredContent);
+    }
+
+    it("should record fetch requests with status, headers and capped bodies", async () => {
+      fetchMock.mockResolvedValue(
+        new Response("0123456789abcdef", {
+          status: 201,
+          headers: { "content-type": "application/json", "x-trace": "abc" },
+        })
+      );
+
+      await (globalThis as any).window.fetch("/api/items", {
+        method: "post",
+        headers: { "Content-Type": "application/json" },
+        body: "{\"name\":\"item\"}",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const list = await callAdapter({ action: "list" });
+      expect(list.requests).toHaveLength(1);
+      expect(list.requests?.[0]).toMatchObject({
+        type: "fetch",
+        method: "POST",
+        url: "http://localhost:5173/api/items",
+        status: 201,
+        state: "complete",
+      });
+
+      const details = await callAdapter({ action: "get", id: list.requests?.[0]?.id });
+      expect(details.request?.requestHeaders).toEqual({ "content-type": "application/json" });
+      expect(details.request?.responseHeaders["x-trace"]).toBe("abc");
+      expect(details.request?.requestBody).toBe("{\"name\":");
+      expect(details.request?.requestBodyTruncated).toBe(true);
+      expect(details.request?.responseBody).toBe("01234567");
+      expect(details.request?.responseBodySize).toBe(16);
+    });
+
+    it("should record the body of a Request and leave it readable for fetch", async () => {
+      fetchMock.mockImplementation(async (request: Request) => new Response(await request.text()));
+
+      const response = await (globalThis as any).window.fetch(
+        new Request("http://localhost:5173/api/items", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: "{\"name\":\"item\"}",
+        })
+      );
+      expect(await response.text()).toBe("{\"name\":\"item\"}");
+
+      const list = await callAdapter({ action: "list" });
+      const details = await callAdapter({ action: "get", id: list.requests?.[0]?.id });
+      expect(details.request).toMatchObject({
+        method: "POST",
+        requestHeaders: { "content-type": "application/json" },
+        requestBody: "{\"name\":",
+        requestBodySize: 15,
+        requestBodyTruncated: true,
+      });
+    });
+
+    it("should record failed fetch requests", async () => {
+      fetchMock.mockRejectedValue(new TypeError("Failed to fetch"));
+
+      await expect((globalThis as any).window.fetch("http://example.test/down")).rejects.toThrow("Failed to fetch");
+
+      const list = await callAdapter({ action: "list", failed: true });
+      expect(list.requests?.[0]).toMatchObject({ state: "error", error: "Failed to fetch" });
+    });
+
+    it("should filter by URL and status and keep a ring buffer", async () => {
+      fetchMock.mockImplementation(async (url: string) =>
+        new Response("", { status: url.includes("missing") ? 404 : 200 })
+      );
+
+      for (const url of ["/a", "/b", "/missing", "/c"]) {
+        await (globalThis as any).window.fetch(url);
+      }
+
+      const all = await callAdapter({ action: "list" });
+      expect(all.total).toBe(3);
+      expect(all.requests?.map((request) => request.url)).toEqual([
+        "http://localhost:5173/b",
+        "http://localhost:5173/missing",
+        "http://localhost:5173/c",
+      ]);
+
+      const notFound = await callAdapter({ action: "list", status: 404 });
+      expect(notFound.count).toBe(1);
+
+      const byUrl = await callAdapter({ action: "list", url: "/C" });
+      expect(byUrl.requests?.[0]?.url).toBe("http://localhost:5173/c");
+    });
+
+    it("should clear captured requests", async () => {
+      fetchMock.mockResolvedValue(new Response(""));
+      await (globalThis as any).window.fetch("/a");
+
+      const cleared = await callAdapter({ action: "clear" });
+      expect(cleared.cleared).toBe(1);
+
+      const list = await callAdapter({ action: "list" });
+      expect(list.count).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { vi } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { viteMcp } from "../src/index.js";
+
+/**
+ * Run the plugin against a fake dev server with one tab that receives tool calls
+ * but never answers them, and connect an MCP client over HTTP. With
+ * `connected: false` the tab only connects once `connectTab` is called; `addTab`
+ * connects more tabs.
+ */
+export async function startPlugin(options: Parameters<typeof viteMcp>[0], { connected = true } = {}) {
+  const listeners: { [event: string]: (data: any, client: any) => void } = {};
+  const socket = { send: vi.fn() };
+  const clients = new Set<typeof socket>();
+  let middleware: (req: any, res: any, next: () => void) => Promise<void> = async () => {};
+  const plugin = viteMcp({ auditLog: false, ...options }) as any;
+  plugin.configResolved({ mode: "development", root: "/app" });
+  plugin.configureServer({
+    config: { cacheDir: "/app/node_modules/.vite", server: {} },
+    ws: { on: (event: string, listener: any) => (listeners[event] = listener), send: vi.fn(), clients },
+    middlewares: { use: (fn: typeof middleware) => (middleware = fn) },
+  });
+
+  const connectTab = () => {
+    clients.add(socket);
+    listeners["mcp:bridge-ready"]!(
+      { clientId: "tab-1", url: "http://localhost:5173/", title: "App", visibility: "visible" },
+      socket
+    );
+  };
+  if (connected) {
+    connectTab();
+  }
+  // Another tab with its own socket; without `info` it connects but never registers a bridge
+  const addTab = (info?: { clientId: string; visibility?: "visible" | "hidden" }) => {
+    const tab = { send: vi.fn() };
+    clients.add(tab);
+    if (info) {
+      listeners["mcp:bridge-ready"]!({ url: "http://localhost:5173/", title: "App", visibility: "visible", ...info }, tab);
+    }
+    return tab;
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    void middleware(req, res, () => {
+      res.statusCode = 404;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/__mcp`)) as any);
+
+  const sent = (event: string) => socket.send.mock.calls.filter(([name]) => name === event).map(([, data]) => data);
+  const close = async () => {
+    await client.close();
+    await new Promise((resolve) => httpServer.close(resolve));
+  };
+  return { client, socket, listeners, sent, connectTab, addTab, origin: `http://127.0.0.1:${port}`, close };
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { mcpBridge } from "../src/bridge/bridge.js";
+import { ViteMcpServer } from "../src/server.js";
+import type { AdapterDefinition } from "../src/adapter/types.js";
+import { startPlugin } from "./plugin-server.js";
+
+const scanAdapter: AdapterDefinition = {
+  name: "scan",
+  description: "Reports progress",
+  inputSchema: z.object({}),
+  handler: async () => ({ content: [] }),
+};
+
+function setupBridge(handler: (this: { progress: (current: number, total?: number, message?: string) => void }) => Promise<unknown>) {
+  const noop = () => {};
+  vi.stubGlobal("window", {
+    addEventListener: noop,
+    dispatchEvent: noop,
+    location: { href: "http://localhost:5173/" },
+    history: { pushState: noop, replaceState: noop },
+  });
+  vi.stubGlobal("document", {
+    title: "App",
+    visibilityState: "visible",
+    addEventListener: noop,
+    querySelector: () => null,
+  });
+  vi.stubGlobal("Storage", class {});
+
+  const listeners: { [event: string]: (data: any) => void } = {};
+  const hot = {
+    send: vi.fn(),
+    on: (event: string, listener: (data: any) => void) => {
+      listeners[event] = listener;
+    },
+  };
+  mcpBridge(hot, new Map([["scan", { handler: handler as any }]]));
+
+  const sent = (event: string) => hot.send.mock.calls.filter(([name]) => name === event).map(([, data]) => data);
+  return { listeners, sent };
+}
+
+describe("Progress", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe("Bridge", () => {
+    it("should send progress for the running call", async () => {
+      const { listeners, sent } = setupBridge(async function () {
+        this.progress(1, 2, "Reading keys");
+        this.progress(2, 2);
+        return { content: [] };
+      });
+
+      listeners["mcp:tool-call"]!({ id: "call-1", name: "scan", params: {} });
+      await vi.waitFor(() => expect(sent("mcp:tool-result")).toHaveLength(1));
+
+      expect(sent("mcp:tool-progress")).toEqual([
+        { id: "call-1", progress: 1, total: 2, message: "Reading keys" },
+        { id: "call-1", progress: 2, total: 2, message: undefined },
+      ]);
+    });
+
+    it("should stop sending progress once the call is cancelled", async () => {
+      let report: ((current: number) => void) | undefined;
+      const { listeners, sent } = setupBridge(function () {
+        report = this.progress;
+        return new Promise(() => {});
+      });
+
+      listeners["mcp:tool-call"]!({ id: "call-1", name: "scan", params: {} });
+      listeners["mcp:tool-cancel"]!({ id: "call-1" });
+      report?.(1);
+
+      expect(sent("mcp:tool-progress")).toEqual([]);
+    });
+  });
+
+  describe("Server", () => {
+    it("should only offer progress when the client sent a progress token", async () => {
+      const server = new ViteMcpServer({ name: "test", version: "1.0.0", adapters: [] });
+      const contexts: Array<{ progress?: unknown }> = [];
+      server.registerAdapter(scanAdapter, async (_input, context) => {
+        contexts.push(context ?? {});
+        context?.progress?.(3, 10, "Scanning");
+        return { content: [{ type: "text", text: "done" }] };
+      });
+      server.markInitialized();
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await (server as any).mcpServer.connect(serverTransport);
+      const client = new Client({ name: "test", version: "1.0.0" });
+      await client.connect(clientTransport);
+
+      try {
+        const updates: Progress[] = [];
+        await client.callTool({ name: "scan", arguments: {} }, undefined, { onprogress: (update) => updates.push(update) });
+        await client.callTool({ name: "scan", arguments: {} });
+
+        expect(updates).toEqual([{ progress: 3, total: 10, message: "Scanning" }]);
+        expect(typeof contexts[0]?.progress).toBe("function");
+        expect(contexts[1]?.progress).toBeUndefined();
+      } finally {
+        await client.close();
+      }
+    });
+  });
+
+  describe("Plugin", () => {
+    it("should relay browser progress to the HTTP client", async () => {
+      const { client, listeners, sent, close } = await startPlugin({ adapters: [scanAdapter] });
+      try {
+        const updates: Progress[] = [];
+        const pending = client.callTool({ name: "scan", arguments: {} }, undefined, {
+          onprogress: (update) => updates.push(update),
+        });
+        await vi.waitFor(() => expect(sent("mcp:tool-call")).toHaveLength(1));
+        const [{ id }] = sent("mcp:tool-call");
+
+        listeners["mcp:tool-progress"]!({ id, progress: 5, total: 8, message: "Reading entries" }, undefined);
+        await vi.waitFor(() => expect(updates).toEqual([{ progress: 5, total: 8, message: "Reading entries" }]));
+
+        listeners["mcp:tool-result"]!({ id, result: { content: [{ type: "text", text: "done" }] } }, undefined);
+        expect((await pending).isError).toBeFalsy();
+      } finally {
+        await close();
+      }
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ViteMcpServer } from "../src/server.js";
+import { builtinPrompts, promptSection } from "../src/prompts.js";
+import type { PromptContext } from "../src/prompts.js";
+
+function createContext(outputs: Record<string, string>): PromptContext {
+  return {
+    callTool: vi.fn(async (name: string) => outputs[name] ?? `(The ${name} tool is not enabled)`),
+  };
+}
+
+describe("Prompts", () => {
+  describe("Built-in Prompts", () => {
+    it("should ship the debugging workflows", () => {
+      expect(builtinPrompts.map(({ name }) => name)).toEqual([
+        "debug-current-page",
+        "audit-performance",
+        "explain-storage-state",
+      ]);
+    });
+
+    it("should fill debug-current-page with console errors, failed requests and components", async () => {
+      const prompt = builtinPrompts.find(({ name }) => name === "debug-current-page")!;
+      const context = createContext({
+        "read-console": "[ERROR] TypeError: items is undefined",
+        network: "GET /api/items 500",
+        "component-tree": '{"framework":"react"}',
+      });
+
+      const text = await prompt.build({ problem: "The list is empty" }, context);
+
+      expect(context.callTool).toHaveBeenCalledWith("read-console", { type: "error", tail: 30, sourceMap: true });
+      expect(context.callTool).toHaveBeenCalledWith("network", { action: "list", failed: true, tail: 20 });
+      expect(text).toContain("Reported problem: The list is empty");
+      expect(text).toContain("## Console errors\n\n[ERROR] TypeError: items is undefined");
+      expect(text).toContain("## Failed network requests\n\nGET /api/items 500");
+      expect(text).toContain('## Route and component tree\n\n{"framework":"react"}');
+    });
+
+    it("should report tools that are not enabled instead of failing", async () => {
+      const prompt = builtinPrompts.find(({ name }) => name === "explain-storage-state")!;
+      const text = await prompt.build({}, createContext({ local_storage: '{"items":[]}' }));
+
+      expect(text).toContain("## localStorage\n\n{\"items\":[]}");
+      expect(text).toContain("(The indexed_db tool is not enabled)");
+      expect(text).not.toContain("Question:");
+    });
+  });
+
+  describe("Sections", () => {
+    it("should truncate long sections", () => {
+      const section = promptSection("Console", "x".repeat(7000));
+      expect(section).toContain("... (truncated, 1000 more characters)");
+    });
+
+    it("should mark empty sections", () => {
+      expect(promptSection("Console", "  ")).toBe("## Console\n\n(empty)");
+    });
+  });
+
+  describe("Server", () => {
+    let client: Client | undefined;
+
+    afterEach(async () => {
+      await client?.close();
+      client = undefined;
+    });
+
+    it("should list prompts and pass arguments to the handler", async () => {
+      const server = new ViteMcpServer({ name: "test", version: "1.0.0", adapters: [] });
+      server.registerPrompt({
+        name: "check-route",
+        description: "Check a route",
+        arguments: { path: { description: "Route path", required: true } },
+        handler: async (args) => ({
+          messages: [{ role: "user", content: { type: "text", text: `Check ${args["path"]}` } }],
+        }),
+      });
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await (server as any).mcpServer.connect(serverTransport);
+      client = new Client({ name: "test", version: "1.0.0" });
+      await client.connect(clientTransport);
+
+      const { prompts } = await client.listPrompts();
+      expect(prompts[0]).toMatchObject({
+        name: "check-route",
+        description: "Check a route",
+        arguments: [{ name: "path", required: true }],
+      });
+
+      const result = await client.getPrompt({ name: "check-route", arguments: { path: "/todos" } });
+      expect(result.messages[0]?.content).toEqual({ type: "text", text: "Check /todos" });
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { ViteMcpServer } from "../src/server.js";
+import { localStorageAdapter } from "../src/adapter/index.js";
+
+async function connect(server: ViteMcpServer): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await (server as any).mcpServer.connect(serverTransport);
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+describe("Resources", () => {
+  let client: Client | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+  });
+
+  describe("Adapter Resources", () => {
+    it("should map storage item templates to get calls", () => {
+      const item = localStorageAdapter.resources?.find(({ uri }) => uri === "vite://storage/local/{key}");
+      expect(item?.params?.({ key: "theme" })).toEqual({ action: "get", key: "theme" });
+    });
+
+    it("should list one resource per storage key", () => {
+      const item = localStorageAdapter.resources?.find(({ uri }) => uri === "vite://storage/local/{key}");
+      const listed = item?.list?.resources({
+        action: "read",
+        items: [
+          { key: "theme", value: "dark" },
+          { key: "user/id", value: "1" },
+        ],
+      });
+      expect(listed).toEqual([
+        { uri: "vite://storage/local/theme", name: "localStorage: theme" },
+        { uri: "vite://storage/local/user%2Fid", name: "localStorage: user/id" },
+      ]);
+    });
+  });
+
+  describe("Server", () => {
+    it("should list and read static resources", async () => {
+      const server = new ViteMcpServer({ name: "test", version: "1.0.0", adapters: [] });
+      server.registerResource({
+        name: "console",
+        uri: "vite://console",
+        mimeType: "application/json",
+        read: async (uri) => ({
+          contents: [{ uri: uri.href, mimeType: "application/json", text: '{"logs":[]}' }],
+        }),
+      });
+      client = await connect(server);
+
+      const { resources } = await client.listResources();
+      expect(resources).toEqual([
+        expect.objectContaining({ name: "console", uri: "vite://console", mimeType: "application/json" }),
+      ]);
+
+      const { contents } = await client.readResource({ uri: "vite://console" });
+      expect(contents[0]).toMatchObject({ uri: "vite://console", text: '{"logs":[]}' });
+    });
+
+    it("should pass decoded template variables and list concrete resources", async () => {
+      const server = new ViteMcpServer({ name: "test", version: "1.0.0", adapters: [] });
+      server.registerResource({
+        name: "local-storage-item",
+        uri: "vite://storage/local/{key}",
+        list: async () => [{ uri: "vite://storage/local/theme", name: "localStorage: theme" }],
+        read: async (uri, variables) => ({
+          contents: [{ uri: uri.href, text: variables["key"] ?? "" }],
+        }),
+      });
+      client = await connect(server);
+
+      const { resourceTemplates } = await client.listResourceTemplates();
+      expect(resourceTemplates[0]?.uriTemplate).toBe("vite://storage/local/{key}");
+
+      const { resources } = await client.listResources();
+      expect(resources.map(({ uri }) => uri)).toEqual(["vite://storage/local/theme"]);
+
+      const { contents } = await client.readResource({ uri: "vite://storage/local/user%2Fid" });
+      expect(contents[0]).toMatchObject({ text: "user/id" });
+    });
+
+    it("should notify subscribed clients when a resource changes", async () => {
+      const server = new ViteMcpServer({ name: "test", version: "1.0.0", adapters: [] });
+      server.registerResource({
+        name: "console",
+        uri: "vite://console",
+        read: async (uri) => ({ contents: [{ uri: uri.href, text: "" }] }),
+      });
+      client = await connect(server);
+
+      const updated: string[] = [];
+      const received = new Promise<void>((resolve) => {
+        client!.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+          updated.push(notification.params.uri);
+          resolve();
+        });
+      });
+
+      await server.notifyResourceUpdated("vite://console");
+      await client.subscribeResource({ uri: "vite://console" });
+      await server.notifyResourceUpdated("vite://storage/local");
+      await server.notifyResourceUpdated("vite://console");
+      await received;
+
+      expect(updated).toEqual(["vite://console"]);
+    });
+
+    it("should stop notifying after unsubscribe", async () => {
+      const server = new ViteMcpServer({ name: "test", version: "1.0.0", adapters: [] });
+      server.registerResource({
+        name: "console",
+        uri: "vite://console",
+        read: async (uri) => ({ contents: [{ uri: uri.href, text: "" }] }),
+      });
+      client = await connect(server);
+
+      const updated: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        updated.push(notification.params.uri);
+      });
+
+      await client.subscribeResource({ uri: "vite://console" });
+      await client.unsubscribeResource({ uri: "vite://console" });
+      await server.notifyResourceUpdated("vite://console");
+      await client.listResources();
+
+      expect(updated).toEqual([]);
+    });
+
+    it("should reject duplicate resource URIs", () => {
+      const server = new ViteMcpServer({ name: "test", version: "1.0.0", adapters: [] });
+      const resource = {
+        name: "console",
+        uri: "vite://console",
+        read: async () => ({ contents: [] }),
+      };
+      server.registerResource(resource);
+      expect(() => server.registerResource(resource)).toThrow("already registered");
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod";
+import { ViteMcpServer, isMcpRoute, resolveMcpRoutes } from "../src/server.js";
+import type { AdapterDefinition } from "../src/adapter/types.js";
+
+const pingAdapter: AdapterDefinition = {
+  name: "ping",
+  description: "Ping the page",
+  inputSchema: z.object({}),
+  handler: async () => ({ content: [] }),
+};
+
+describe("MCP Routes", () => {
+  describe("Route Table", () => {
+    it("should default to /__mcp with the legacy /_mcp alias", () => {
+      expect(resolveMcpRoutes()).toEqual({
+        endpoint: "/__mcp",
+        sse: "/__mcp/sse",
+        health: "/__mcp/health",
+        aliases: ["/_mcp"],
+      });
+    });
+
+    it("should derive all routes from a custom endpoint", () => {
+      expect(resolveMcpRoutes("apps/admin/mcp/")).toEqual({
+        endpoint: "/apps/admin/mcp",
+        sse: "/apps/admin/mcp/sse",
+        health: "/apps/admin/mcp/health",
+        aliases: [],
+      });
+    });
+
+    it("should apply route overrides", () => {
+      const routes = resolveMcpRoutes("/admin-mcp", { health: "/healthz", aliases: ["/mcp"] });
+      expect(routes.health).toBe("/healthz");
+      expect(routes.aliases).toEqual(["/mcp"]);
+    });
+
+    it("should reject routes that would capture every request", () => {
+      expect(() => resolveMcpRoutes("/")).toThrow("would capture every request");
+    });
+
+    it("should only match requests for the configured routes", () => {
+      const routes = resolveMcpRoutes("/admin-mcp", { health: "/healthz" });
+      expect(isMcpRoute("/admin-mcp", routes)).toBe(true);
+      expect(isMcpRoute("/admin-mcp/", routes)).toBe(true);
+      expect(isMcpRoute("/admin-mcp/sse", routes)).toBe(true);
+      expect(isMcpRoute("/healthz", routes)).toBe(true);
+      expect(isMcpRoute("/__mcp", routes)).toBe(false);
+      expect(isMcpRoute("/_mcp", routes)).toBe(false);
+      expect(isMcpRoute("/admin-mcp-legacy", routes)).toBe(false);
+    });
+  });
+
+  describe("Server", () => {
+    let http: Server | undefined;
+
+    afterEach(async () => {
+      await new Promise((resolve) => (http ? http.close(resolve) : resolve(undefined)));
+      http = undefined;
+    });
+
+    async function start(server: ViteMcpServer): Promise<string> {
+      server.registerAdapter(pingAdapter, async () => ({ content: [] }));
+      server.markInitialized();
+      http = createServer((req, res) => void server.handleHTTP(req, res));
+      await new Promise<void>((resolve) => http!.listen(0, "127.0.0.1", resolve));
+      return `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+    }
+
+    it("should serve health checks and server info on the configured routes", async () => {
+      const origin = await start(
+        new ViteMcpServer({
+          name: "admin-app",
+          version: "1.0.0",
+          adapters: [],
+          routes: resolveMcpRoutes("/admin-mcp", { health: "/healthz" }),
+        })
+      );
+
+      const health = await fetch(`${origin}/healthz`);
+      expect(health.status).toBe(200);
+      expect(await health.json()).toMatchObject({ status: "ready", name: "admin-app" });
+
+      const info = await fetch(`${origin}/admin-mcp`);
+      expect(await info.json()).toMatchObject({ name: "admin-app", adapters: ["ping"] });
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  screenshotAdapter,
+  screenshotAdapterInputSchema,
+  screenshotAdapterOutputSchema,
+} from "../src/adapter/screenshot.js";
+import { startPlugin } from "./plugin-server.js";
+
+// The base64 payload the stubbed canvas encodes to
+const PIXELS = "iVBORw0KGgoAAAANSUhEUg==";
+
+class StubElement {
+  readonly nodeType = 1;
+  readonly namespaceURI = "http://www.w3.org/1999/xhtml";
+  readonly tagName: string;
+  readonly childNodes: StubElement[] = [];
+  readonly attributes = new Map<string, string>();
+  readonly style = { cssText: "", setProperty: vi.fn() };
+  parentElement: StubElement | null = null;
+  contentDocument = null;
+  removed = false;
+
+  constructor(readonly localName: string) {
+    this.tagName = localName.toUpperCase();
+  }
+  setAttribute(name: string, value: string) {
+    this.attributes.set(name, value);
+  }
+  getAttribute(name: string) {
+    return this.attributes.get(name) ?? null;
+  }
+  hasAttribute(name: string) {
+    return this.attributes.has(name);
+  }
+  removeAttribute(name: string) {
+    this.attributes.delete(name);
+  }
+  appendChild(child: StubElement) {
+    child.parentElement = this;
+    this.childNodes.push(child);
+    return child;
+  }
+  cloneNode() {
+    return new StubElement(this.localName);
+  }
+  remove() {
+    this.removed = true;
+  }
+  getBoundingClientRect() {
+    return { left: 10, top: 20, width: 200, height: 100 };
+  }
+}
+
+class StubCanvas extends StubElement {
+  width = 0;
+  height = 0;
+  readonly context = { fillStyle: "", fillRect: vi.fn(), drawImage: vi.fn() };
+  // Like a browser that can't encode the requested type, answer in PNG
+  readonly toDataURL = vi.fn((_type: string, _quality: number) => `data:image/png;base64,${PIXELS}`);
+  getContext() {
+    return this.context;
+  }
+}
+
+// Stub the DOM APIs the screenshot pipeline goes through, with one #chart element on the page
+function setupPage() {
+  const chart = new StubElement("section");
+  chart.setAttribute("id", "chart");
+  chart.appendChild(new StubElement("span"));
+  const body = new StubElement("body");
+  body.appendChild(chart);
+  const documentElement = Object.assign(new StubElement("html"), { scrollWidth: 1024 });
+  const created: StubElement[] = [];
+  const images: string[] = [];
+  const serialized: StubElement[] = [];
+
+  vi.stubGlobal("document", {
+    body,
+    documentElement,
+    createElement: (tag: string) => {
+      const element = tag === "canvas" ? new StubCanvas(tag) : new StubElement(tag);
+      created.push(element);
+      return element;
+    },
+    querySelectorAll: (selector: string) => (selector === "#chart" ? [chart] : []),
+  });
+  vi.stubGlobal("window", {
+    innerWidth: 1024,
+    innerHeight: 768,
+    scrollX: 0,
+    scrollY: 0,
+    devicePixelRatio: 1,
+    getComputedStyle: () => ({ length: 0, item: () => "", getPropertyValue: () => "", backgroundColor: "rgb(250, 250, 250)" }),
+  });
+  // A class, since matchers check `instanceof Node`
+  vi.stubGlobal("Node", class {
+    static readonly ELEMENT_NODE = 1;
+    static readonly TEXT_NODE = 3;
+  });
+  for (const name of ["HTMLCanvasElement", "HTMLIFrameElement", "HTMLVideoElement", "HTMLImageElement", "HTMLInputElement", "HTMLTextAreaElement", "HTMLSelectElement"]) {
+    vi.stubGlobal(name, class {});
+  }
+  vi.stubGlobal(
+    "XMLSerializer",
+    class {
+      serializeToString(frame: StubElement) {
+        serialized.push(frame);
+        return "<div/>";
+      }
+    }
+  );
+  vi.stubGlobal(
+    "Image",
+    class {
+      onload?: () => void;
+      set src(url: string) {
+        images.push(url);
+        queueMicrotask(() => this.onload?.());
+      }
+    }
+  );
+
+  const canvas = () => created.find((element): element is StubCanvas => element instanceof StubCanvas);
+  const sandbox = () => created.find((element) => element.localName === "iframe");
+  return { chart, canvas, sandbox, images, serialized };
+}
+
+describe("Screenshot Adapter", () => {
+  describe("Input Schema Validation", () => {
+    it("should accept a viewport capture without parameters", () => {
+      expect(screenshotAdapterInputSchema.safeParse({}).success).toBe(true);
+    });
+
+    it("should accept an element capture with format options", () => {
+      const result = screenshotAdapterInputSchema.safeParse({
+        selector: "#chart",
+        format: "jpeg",
+        quality: "0.6",
+        maxWidth: 800,
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.quality).toBe(0.6);
+      }
+    });
+
+    it("should reject unsupported formats and out of range quality", () => {
+      expect(screenshotAdapterInputSchema.safeParse({ format: "gif" }).success).toBe(false);
+      expect(screenshotAdapterInputSchema.safeParse({ quality: 2 }).success).toBe(false);
+    });
+  });
+
+  describe("Output Schema Validation", () => {
+    it("should accept capture metadata", () => {
+      const result = screenshotAdapterOutputSchema.safeParse({
+        target: "element",
+        selector: "#chart",
+        mimeType: "image/png",
+        width: 640,
+        height: 480,
+        scale: 2,
+        size: 20480,
+        warnings: ["<iframe> content is not rendered"],
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("Handler", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should return an error outside the browser", async () => {
+      const result = await screenshotAdapter.handler!.call({ server: {} }, {});
+      expect(result.isError).toBe(true);
+    });
+
+    it("should return the capture as an image content block with its metadata", async () => {
+      const page = setupPage();
+
+      const result = await screenshotAdapter.handler!.call({ server: {} }, { selector: "#chart", format: "webp", quality: 0.5 });
+
+      expect(result.isError).toBeUndefined();
+      const metadata = {
+        target: "element",
+        mimeType: "image/png",
+        width: 200,
+        height: 100,
+        scale: 1,
+        size: 18,
+        warnings: [],
+        selector: "#chart",
+      };
+      expect(result.structuredContent).toEqual(metadata);
+      expect(result.content).toEqual([
+        { type: "image", data: PIXELS, mimeType: "image/png" },
+        { type: "text", text: JSON.stringify(metadata) },
+      ]);
+      expect(screenshotAdapterOutputSchema.safeParse(result.structuredContent).success).toBe(true);
+
+      // The element clone goes into an SVG foreignObject that the canvas draws
+      expect(page.serialized[0]?.childNodes[0]?.localName).toBe("section");
+      expect(page.images[0]).toMatch(/^data:image\/svg\+xml;charset=utf-8,/);
+      expect(decodeURIComponent(page.images[0]!)).toContain("<foreignObject x=\"0\" y=\"0\" width=\"100%\" height=\"100%\"><div/></foreignObject>");
+      expect(page.canvas()?.toDataURL).toHaveBeenCalledWith("image/webp", 0.5);
+      expect(page.canvas()?.context.fillStyle).toBe("rgb(250, 250, 250)");
+      expect(page.sandbox()?.removed).toBe(true);
+    });
+
+    it("should report a selector that matches nothing", async () => {
+      const page = setupPage();
+
+      const result = await screenshotAdapter.handler!.call({ server: {} }, { selector: "#missing" });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({ error: "No element matches selector: #missing" });
+      expect(page.sandbox()?.removed).toBe(true);
+    });
+  });
+
+  describe("Plugin", () => {
+    it("should pass the image block to the MCP client next to the re-serialized text block", async () => {
+      const { client, listeners, sent, close } = await startPlugin({ adapters: [screenshotAdapter] });
+      const metadata = { target: "viewport", mimeType: "image/png", width: 1024, height: 768, scale: 1, size: 18, warnings: [] };
+      try {
+        const pending = client.callTool({ name: "screenshot", arguments: {} });
+        await vi.waitFor(() => expect(sent("mcp:tool-call")).toHaveLength(1));
+        // A bridge result without structuredContent: the text block is validated and written again
+        listeners["mcp:tool-result"]!(
+          {
+            id: sent("mcp:tool-call")[0].id,
+            result: {
+              content: [
+                { type: "text", text: JSON.stringify({ ...metadata, debug: true }) },
+                { type: "image", data: PIXELS, mimeType: "image/png" },
+              ],
+            },
+          },
+          undefined
+        );
+        const result = await pending;
+
+        expect(result.isError).toBeFalsy();
+        expect(result.structuredContent).toEqual(metadata);
+        expect(result.content).toEqual([
+          { type: "text", text: JSON.stringify(metadata) },
+          { type: "image", data: PIXELS, mimeType: "image/png" },
+        ]);
+      } finally {
+        await close();
+      }
+    });
+  });
+});
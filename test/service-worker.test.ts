@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  serviceWorkerAdapter,
+  serviceWorkerAdapterInputSchema,
+  serviceWorkerAdapterOutputSchema,
+} from "../src/adapter/service-worker.js";
+import { viteMcp } from "../src/index.js";
+
+// A worker that activates on SKIP_WAITING unless it ignores the message, and lists
+// its caches on request when given `caches`
+function worker(scriptURL: string, state: string, { caches, skipsWaiting = true }: { caches?: string[]; skipsWaiting?: boolean } = {}) {
+  const listeners = new Set<() => void>();
+  const sw = {
+    scriptURL,
+    state,
+    postMessage: vi.fn((message: { type?: string }, ports?: MessagePort[]) => {
+      if (message.type === "SKIP_WAITING" && skipsWaiting) {
+        sw.state = "activated";
+        listeners.forEach((listener) => listener());
+      }
+      if (message.type === "vite-mcp:caches" && caches) {
+        ports?.[0]?.postMessage({ caches });
+      }
+    }),
+    addEventListener: (_event: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_event: string, listener: () => void) => listeners.delete(listener),
+  };
+  return sw;
+}
+
+function setupPage(registrations: unknown[], cacheNames: string[] = []) {
+  const active = (registrations[0] as { active?: { scriptURL: string } } | undefined)?.active;
+  vi.stubGlobal("window", { location: { href: "http://localhost:5173/app/" }, caches: {} });
+  vi.stubGlobal("document", { title: "App", visibilityState: "visible" });
+  vi.stubGlobal("caches", { keys: async () => cacheNames });
+  vi.stubGlobal("navigator", {
+    serviceWorker: {
+      controller: active ?? null,
+      getRegistrations: async () => registrations,
+    },
+  });
+}
+
+async function run(params: { [key: string]: unknown }) {
+  const result = await serviceWorkerAdapter.handler!.call({ server: {} } as any, params);
+  const data = JSON.parse((result.content[0] as { text: string }).text);
+  if (!result.isError) {
+    serviceWorkerAdapterOutputSchema.parse(data);
+  }
+  return { isError: result.isError === true, data };
+}
+
+describe("Service Worker Adapter", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Input Schema Validation", () => {
+    it("should accept the control actions with a scope", () => {
+      const result = serviceWorkerAdapterInputSchema.safeParse({ action: "skip_waiting", scope: "/app/", timeout: "500" });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.timeout).toBe(500);
+      }
+    });
+
+    it("should reject unknown actions", () => {
+      expect(serviceWorkerAdapterInputSchema.safeParse({ action: "install" }).success).toBe(false);
+    });
+  });
+
+  describe("Handler", () => {
+    it("should list registrations with their update status and caches", async () => {
+      setupPage(
+        [
+          {
+            scope: "http://localhost:5173/app/",
+            updateViaCache: "imports",
+            active: worker("http://localhost:5173/app/sw.js", "activated"),
+            waiting: worker("http://localhost:5173/app/sw.js?v=2", "installed"),
+            installing: null,
+          },
+        ],
+        ["workbox-precache-v2-http://localhost:5173/app/", "images"]
+      );
+
+      const { data } = await run({ action: "list" });
+
+      expect(data.count).toBe(1);
+      expect(data.registrations[0]).toMatchObject({
+        scope: "http://localhost:5173/app/",
+        updateStatus: "waiting",
+        controlsPage: true,
+        active: { scriptURL: "http://localhost:5173/app/sw.js", state: "activated" },
+        caches: ["workbox-precache-v2-http://localhost:5173/app/"],
+        cachesSource: "name",
+      });
+      expect(data.unattributedCaches).toEqual(["images"]);
+    });
+
+    it("should take the caches a worker lists itself", async () => {
+      setupPage(
+        [
+          {
+            scope: "http://localhost:5173/app/",
+            updateViaCache: "imports",
+            active: worker("http://localhost:5173/app/sw.js", "activated", { caches: ["app-shell-v3", "images"] }),
+            waiting: null,
+            installing: null,
+          },
+        ],
+        ["app-shell-v3", "images", "other"]
+      );
+
+      const started = Date.now();
+      const { data } = await run({ action: "list" });
+
+      expect(data.registrations[0]).toMatchObject({ caches: ["app-shell-v3", "images"], cachesSource: "worker", updateStatus: "up_to_date" });
+      expect(data.unattributedCaches).toEqual(["other"]);
+      // Answered on the port, not left to the 300 ms fallback
+      expect(Date.now() - started).toBeLessThan(300);
+    });
+
+    it("should report missing support instead of failing to list", async () => {
+      vi.stubGlobal("window", { location: { href: "http://example.test/" } });
+      vi.stubGlobal("navigator", {});
+
+      const { isError, data } = await run({ action: "list" });
+
+      expect(isError).toBe(false);
+      expect(data).toMatchObject({ supported: false, registrations: [], count: 0 });
+    });
+
+    it("should activate the waiting worker", async () => {
+      const waiting = worker("http://localhost:5173/app/sw.js?v=2", "installed");
+      setupPage([
+        {
+          scope: "http://localhost:5173/app/",
+          updateViaCache: "imports",
+          active: worker("http://localhost:5173/app/sw.js", "activated"),
+          waiting,
+          installing: null,
+        },
+      ]);
+
+      const { data } = await run({ action: "skip_waiting", scope: "/app" });
+
+      expect(waiting.postMessage).toHaveBeenCalledWith({ type: "SKIP_WAITING" });
+      expect(data).toMatchObject({ action: "skip_waiting", success: true, activated: true, scope: "http://localhost:5173/app/" });
+    });
+
+    it("should not report success when the waiting worker ignores SKIP_WAITING", async () => {
+      setupPage([
+        {
+          scope: "http://localhost:5173/app/",
+          updateViaCache: "imports",
+          active: null,
+          waiting: worker("http://localhost:5173/app/sw.js?v=2", "installed", { skipsWaiting: false }),
+          installing: null,
+        },
+      ]);
+
+      const { data } = await run({ action: "skip_waiting", scope: "/app", timeout: 20 });
+
+      expect(data).toMatchObject({ action: "skip_waiting", success: false, activated: false, registration: { updateStatus: "waiting" } });
+    });
+
+    it("should ask for a scope when several workers are registered", async () => {
+      const unregister = vi.fn(async () => true);
+      setupPage([
+        { scope: "http://localhost:5173/app/", unregister },
+        { scope: "http://localhost:5173/admin/", unregister },
+      ]);
+
+      const { isError, data } = await run({ action: "unregister" });
+
+      expect(isError).toBe(true);
+      expect(data.error).toContain("pass scope");
+      expect(unregister).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Permissions", () => {
+    it("should route control actions through the write and delete settings", () => {
+      const plugin = viteMcp({ adapterConfig: { serviceWorker: { write: "confirm", delete: false } } }) as any;
+      plugin.configResolved({ mode: "development", root: "/app" });
+      const code: string = plugin.load("\0vite-mcp-bridge.ts");
+
+      expect(code).toContain('allowedActions: ["list","clients","update","skip_waiting"]');
+      expect(code).toContain('confirmActions: ["update","skip_waiting"]');
+      expect(code).toContain('"service_worker"');
+    });
+  });
+});
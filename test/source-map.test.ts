@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import type { ViteDevServer } from "vite";
+import { StackMapper, mapConsoleResult } from "../src/source-map.js";
+
+// Generated line 2, column 5 maps to App.tsx line 5, column 3 (1-based)
+const appMap = {
+  version: 3,
+  sources: ["App.tsx"],
+  names: [],
+  mappings: ";IAIE",
+};
+
+function createServer(): ViteDevServer {
+  const modules: Record<string, unknown> = {
+    "/src/App.tsx": {
+      file: "/project/src/App.tsx",
+      transformResult: { code: "", map: appMap },
+    },
+  };
+
+  return {
+    config: { root: "/project" },
+    moduleGraph: {
+      getModuleByUrl: async (url: string) => modules[url],
+    },
+  } as unknown as ViteDevServer;
+}
+
+describe("Source Maps", () => {
+  it("should map a served module location to the original source", async () => {
+    const mapper = new StackMapper(createServer());
+    const mapped = await mapper.mapLocation("http://localhost:5173/src/App.tsx", 2, 5);
+    expect(mapped).toEqual({ source: "src/App.tsx", line: 5, column: 3 });
+  });
+
+  it("should rewrite Chromium and Firefox stack frames", async () => {
+    const mapper = new StackMapper(createServer());
+    const stack = [
+      "TypeError: boom",
+      "    at render (http://localhost:5173/src/App.tsx:2:5)",
+      "render@http://localhost:5173/src/App.tsx:2:5",
+    ].join("\n");
+
+    expect(await mapper.mapStack(stack)).toBe(
+      ["TypeError: boom", "    at render (src/App.tsx:5:3)", "render@src/App.tsx:5:3"].join("\n")
+    );
+  });
+
+  it("should leave locations without a source map untouched", async () => {
+    const mapper = new StackMapper(createServer());
+    const stack = "    at fetch (http://localhost:5173/node_modules/.vite/deps/lib.js:10:2)";
+
+    expect(await mapper.mapStack(stack)).toBe(stack);
+  });
+
+  it("should map structured logs and text content of a console result", async () => {
+    const mapper = new StackMapper(createServer());
+    const result = await mapConsoleResult(mapper, {
+      structuredContent: {
+        logs: [
+          {
+            level: "error",
+            kind: "uncaught",
+            args: ["boom"],
+            timestamp: 0,
+            source: "http://localhost:5173/src/App.tsx",
+            line: 2,
+            column: 5,
+            stack: "at render (http://localhost:5173/src/App.tsx:2:5)",
+          },
+        ],
+      },
+      content: [{ type: "text", text: "boom (http://localhost:5173/src/App.tsx:2:5)" }],
+    });
+
+    const logs = (result.structuredContent as { logs: Array<Record<string, unknown>> }).logs;
+    expect(logs[0]).toMatchObject({
+      source: "src/App.tsx",
+      line: 5,
+      column: 3,
+      stack: "at render (src/App.tsx:5:3)",
+    });
+    expect(result.content[0]).toEqual({ type: "text", text: "boom (src/App.tsx:5:3)" });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ViteMcpServer } from "../src/server.js";
+import { parseStdioArgs, proxyTransports, resolveEndpointUrl } from "../src/stdio.js";
+import type { AdapterDefinition } from "../src/adapter/types.js";
+
+const echoAdapter: AdapterDefinition = {
+  name: "echo",
+  description: "Echo the message back",
+  inputSchema: z.object({ message: z.string() }),
+  handler: async () => ({ content: [] }),
+};
+
+async function startDevServer(): Promise<{ http: Server; url: URL }> {
+  const mcpServer = new ViteMcpServer({ name: "test", version: "1.0.0", adapters: [] });
+  mcpServer.registerAdapter(echoAdapter, async (input) => ({
+    content: [{ type: "text", text: String(input["message"]) }],
+  }));
+  mcpServer.markInitialized();
+
+  const http = createServer((req, res) => void mcpServer.handleHTTP(req, res));
+  await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve));
+  const { port } = http.address() as AddressInfo;
+  return { http, url: new URL(`http://127.0.0.1:${port}/__mcp`) };
+}
+
+async function connectThroughProxy(url: URL): Promise<Client> {
+  const [clientTransport, localTransport] = InMemoryTransport.createLinkedPair();
+  await proxyTransports(localTransport, new StreamableHTTPClientTransport(url));
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+describe("Stdio Proxy", () => {
+  describe("Arguments", () => {
+    it("should default to the Vite dev server on localhost:5173", () => {
+      const options = parseStdioArgs([]);
+      expect(options).toEqual({ host: "localhost", port: 5173, start: false });
+      expect(resolveEndpointUrl(options).toString()).toBe("http://localhost:5173/__mcp");
+    });
+
+    it("should accept separate and inline values", () => {
+      const options = parseStdioArgs(["--port", "3000", "--path=mcp", "--start", "--root", "app"]);
+      expect(options).toMatchObject({ port: 3000, path: "/mcp", start: true, root: "app" });
+      expect(resolveEndpointUrl(options).toString()).toBe("http://localhost:3000/mcp");
+    });
+
+    it("should prefer an explicit URL", () => {
+      const options = parseStdioArgs(["--port", "3000", "--url", "http://10.0.0.2:4000/__mcp"]);
+      expect(resolveEndpointUrl(options).toString()).toBe("http://10.0.0.2:4000/__mcp");
+    });
+
+    it("should reject invalid arguments", () => {
+      expect(() => parseStdioArgs(["--port", "abc"])).toThrow("Invalid port: abc");
+      expect(() => parseStdioArgs(["--port"])).toThrow("Missing value for --port");
+      expect(() => parseStdioArgs(["--verbose"])).toThrow("Unknown option: --verbose");
+    });
+  });
+
+  describe("Proxy", () => {
+    let client: Client | undefined;
+    let http: Server | undefined;
+
+    afterEach(async () => {
+      await client?.close();
+      client = undefined;
+      await new Promise((resolve) => (http ? http.close(resolve) : resolve(undefined)));
+      http = undefined;
+    });
+
+    it("should forward requests and responses to the HTTP endpoint", async () => {
+      const devServer = await startDevServer();
+      http = devServer.http;
+      client = await connectThroughProxy(devServer.url);
+
+      const { tools } = await client.listTools();
+      expect(tools.map(({ name }) => name)).toContain("echo");
+
+      const result = await client.callTool({ name: "echo", arguments: { message: "hello" } });
+      expect(result.content).toEqual([{ type: "text", text: "hello" }]);
+    });
+
+    it("should answer requests with an error when the dev server is unreachable", async () => {
+      const devServer = await startDevServer();
+      await new Promise((resolve) => devServer.http.close(resolve));
+
+      const connecting = connectThroughProxy(devServer.url);
+      await expect(connecting).rejects.toThrow("Could not reach the Vite dev server");
+    });
+  });
+});
@@ -0,0 +1,400 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  storageSnapshotAdapter,
+  storageSnapshotAdapterInputSchema,
+  storageSnapshotAdapterOutputSchema,
+} from "../src/adapter/storage-snapshot.js";
+import { storageSnapshotHandler } from "../src/bridge/handlers/storage-snapshot.js";
+import { SNAPSHOT_DIR, SnapshotStore, createSnapshotServerMethods } from "../src/snapshot-store.js";
+import { viteMcp } from "../src/index.js";
+import { createFakeIndexedDB } from "./fake-indexed-db.js";
+import type { Key } from "./fake-indexed-db.js";
+
+function fakeStorage(initial: { [key: string]: string }) {
+  const entries = new Map(Object.entries(initial));
+  return {
+    entries,
+    get length() {
+      return entries.size;
+    },
+    key: (index: number) => [...entries.keys()][index] ?? null,
+    getItem: (key: string) => entries.get(key) ?? null,
+    setItem: (key: string, value: string) => entries.set(key, String(value)),
+    removeItem: (key: string) => entries.delete(key),
+    clear: () => entries.clear(),
+  };
+}
+
+function fakeCaches(initial: { [cacheName: string]: { [url: string]: Response } }) {
+  const stores = new Map(Object.entries(initial).map(([name, responses]) => [name, new Map(Object.entries(responses))]));
+  const open = async (name: string) => {
+    const responses = stores.get(name) ?? new Map<string, Response>();
+    stores.set(name, responses);
+    return {
+      keys: async () => [...responses.keys()].map((url) => new Request(url)),
+      match: async (request: Request) => responses.get(request.url)?.clone(),
+      put: async (url: string, response: Response) => {
+        responses.set(url, response);
+      },
+    };
+  };
+  return { stores, api: { keys: async () => [...stores.keys()], open, delete: async (name: string) => stores.delete(name) } };
+}
+
+// The jar keeps one cookie per name whatever its path; `writes` lists every document.cookie assignment
+function setupPage() {
+  const jar = new Map([["session", "abc"], ["theme", "dark"]]);
+  const writes: string[] = [];
+  const document = {
+    get cookie() {
+      return [...jar].map(([name, value]) => `${name}=${value}`).join("; ");
+    },
+    set cookie(text: string) {
+      writes.push(text);
+      const [pair = "", ...attributes] = text.split(";");
+      const [name = "", ...value] = pair.split("=");
+      if (attributes.some((attribute) => attribute.trim().startsWith("expires=Thu, 01 Jan 1970"))) {
+        jar.delete(name.trim());
+      } else {
+        jar.set(name.trim(), value.join("="));
+      }
+    },
+  };
+  const localStorage = fakeStorage({ cart: '["sku-1"]', onboarding: "done" });
+  const sessionStorage = fakeStorage({ step: "2" });
+  const caches = fakeCaches({
+    "app-shell": {
+      "http://localhost:5173/index.html": new Response("<h1>App</h1>", { headers: { "content-type": "text/html" } }),
+      "http://localhost:5173/logo.png": new Response(new Uint8Array([0, 255, 128])),
+    },
+  });
+  const idb = createFakeIndexedDB();
+  idb.seed("app", {
+    users: { keyPath: "id", records: new Map<Key, unknown>([[1, { id: 1, name: "Ada" }]]) },
+  });
+
+  vi.stubGlobal("window", {
+    location: { href: "http://localhost:5173/checkout", protocol: "http:", hostname: "localhost", pathname: "/checkout" },
+    localStorage,
+    sessionStorage,
+    caches: caches.api,
+    indexedDB: idb.indexedDB,
+  });
+  vi.stubGlobal("document", document);
+  vi.stubGlobal("caches", caches.api);
+  vi.stubGlobal("indexedDB", idb.indexedDB);
+  return { jar, writes, localStorage, sessionStorage, caches, idb };
+}
+
+let dir: string;
+let store: SnapshotStore;
+
+async function run(params: { [key: string]: unknown }) {
+  const server = createSnapshotServerMethods(() => store);
+  const result = await storageSnapshotHandler.call({ server } as any, params);
+  const data = JSON.parse((result.content[0] as { text: string }).text);
+  if (!result.isError) {
+    storageSnapshotAdapterOutputSchema.parse(data);
+  }
+  return { isError: result.isError === true, data };
+}
+
+describe("Storage Snapshot", () => {
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "vite-mcp-snapshots-"));
+    store = new SnapshotStore(dir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("Input Schema Validation", () => {
+    it("should accept storage types to include", () => {
+      expect(storageSnapshotAdapterInputSchema.safeParse({ action: "capture", name: "cart-bug", include: ["cookies", "indexedDB"] }).success).toBe(true);
+      expect(storageSnapshotAdapterInputSchema.safeParse({ action: "capture", name: "cart-bug", include: ["webSQL"] }).success).toBe(false);
+    });
+  });
+
+  describe("SnapshotStore", () => {
+    it("should save, load and list snapshots", async () => {
+      await store.save("first", { url: "a" });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await store.save("second", { url: "b" });
+
+      expect(await store.load("first")).toEqual({ url: "a" });
+      expect((await store.list()).map(({ name }) => name)).toEqual(["second", "first"]);
+    });
+
+    it("should reject names that could leave the snapshot directory", async () => {
+      await expect(store.save("../outside", {})).rejects.toThrow('Invalid snapshot name "../outside"');
+      await expect(store.load("missing")).rejects.toThrow('Snapshot "missing" not found');
+    });
+
+    it("should list nothing before the first snapshot", async () => {
+      expect(await new SnapshotStore(join(dir, "none")).list()).toEqual([]);
+    });
+  });
+
+  describe("Adapter", () => {
+    it("should capture every storage type and restore it after clearing the current state", async () => {
+      const page = setupPage();
+
+      const captured = await run({ action: "capture", name: "checkout" });
+      expect(captured.data).toMatchObject({
+        action: "capture",
+        name: "checkout",
+        counts: { cookies: 2, localStorage: 2, sessionStorage: 1, caches: 2, indexedDB: 1 },
+      });
+      expect(JSON.parse(await readFile(join(dir, "checkout.json"), "utf8")).url).toBe("http://localhost:5173/checkout");
+
+      page.jar.set("tracking", "x");
+      page.jar.delete("theme");
+      page.localStorage.setItem("cart", "[]");
+      page.sessionStorage.clear();
+      page.caches.stores.set("runtime", new Map([["http://localhost:5173/api", new Response("{}")]]));
+      page.idb.seed("scratch", { notes: {} });
+      await run({ action: "capture", name: "after" });
+
+      const restored = await run({ action: "restore", name: "checkout" });
+      expect(restored.data.restored).toEqual(["cookies", "localStorage", "sessionStorage", "caches", "indexedDB"]);
+
+      expect(Object.fromEntries(page.jar)).toEqual({ session: "abc", theme: "dark" });
+      expect(Object.fromEntries(page.localStorage.entries)).toEqual({ cart: '["sku-1"]', onboarding: "done" });
+      expect(Object.fromEntries(page.sessionStorage.entries)).toEqual({ step: "2" });
+      expect([...page.caches.stores.keys()]).toEqual(["app-shell"]);
+      const logo = page.caches.stores.get("app-shell")!.get("http://localhost:5173/logo.png")!;
+      expect([...new Uint8Array(await logo.arrayBuffer())]).toEqual([0, 255, 128]);
+      expect([...page.idb.databases.keys()]).toEqual(["app"]);
+      expect(page.idb.records("app", "users")).toEqual({ 1: { id: 1, name: "Ada" } });
+    });
+
+    it("should only capture and restore the included storage types", async () => {
+      const page = setupPage();
+
+      const captured = await run({ action: "capture", name: "web-storage", include: ["localStorage", "sessionStorage"] });
+      expect(captured.data.counts).toEqual({ localStorage: 2, sessionStorage: 1 });
+
+      page.jar.set("tracking", "x");
+      page.localStorage.clear();
+      await run({ action: "restore", name: "web-storage" });
+
+      expect(page.jar.get("tracking")).toBe("x");
+      expect(page.localStorage.entries.size).toBe(2);
+    });
+
+    it("should diff two snapshots and a snapshot against the current state", async () => {
+      const page = setupPage();
+      await run({ action: "capture", name: "before", include: ["cookies", "localStorage", "indexedDB"] });
+
+      page.jar.set("theme", "light");
+      page.localStorage.removeItem("onboarding");
+      page.localStorage.setItem("coupon", "SAVE10");
+      page.idb.seed("app", { users: { keyPath: "id", records: new Map<Key, unknown>([[1, { id: 1, name: "Ada" }], [2, { id: 2 }]]) } });
+      await run({ action: "capture", name: "after" });
+
+      const { data } = await run({ action: "diff", from: "before", to: "after" });
+      expect(data.changes).toEqual([
+        { storage: "cookies", key: "theme", change: "changed", before: "dark", after: "light" },
+        { storage: "localStorage", key: "onboarding", change: "removed", before: "done" },
+        { storage: "localStorage", key: "coupon", change: "added", after: "SAVE10" },
+        { storage: "indexedDB", scope: "app/users", key: "2", change: "added", after: { id: 2 } },
+      ]);
+      expect(data.summary).toEqual({ added: 2, removed: 1, changed: 1 });
+
+      page.localStorage.setItem("onboarding", "done");
+      const current = await run({ action: "diff", from: "after" });
+      expect(current.data.to).toBe("current");
+      expect(current.data.changes).toEqual([{ storage: "localStorage", key: "onboarding", change: "added", after: "done" }]);
+    });
+
+    it("should expire cookies on every path the page can see before restoring", async () => {
+      const page = setupPage();
+      await run({ action: "capture", name: "checkout", include: ["cookies"] });
+      page.jar.set("tracking", "x");
+      page.writes.length = 0;
+
+      await run({ action: "restore", name: "checkout" });
+
+      const expired = page.writes.filter((text) => text.startsWith("tracking=;"));
+      expect(expired).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/path=\/$/),
+          expect.stringMatching(/path=\/checkout$/),
+          expect.stringMatching(/path=\/checkout\/$/),
+          expect.stringMatching(/path=\/checkout; domain=localhost$/),
+        ])
+      );
+      expect(page.writes.filter((text) => !text.includes("expires=Thu, 01 Jan 1970"))).toEqual([
+        "session=abc; path=/",
+        "theme=dark; path=/",
+      ]);
+    });
+
+    it("should keep the path, domain and attributes the Cookie Store API reports", async () => {
+      const page = setupPage();
+      const expires = Date.now() + 60_000;
+      (window as any).cookieStore = {
+        getAll: async () => [
+          { name: "session", value: "abc", path: "/checkout", domain: null, expires: null, secure: false, sameSite: "strict" },
+          { name: "theme", value: "dark", path: "/", domain: "localhost", expires: expires + 60_000, secure: true, sameSite: "none" },
+          { name: "gone", value: "1", path: "/", domain: null, expires, secure: false, sameSite: "lax" },
+        ],
+      };
+      await run({ action: "capture", name: "checkout", include: ["cookies"] });
+      const { data: diff } = await run({ action: "diff", from: "checkout" });
+      expect(diff.changes).toEqual([]);
+
+      vi.spyOn(Date, "now").mockReturnValue(expires + 1);
+      page.writes.length = 0;
+      const { data } = await run({ action: "restore", name: "checkout" });
+
+      expect(data.skipped).toEqual([`cookies: gone (expired ${new Date(expires).toISOString()})`]);
+      expect(page.writes.filter((text) => !text.includes("expires=Thu, 01 Jan 1970"))).toEqual([
+        "session=abc; path=/checkout; samesite=Strict",
+        `theme=dark; path=/; domain=localhost; expires=${new Date(expires + 60_000).toUTCString()}; secure; samesite=None`,
+      ]);
+    });
+
+    it("should leave out IndexedDB records that JSON can't carry", async () => {
+      const page = setupPage();
+      page.idb.seed("app", {
+        users: {
+          keyPath: "id",
+          records: new Map<Key, unknown>([
+            [1, { id: 1, name: "Ada" }],
+            [2, { id: 2, createdAt: new Date(0) }],
+            [3, { id: 3, avatar: new ArrayBuffer(4) }],
+            [4, { id: 4, tags: [new Map()] }],
+          ]),
+        },
+      });
+
+      const { data } = await run({ action: "capture", name: "app", include: ["indexedDB"] });
+
+      expect(data.counts).toEqual({ indexedDB: 1 });
+      expect(data.skipped).toEqual([
+        "indexedDB: app/users 2 (Date at $.createdAt does not survive JSON)",
+        "indexedDB: app/users 3 (ArrayBuffer at $.avatar does not survive JSON)",
+        "indexedDB: app/users 4 (Map at $.tags[0] does not survive JSON)",
+      ]);
+    });
+
+    it("should give up on a database the page keeps open and restore the others", async () => {
+      const page = setupPage();
+      await run({ action: "capture", name: "checkout", include: ["indexedDB"] });
+      page.idb.seed("scratch", { notes: {} });
+      page.idb.block("scratch");
+      page.idb.seed("app", { users: { keyPath: "id", records: new Map<Key, unknown>() } });
+
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      try {
+        const restoring = run({ action: "restore", name: "checkout" });
+        await vi.waitFor(() => expect(page.idb.pendingDeletes).toEqual(["scratch"]));
+        await vi.advanceTimersByTimeAsync(10_000);
+        const { data } = await restoring;
+
+        expect(data.restored).toEqual(["indexedDB"]);
+        expect(data.skipped).toEqual([
+          'indexedDB: scratch (Database "scratch" is still open in the page after 10000ms; it is deleted once the page closes its connections)',
+        ]);
+        expect(page.idb.records("app", "users")).toEqual({ 1: { id: 1, name: "Ada" } });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should list saved snapshots", async () => {
+      setupPage();
+      await run({ action: "capture", name: "checkout", include: ["cookies"] });
+
+      const { data } = await run({ action: "list" });
+      expect(data.snapshots).toEqual([{ name: "checkout", size: expect.any(Number), savedAt: expect.any(Number) }]);
+    });
+
+    it("should return an error for a missing snapshot", async () => {
+      setupPage();
+      const { isError, data } = await run({ action: "restore", name: "missing" });
+
+      expect(isError).toBe(true);
+      expect(data.error).toBe('Snapshot "missing" not found');
+    });
+  });
+
+  describe("Plugin", () => {
+    // Two tabs share the dev server; `results(tab)` lists the server call answers that tab received
+    function startPlugin(options: Parameters<typeof viteMcp>[0] = {}) {
+      const listeners: { [event: string]: (data: any, client: any) => void } = {};
+      const broadcast = vi.fn();
+      const tabs = [{ send: vi.fn() }, { send: vi.fn() }];
+      const plugin = viteMcp({ auditLog: false, ...options }) as any;
+      plugin.configResolved({ mode: "development", root: "/app" });
+      plugin.configureServer({
+        config: { cacheDir: dir, server: {} },
+        ws: { on: (event: string, listener: any) => (listeners[event] = listener), send: broadcast, clients: new Set(tabs) },
+        middlewares: { use: () => {} },
+      });
+      const results = (tab = tabs[0]!) =>
+        tab.send.mock.calls.filter(([event]) => event === "mcp:tool-server-result").map(([, data]) => data);
+      const call = (id: string, name: string, params: unknown, tab = tabs[0]!) =>
+        listeners["mcp:tool-server-call"]!({ id, name, params }, tab);
+      return { plugin, broadcast, tabs, results, call };
+    }
+
+    it("should save snapshots in the Vite cache dir through the server methods channel", async () => {
+      const { call, results } = startPlugin();
+
+      call("1", "storage_snapshot:save", { name: "cart", snapshot: { url: "u" } });
+      await vi.waitFor(() => expect(results()).toHaveLength(1));
+
+      expect(results()[0]).toMatchObject({ id: "1", result: { name: "cart" } });
+      expect(JSON.parse(await readFile(join(dir, SNAPSHOT_DIR, "cart.json"), "utf8"))).toEqual({ url: "u" });
+    });
+
+    it("should answer only the tab that made the server call", async () => {
+      const { call, results, tabs, broadcast } = startPlugin();
+
+      call("1", "storage_snapshot:list", {}, tabs[1]);
+      call("2", "storage_snapshot:load", { name: "missing" }, tabs[1]);
+      call("3", "nope:list", {}, tabs[1]);
+      call("4", "storage_snapshot:drop", {}, tabs[1]);
+      await vi.waitFor(() => expect(results(tabs[1])).toHaveLength(4));
+
+      expect(results(tabs[1])).toEqual(
+        expect.arrayContaining([
+          { id: "1", result: { snapshots: [] } },
+          { id: "2", error: expect.stringContaining("missing") },
+          { id: "3", error: "Adapter not found: nope" },
+          { id: "4", error: "Method not found: drop" },
+        ])
+      );
+      expect(results(tabs[0])).toEqual([]);
+      expect(broadcast).not.toHaveBeenCalledWith("mcp:tool-server-result", expect.anything());
+    });
+
+    it("should give the snapshot adapter its server methods in a custom adapter list", async () => {
+      const { call, results } = startPlugin({ adapters: [storageSnapshotAdapter] });
+      call("1", "storage_snapshot:list", {});
+      await vi.waitFor(() => expect(results()).toHaveLength(1));
+      expect(results()[0]).toEqual({ id: "1", result: { snapshots: [] } });
+
+      // A look-alike adapter does not borrow them just by its name
+      const other = startPlugin({ adapters: [{ ...storageSnapshotAdapter, handler: async () => ({ content: [] }) }] });
+      other.call("2", "storage_snapshot:list", {});
+      await vi.waitFor(() => expect(other.results()).toHaveLength(1));
+      expect(other.results()[0]).toEqual({ id: "2", error: "Method not found: list" });
+    });
+
+    it("should put restore behind the write and delete permissions", () => {
+      const { plugin } = startPlugin({ adapterConfig: { storageSnapshot: { delete: false } } });
+      const code: string = plugin.load("\0vite-mcp-bridge.ts");
+
+      expect(code).toContain('allowedActions: ["capture","list","diff"]');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+import type { AdapterDefinition } from "../src/adapter/types.js";
+import { startPlugin } from "./plugin-server.js";
+
+const pingAdapter: AdapterDefinition = {
+  name: "ping",
+  description: "Answers from the page",
+  inputSchema: z.object({}),
+  handler: async () => ({ content: [] }),
+};
+
+describe("Wait for Bridge", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should hold calls until a tab connects", async () => {
+    const { client, listeners, sent, connectTab, close } = await startPlugin(
+      { adapters: [pingAdapter], waitForBridge: 10_000 },
+      { connected: false }
+    );
+    try {
+      const pending = client.callTool({ name: "ping", arguments: {} });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(sent("mcp:tool-call")).toEqual([]);
+
+      connectTab();
+      await vi.waitFor(() => expect(sent("mcp:tool-call")).toHaveLength(1));
+      const [{ id }] = sent("mcp:tool-call");
+      listeners["mcp:tool-result"]!({ id, result: { content: [{ type: "text", text: "pong" }] } }, undefined);
+
+      expect((await pending).content).toEqual([{ type: "text", text: "pong" }]);
+    } finally {
+      await close();
+    }
+  });
+
+  it("should fail once the grace period passes", async () => {
+    const { client, close } = await startPlugin({ adapters: [pingAdapter], waitForBridge: 50 }, { connected: false });
+    try {
+      const result = await client.callTool({ name: "ping", arguments: {} });
+
+      expect(result.isError).toBe(true);
+      expect(JSON.stringify(result.content)).toContain("No WebSocket clients connected within 50 ms");
+    } finally {
+      await close();
+    }
+  });
+
+  it("should fail right away without a grace period", async () => {
+    const { client, close } = await startPlugin({ adapters: [pingAdapter] }, { connected: false });
+    try {
+      const started = Date.now();
+      const result = await client.callTool({ name: "ping", arguments: {} });
+
+      expect(result.isError).toBe(true);
+      expect(Date.now() - started).toBeLessThan(1000);
+    } finally {
+      await close();
+    }
+  });
+
+  it("should report connected bridges in the health check", async () => {
+    const { origin, connectTab, close } = await startPlugin({ adapters: [pingAdapter] }, { connected: false });
+    try {
+      expect((await (await fetch(`${origin}/__mcp/health`)).json()).bridges).toEqual({
+        connected: 0,
+        lastReadyAt: null,
+      });
+
+      const before = Date.now();
+      connectTab();
+      const { bridges } = await (await fetch(`${origin}/__mcp/health`)).json();
+      expect(bridges.connected).toBe(1);
+      expect(bridges.lastReadyAt).toBeGreaterThanOrEqual(before);
+    } finally {
+      await close();
+    }
+  });
+});
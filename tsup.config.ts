@@ -12,7 +12,7 @@ export default defineConfig([
     clean: true,
     treeshake: true,
     minify: true,
-    external: ["vite", "zod", "@modelcontextprotocol/sdk"],
+    external: ["vite", "zod", "@modelcontextprotocol/sdk", "@jridgewell/trace-mapping"],
     outDir: "dist",
     onSuccess: async () => {
       // Copy browser-bridge.ts to dist directory
@@ -71,6 +71,17 @@ export default defineConfig([
       }, 2000);
     },
   },
+  {
+    entry: ["src/cli.ts"],
+    format: ["esm"],
+    splitting: false,
+    sourcemap: true,
+    treeshake: true,
+    minify: true,
+    banner: { js: "#!/usr/bin/env node" },
+    external: ["vite", "zod", "@modelcontextprotocol/sdk", "@jridgewell/trace-mapping"],
+    outDir: "dist",
+  },
   {
     entry: ["src/adapter/index.ts"],
     format: ["esm", "cjs"],
@@ -83,7 +94,7 @@ export default defineConfig([
     outDir: "dist/adapters",
   },
   {
-    entry: ["src/bridge/index.ts"],
+    entry: { index: "src/bridge/index.ts", handlers: "src/bridge/handlers/index.ts" },
     format: ["esm"],
     dts: true,
     splitting: false,
@@ -94,7 +105,7 @@ export default defineConfig([
     external: ["@modelcontextprotocol/sdk"],
     outDir: "dist/bridge",
     onSuccess: async () => {
-      console.log("✓ Built bridge/index.js");
+      console.log("✓ Built bridge/index.js and bridge/handlers.js");
     },
   },
 ]);